@@ -36,6 +36,9 @@ export interface Config {
     enableBackups: boolean;
     maxBackups: number;
     backupInterval: number; // in hours
+    searchIndexPath: string; // FTS5 index, kept outside Bear's directory
+    vectorIndexPath: string; // TF-IDF vectors for semantic search, likewise
+    enableSearchIndex: boolean; // both indexes
   };
 
   // MCP Server
@@ -44,12 +47,20 @@ export interface Config {
     version: string;
     timeout: number; // in milliseconds
     maxRetries: number;
+    transport: 'stdio' | 'http'; // http serves many clients over SSE
+    http: {
+      host: string;
+      port: number;
+      token: string | undefined; // bearer token every HTTP request must present
+    };
   };
 
   // Bear Application
   bear: {
     checkInterval: number; // in milliseconds
     maxWaitTime: number; // in milliseconds
+    pollInterval: number; // in milliseconds, first delay when verifying a write
+    maxPollInterval: number; // in milliseconds, cap for the backoff between checks
     enableStatusCheck: boolean;
   };
 
@@ -90,7 +101,7 @@ const defaultConfig: Config = {
         os.homedir(),
         'Library',
         'Group Containers',
-        'net.shinyfrog.bear',
+        '9K33E3U3T4.net.shinyfrog.bear',
         'Application Data',
         'database.sqlite'
       ),
@@ -98,6 +109,25 @@ const defaultConfig: Config = {
     enableBackups: process.env.ENABLE_BACKUPS !== 'false',
     maxBackups: parseInt(process.env.MAX_BACKUPS || '10', 10),
     backupInterval: parseInt(process.env.BACKUP_INTERVAL || '24', 10),
+    searchIndexPath:
+      process.env.BEAR_SEARCH_INDEX_PATH ||
+      path.join(
+        os.homedir(),
+        'Library',
+        'Application Support',
+        'bear-mcp-server',
+        'search-index.sqlite'
+      ),
+    vectorIndexPath:
+      process.env.BEAR_VECTOR_INDEX_PATH ||
+      path.join(
+        os.homedir(),
+        'Library',
+        'Application Support',
+        'bear-mcp-server',
+        'vector-index.sqlite'
+      ),
+    enableSearchIndex: process.env.SEARCH_INDEX !== 'false',
   },
 
   // MCP Server
@@ -106,12 +136,20 @@ const defaultConfig: Config = {
     version: process.env.npm_package_version || '1.0.0',
     timeout: parseInt(process.env.SERVER_TIMEOUT || '30000', 10),
     maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
+    transport: (process.env.MCP_TRANSPORT as 'stdio' | 'http') || 'stdio',
+    http: {
+      host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+      port: parseInt(process.env.MCP_HTTP_PORT || '3717', 10),
+      token: process.env.MCP_HTTP_TOKEN || undefined,
+    },
   },
 
   // Bear Application
   bear: {
     checkInterval: parseInt(process.env.BEAR_CHECK_INTERVAL || '5000', 10),
     maxWaitTime: parseInt(process.env.BEAR_MAX_WAIT || '30000', 10),
+    pollInterval: parseInt(process.env.BEAR_POLL_INTERVAL || '100', 10),
+    maxPollInterval: parseInt(process.env.BEAR_MAX_POLL_INTERVAL || '2000', 10),
     enableStatusCheck: process.env.BEAR_STATUS_CHECK !== 'false',
   },
 
@@ -158,10 +196,35 @@ function validateConfig(config: Config): void {
     errors.push('Max retries cannot be negative');
   }
 
+  if (!['stdio', 'http'].includes(config.server.transport)) {
+    errors.push(`Invalid transport: ${config.server.transport} (use stdio or http)`);
+  }
+
+  if (config.server.transport === 'http') {
+    if (!config.server.http.token) {
+      errors.push('MCP_HTTP_TOKEN is required for the http transport');
+    }
+    if (
+      !Number.isInteger(config.server.http.port) ||
+      config.server.http.port < 0 ||
+      config.server.http.port > 65535
+    ) {
+      errors.push(`Invalid HTTP port: ${config.server.http.port}`);
+    }
+  }
+
   if (config.bear.checkInterval < 1000) {
     errors.push('Bear check interval must be at least 1000ms');
   }
 
+  if (config.bear.pollInterval < 10) {
+    errors.push('Bear poll interval must be at least 10ms');
+  }
+
+  if (config.bear.maxPollInterval < config.bear.pollInterval) {
+    errors.push('Bear max poll interval cannot be less than the poll interval');
+  }
+
   if (config.security.maxQueryComplexity < 1) {
     errors.push('Max query complexity must be at least 1');
   }
@@ -0,0 +1,112 @@
+/**
+ * Bear MCP Server - HTTP Server
+ * Serves MCP over HTTP with server-sent events, so several clients can share one server.
+ * A client opens GET /sse and posts its messages to the endpoint the stream announces;
+ * each stream is its own MCP session. Every request must carry the bearer token.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { timingSafeEqual } from 'crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+
+export interface HttpServerOptions {
+  host: string;
+  /** 0 picks a free port */
+  port: number;
+  token: string;
+}
+
+export interface BearHttpServer {
+  /** The address the server listens on, e.g. http://127.0.0.1:3717 */
+  url: string;
+  /** Open sessions */
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+/**
+ * Listen for MCP clients over HTTP, handing each new session's transport to `connect`
+ */
+export async function startHttpServer(
+  connect: (transport: Transport) => Promise<void>,
+  options: HttpServerOptions
+): Promise<BearHttpServer> {
+  const sessions = new Map<string, SSEServerTransport>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (!isAuthorized(req, options.token)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      sessions.set(transport.sessionId, transport);
+      res.on('close', () => sessions.delete(transport.sessionId));
+      await connect(transport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const transport = sessions.get(url.searchParams.get('sessionId') || '');
+      if (!transport) {
+        res.writeHead(404).end('Unknown session');
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (!res.headersSent) {
+        res.writeHead(500).end(error instanceof Error ? error.message : 'Internal error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+  return {
+    url: `http://${address.includes(':') ? `[${address}]` : address}:${port}`,
+    sessionCount: () => sessions.size,
+    close: () => closeServer(server, sessions),
+  };
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match) {
+    return false;
+  }
+  const presented = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+async function closeServer(server: Server, sessions: Map<string, SSEServerTransport>) {
+  await Promise.all([...sessions.values()].map(transport => transport.close()));
+  sessions.clear();
+  await new Promise<void>((resolve, reject) =>
+    server.close(error => (error ? reject(error) : resolve()))
+  );
+}
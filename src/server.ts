@@ -0,0 +1,1749 @@
+/**
+ * Bear MCP Server - MCP Server
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { config } from './config/index.js';
+import { BearHttpServer, HttpServerOptions, SSE_PATH, startHttpServer } from './http-server.js';
+import { BootstrapOptions, bootstrapServices } from './services/bootstrap.js';
+import { globalContainer, ServiceContainer } from './services/container/service-container.js';
+import {
+  IAnalyticsService,
+  IBearApiService,
+  IDatabaseService,
+  IHealthService,
+  INoteService,
+  ISearchService,
+  ITagService,
+  IValidationService,
+  SERVICE_TOKENS,
+} from './services/interfaces/index.js';
+import { CoreDataUtils } from './utils/database.js';
+import { NoteEditMode, TagChangeResult, WritePreview, WriteVerification } from './types/bear.js';
+import { Page } from './utils/pagination.js';
+import { noteUri, parseResourceUri, RESOURCE_TEMPLATES, tagUri } from './utils/bear-resources.js';
+import {
+  parseDays,
+  PROMPT_NOTE_LIMIT,
+  PROMPTS,
+  renderNotes,
+  requiredArgument,
+} from './utils/note-prompts.js';
+import { BusinessError, NoteNotFoundError, TagNotFoundError } from './types/errors.js';
+import {
+  formatToolOutput,
+  isoDate,
+  noteListItem,
+  noteSummary,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  pageInfo,
+  parseOutputFormat,
+  toolError,
+  toolFailure,
+  ToolOutput,
+  toolResult,
+} from './utils/tool-output.js';
+import { toInputSchema, ToolArguments, TOOLS } from './utils/tool-schemas.js';
+
+const FORMAT_PROPERTY = {
+  type: 'string',
+  enum: OUTPUT_FORMATS,
+  description:
+    'text (default) for a readable summary, json for the payload documented per tool, or both',
+};
+
+// Notes per resources/list page
+const RESOURCE_PAGE_SIZE = 100;
+
+// MCP tool arguments, inferred from the schemas in utils/tool-schemas.ts
+type GetRecentNotesArgs = ToolArguments<'get_recent_notes'>;
+type SearchNotesArgs = ToolArguments<'search_notes'>;
+type GetNoteByIdArgs = ToolArguments<'get_note_by_id'>;
+type GetNoteByTitleArgs = ToolArguments<'get_note_by_title'>;
+type GetNotesByTagArgs = ToolArguments<'get_notes_by_tag'>;
+type GetNotesAdvancedArgs = ToolArguments<'get_notes_advanced'>;
+type GetNotesWithCriteriaArgs = ToolArguments<'get_notes_with_criteria'>;
+type GetRelatedNotesArgs = ToolArguments<'get_related_notes'>;
+type SearchNotesFullTextArgs = ToolArguments<'search_notes_fulltext'>;
+type GetSearchSuggestionsArgs = ToolArguments<'get_search_suggestions'>;
+type FindSimilarNotesArgs = ToolArguments<'find_similar_notes'>;
+type SemanticSearchArgs = ToolArguments<'semantic_search'>;
+type SearchNotesRegexArgs = ToolArguments<'search_notes_regex'>;
+type GetTagHierarchyArgs = ToolArguments<'get_tag_hierarchy'>;
+type AnalyzeTagRelationshipsArgs = ToolArguments<'analyze_tag_relationships'>;
+type GetTagUsageTrendsArgs = ToolArguments<'get_tag_usage_trends'>;
+type GetFileAttachmentsArgs = ToolArguments<'get_file_attachments'>;
+type AnalyzeNoteMetadataArgs = ToolArguments<'analyze_note_metadata'>;
+type GetNotesWithMetadataArgs = ToolArguments<'get_notes_with_metadata'>;
+type CreateNoteArgs = ToolArguments<'create_note'>;
+type UpdateNoteArgs = ToolArguments<'update_note'>;
+type EditNoteArgs = ToolArguments<'edit_note'>;
+type DuplicateNoteArgs = ToolArguments<'duplicate_note'>;
+type ArchiveNoteArgs = ToolArguments<'archive_note'>;
+type TrashNoteArgs = ToolArguments<'trash_note'>;
+type GetTrashedNotesArgs = ToolArguments<'get_trashed_notes'>;
+type TriggerHashtagParsingArgs = ToolArguments<'trigger_hashtag_parsing'>;
+type BatchTriggerHashtagParsingArgs = ToolArguments<'batch_trigger_hashtag_parsing'>;
+type RenameTagArgs = ToolArguments<'rename_tag'>;
+type MergeTagsArgs = ToolArguments<'merge_tags'>;
+
+export type BearMCPServerOptions = BootstrapOptions;
+
+/**
+ * Bear MCP Server
+ * Provides MCP tools for interfacing with Bear's SQLite database
+ */
+export class BearMCPServer {
+  private databaseService: IDatabaseService;
+  private noteService: INoteService;
+  private searchService: ISearchService;
+  private tagService: ITagService;
+  private analyticsService: IAnalyticsService;
+  private bearApiService: IBearApiService;
+  private validationService: IValidationService;
+  private healthService: IHealthService;
+
+  constructor(options: BearMCPServerOptions = {}) {
+    // A server with its own dispatcher or timings gets its own services, so it can run
+    // alongside others in one process
+    const custom = options.dispatcher !== undefined || options.verification !== undefined;
+    const container = custom ? new ServiceContainer() : globalContainer;
+    if (!container.isRegistered(SERVICE_TOKENS.DATABASE_SERVICE)) {
+      bootstrapServices(options, container);
+    }
+
+    this.databaseService = container.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+    this.noteService = container.resolve<INoteService>(SERVICE_TOKENS.NOTE_SERVICE);
+    this.searchService = container.resolve<ISearchService>(SERVICE_TOKENS.SEARCH_SERVICE);
+    this.tagService = container.resolve<ITagService>(SERVICE_TOKENS.TAG_SERVICE);
+    this.analyticsService = container.resolve<IAnalyticsService>(SERVICE_TOKENS.ANALYTICS_SERVICE);
+    this.bearApiService = container.resolve<IBearApiService>(SERVICE_TOKENS.BEAR_API_SERVICE);
+    this.validationService = container.resolve<IValidationService>(
+      SERVICE_TOKENS.VALIDATION_SERVICE
+    );
+    this.healthService = container.resolve<IHealthService>(SERVICE_TOKENS.HEALTH_SERVICE);
+  }
+
+  /**
+   * An MCP server for one session. Sessions share this instance's services and handlers.
+   */
+  private createServer(): Server {
+    const server = new Server({
+      name: 'bear-mcp-server',
+      version: '1.0.0',
+    });
+    this.setupHandlers(server);
+    return server;
+  }
+
+  private setupHandlers(server: Server): void {
+    // List available tools
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: this.getAvailableTools(),
+      };
+    });
+
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async request => {
+      const { name, arguments: args } = request.params;
+
+      let format: OutputFormat = 'text';
+      let output: ToolOutput;
+      try {
+        format = parseOutputFormat(args?.format);
+        output = await this.callTool(name, args);
+      } catch (error) {
+        output = toolError('Error', error);
+      }
+      return formatToolOutput(output, format);
+    });
+
+    // Prompts for common workflows, filled in with the notes they cover
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: PROMPTS };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async request => {
+      const { name, arguments: args } = request.params;
+      return await this.getPrompt(name, args);
+    });
+
+    // Notes, tags and attachments as bear:// resources
+    server.setRequestHandler(ListResourcesRequestSchema, async request => {
+      return await this.listResources(request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      return { contents: [await this.readResource(request.params.uri)] };
+    });
+  }
+
+  private async callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolOutput> {
+    switch (name) {
+      case 'get_database_stats':
+        return await this.getDatabaseStats();
+
+      case 'get_database_schema':
+        return await this.getDatabaseSchema();
+
+      case 'check_bear_status':
+        return await this.checkBearStatus();
+
+      case 'check_server_health':
+        return await this.checkServerHealth();
+
+      case 'verify_database_access':
+        return await this.verifyDatabaseAccess();
+
+      case 'create_backup':
+        return await this.createBackup();
+
+      case 'get_recent_notes':
+        return await this.getRecentNotes(
+          this.validationService.parseToolArguments('get_recent_notes', args)
+        );
+
+      case 'search_notes':
+        return await this.searchNotes(
+          this.validationService.parseToolArguments('search_notes', args)
+        );
+
+      case 'get_note_by_id':
+        return await this.getNoteById(
+          this.validationService.parseToolArguments('get_note_by_id', args)
+        );
+
+      case 'get_note_by_title':
+        return await this.getNoteByTitle(
+          this.validationService.parseToolArguments('get_note_by_title', args)
+        );
+
+      case 'get_all_tags':
+        return await this.getAllTags();
+
+      case 'get_notes_by_tag':
+        return await this.getNotesByTag(
+          this.validationService.parseToolArguments('get_notes_by_tag', args)
+        );
+
+      case 'get_notes_advanced':
+        return await this.getNotesAdvanced(
+          this.validationService.parseToolArguments('get_notes_advanced', args)
+        );
+
+      case 'get_notes_with_criteria':
+        return await this.getNotesWithCriteria(
+          this.validationService.parseToolArguments('get_notes_with_criteria', args)
+        );
+
+      case 'get_note_analytics':
+        return await this.getNoteAnalytics();
+
+      case 'get_related_notes':
+        return await this.getRelatedNotes(
+          this.validationService.parseToolArguments('get_related_notes', args)
+        );
+
+      case 'search_notes_fulltext':
+        return await this.searchNotesFullText(
+          this.validationService.parseToolArguments('search_notes_fulltext', args)
+        );
+
+      case 'get_search_suggestions':
+        return await this.getSearchSuggestions(
+          this.validationService.parseToolArguments('get_search_suggestions', args)
+        );
+
+      case 'find_similar_notes':
+        return await this.findSimilarNotes(
+          this.validationService.parseToolArguments('find_similar_notes', args)
+        );
+
+      case 'semantic_search':
+        return await this.semanticSearch(
+          this.validationService.parseToolArguments('semantic_search', args)
+        );
+
+      case 'search_notes_regex':
+        return await this.searchNotesRegex(
+          this.validationService.parseToolArguments('search_notes_regex', args)
+        );
+
+      case 'get_tag_hierarchy':
+        return await this.getTagHierarchy(
+          this.validationService.parseToolArguments('get_tag_hierarchy', args)
+        );
+
+      case 'analyze_tag_relationships':
+        return await this.analyzeTagRelationships(
+          this.validationService.parseToolArguments('analyze_tag_relationships', args)
+        );
+
+      case 'get_tag_usage_trends':
+        return await this.getTagUsageTrends(
+          this.validationService.parseToolArguments('get_tag_usage_trends', args)
+        );
+
+      case 'get_file_attachments':
+        return await this.getFileAttachments(
+          this.validationService.parseToolArguments('get_file_attachments', args)
+        );
+
+      case 'analyze_note_metadata':
+        return await this.analyzeNoteMetadata(
+          this.validationService.parseToolArguments('analyze_note_metadata', args)
+        );
+
+      case 'get_notes_with_metadata':
+        return await this.getNotesWithMetadata(
+          this.validationService.parseToolArguments('get_notes_with_metadata', args)
+        );
+
+      case 'create_note':
+        return await this.createNote(
+          this.validationService.parseToolArguments('create_note', args)
+        );
+
+      case 'update_note':
+        return await this.updateNote(
+          this.validationService.parseToolArguments('update_note', args)
+        );
+      case 'edit_note':
+        return await this.editNote(this.validationService.parseToolArguments('edit_note', args));
+
+      case 'duplicate_note':
+        return await this.duplicateNote(
+          this.validationService.parseToolArguments('duplicate_note', args)
+        );
+
+      case 'archive_note':
+        return await this.archiveNote(
+          this.validationService.parseToolArguments('archive_note', args)
+        );
+
+      case 'trash_note':
+        return await this.trashNote(this.validationService.parseToolArguments('trash_note', args));
+
+      case 'get_trashed_notes':
+        return await this.getTrashedNotes(
+          this.validationService.parseToolArguments('get_trashed_notes', args)
+        );
+
+      case 'trigger_hashtag_parsing':
+        return await this.triggerHashtagParsing(
+          this.validationService.parseToolArguments('trigger_hashtag_parsing', args)
+        );
+
+      case 'batch_trigger_hashtag_parsing':
+        return await this.batchTriggerHashtagParsing(
+          this.validationService.parseToolArguments('batch_trigger_hashtag_parsing', args)
+        );
+
+      case 'rename_tag':
+        return await this.renameTag(this.validationService.parseToolArguments('rename_tag', args));
+
+      case 'merge_tags':
+        return await this.mergeTags(this.validationService.parseToolArguments('merge_tags', args));
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<GetPromptResult> {
+    switch (name) {
+      case 'summarize_tag':
+        return await this.summarizeTagPrompt(args);
+
+      case 'meeting_action_items':
+        return await this.meetingActionItemsPrompt(args);
+
+      case 'weekly_review':
+        return await this.weeklyReviewPrompt(args);
+
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  }
+
+  private async summarizeTagPrompt(args: Record<string, string>): Promise<GetPromptResult> {
+    const tag = requiredArgument(args, 'tag').replace(/^#/, '');
+    const days = parseDays(args.days);
+    const since = new Date(Date.now() - days * 86400000);
+
+    const page = await this.tagService.getNotesByTag(tag, { limit: PROMPT_NOTE_LIMIT });
+    const notes = page.items.filter(
+      note => note.ZENCRYPTED !== 1 && CoreDataUtils.toDate(note.ZMODIFICATIONDATE) >= since
+    );
+
+    const request = `Summarize my Bear notes tagged #${tag} that changed in the last ${days} days. Group related points, call out decisions and open questions, and say which note each point comes from.`;
+    return this.promptResult(
+      `Notes tagged #${tag} from the last ${days} days`,
+      notes.length > 0
+        ? `${request}\n\n${renderNotes(notes)}${this.promptLimitNote(page.hasMore && notes.length === page.items.length)}`
+        : `${request}\n\nNo notes tagged #${tag} changed in the last ${days} days.`
+    );
+  }
+
+  private async meetingActionItemsPrompt(args: Record<string, string>): Promise<GetPromptResult> {
+    const reference = requiredArgument(args, 'note');
+    const note = /^\d+$/.test(reference)
+      ? await this.noteService.getNoteById(Number(reference))
+      : ((await this.noteService.getNoteByUniqueId(reference)) ??
+        (await this.noteService.getNoteByTitle(reference)));
+
+    if (!note) {
+      throw new NoteNotFoundError(reference);
+    }
+    if (note.ZENCRYPTED === 1) {
+      throw new BusinessError(`Note ${reference} is encrypted`, 'NOTE_ENCRYPTED');
+    }
+
+    return this.promptResult(
+      `Action items from "${note.ZTITLE || 'Untitled'}"`,
+      `Turn this meeting note into action items. List each one as a Bear task ("- [ ] …") with its owner and due date when the note gives them, then list the decisions made and the open questions.\n\n${renderNotes([note])}`
+    );
+  }
+
+  private async weeklyReviewPrompt(args: Record<string, string>): Promise<GetPromptResult> {
+    const days = parseDays(args.days);
+    const since = new Date(Date.now() - days * 86400000);
+
+    const page = await this.searchService.getNotesAdvanced({
+      modifiedAfter: since,
+      limit: PROMPT_NOTE_LIMIT,
+    });
+
+    const request = `Help me review the last ${days} days in Bear. Summarize what I worked on, list the tasks still open ("- [ ]") in these notes, and suggest what to follow up on next.`;
+    return this.promptResult(
+      `Review of the last ${days} days`,
+      page.items.length > 0
+        ? `${request}\n\n${renderNotes(page.items)}${this.promptLimitNote(page.hasMore)}`
+        : `${request}\n\nNo notes changed in the last ${days} days.`
+    );
+  }
+
+  private promptResult(description: string, text: string): GetPromptResult {
+    return { description, messages: [{ role: 'user', content: { type: 'text', text } }] };
+  }
+
+  private promptLimitNote(limited: boolean): string {
+    return limited
+      ? `\n\n(Only the ${PROMPT_NOTE_LIMIT} most recently modified notes are included.)`
+      : '';
+  }
+
+  /**
+   * Tags on the first page, then notes a page at a time, most recently modified first.
+   * Attachments are reached through their resource template.
+   */
+  private async listResources(
+    cursor?: string
+  ): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const tags: Resource[] = cursor
+      ? []
+      : (await this.tagService.getTags())
+          .filter(tag => tag.noteCount > 0)
+          .map(tag => ({
+            uri: tagUri(tag.ZTITLE),
+            name: `#${tag.ZTITLE}`,
+            description: `${tag.noteCount} note${tag.noteCount === 1 ? '' : 's'}`,
+            mimeType: 'text/markdown',
+          }));
+
+    const page = await this.noteService.getNotesPage({ limit: RESOURCE_PAGE_SIZE, cursor });
+    const notes = page.items
+      .filter(note => note.ZUNIQUEIDENTIFIER && note.ZENCRYPTED !== 1)
+      .map(note => ({
+        uri: noteUri(note.ZUNIQUEIDENTIFIER as string),
+        name: note.ZTITLE || 'Untitled',
+        description: note.tags.length > 0 ? note.tags.map(tag => `#${tag}`).join(' ') : undefined,
+        mimeType: 'text/markdown',
+      }));
+    const resources = [...tags, ...notes];
+    return page.nextCursor ? { resources, nextCursor: page.nextCursor } : { resources };
+  }
+
+  private async readResource(
+    uri: string
+  ): Promise<
+    | { uri: string; mimeType: string; text: string }
+    | { uri: string; mimeType: string; blob: string }
+  > {
+    const resource = parseResourceUri(uri);
+
+    if (resource.kind === 'note') {
+      const note = await this.noteService.getNoteByUniqueId(resource.uniqueId);
+      if (!note) {
+        throw new NoteNotFoundError(resource.uniqueId);
+      }
+      if (note.ZENCRYPTED === 1) {
+        throw new BusinessError(`Note ${resource.uniqueId} is encrypted`, 'NOTE_ENCRYPTED');
+      }
+      return { uri, mimeType: 'text/markdown', text: note.ZTEXT || '' };
+    }
+
+    if (resource.kind === 'tag') {
+      const tags = await this.tagService.getTags();
+      if (!tags.some(tag => tag.ZTITLE === resource.path)) {
+        throw new TagNotFoundError(resource.path);
+      }
+
+      const { items: notes } = await this.tagService.getNotesByTag(resource.path);
+      const links = notes
+        .filter(note => note.ZUNIQUEIDENTIFIER)
+        .map(
+          note => `- [${note.ZTITLE || 'Untitled'}](${noteUri(note.ZUNIQUEIDENTIFIER as string)})`
+        );
+      return {
+        uri,
+        mimeType: 'text/markdown',
+        text: `# #${resource.path}\n\n${links.length > 0 ? links.join('\n') : 'No notes.'}\n`,
+      };
+    }
+
+    const file = await this.analyticsService.getAttachmentFile(resource.id);
+    return file.contentType.startsWith('text/')
+      ? { uri, mimeType: file.contentType, text: file.data.toString('utf8') }
+      : { uri, mimeType: file.contentType, blob: file.data.toString('base64') };
+  }
+
+  /**
+   * Every tool takes `format` on top of its own arguments
+   */
+  private getAvailableTools(): Tool[] {
+    return this.toolDefinitions().map(tool => ({
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...tool.inputSchema.properties, format: FORMAT_PROPERTY },
+      },
+    }));
+  }
+
+  private toolDefinitions(): Tool[] {
+    return Object.entries(TOOLS).map(([name, tool]) => ({
+      name,
+      description: tool.description,
+      inputSchema: toInputSchema(tool.arguments),
+    }));
+  }
+
+  private async getDatabaseStats() {
+    try {
+      const stats = await this.databaseService.getDatabaseStats();
+      const integrity = await this.databaseService.checkIntegrity();
+
+      return toolResult(
+        `Bear Database Statistics:
+📊 Notes: ${stats.totalNotes} total (${stats.activeNotes} active, ${stats.trashedNotes} trashed, ${stats.archivedNotes} archived)
+🔒 Encrypted Notes: ${stats.encryptedNotes}
+🏷️  Tags: ${stats.totalTags}
+📎 Attachments: ${stats.totalAttachments}
+💾 Database Size: ${(stats.databaseSize / 1024 / 1024).toFixed(2)} MB
+📅 Last Modified: ${stats.lastModified.toLocaleString()}
+✅ Database Integrity: ${integrity ? 'OK' : 'FAILED'}`,
+        { ...stats, integrityOk: integrity }
+      );
+    } catch (error) {
+      return toolError('❌ Error getting database stats', error);
+    }
+  }
+
+  private async getDatabaseSchema() {
+    try {
+      const schema = await this.databaseService.getSchema();
+
+      const schemaText = schema
+        .map(
+          (table: { name: string; sql: string }) =>
+            `Table: ${table.name}\n${table.sql || 'No schema available'}\n`
+        )
+        .join('\n');
+
+      return toolResult(`Bear Database Schema:\n\n${schemaText}`, { tables: schema });
+    } catch (error) {
+      return toolError('❌ Error getting schema', error);
+    }
+  }
+
+  private async checkBearStatus() {
+    try {
+      const isRunning = await this.bearApiService.isBearRunning();
+
+      return toolResult(
+        `Bear App Status: ${isRunning ? '🔴 RUNNING' : '🟢 NOT RUNNING'}
+${isRunning ? '✅ Write operations use sync-safe Bear API' : '✅ All database operations available'}`,
+        { bearRunning: isRunning }
+      );
+    } catch (error) {
+      return toolError('❌ Error checking Bear status', error);
+    }
+  }
+
+  private async checkServerHealth() {
+    try {
+      const health = await this.healthService.checkHealth();
+      const icons = { healthy: '🟢', degraded: '🟡', unhealthy: '🔴' };
+      const services = Object.entries(health.services).map(
+        ([name, service]) =>
+          `${icons[service.status]} ${name}: ${service.status} (${service.responseTime ?? 0} ms)${service.error ? ` - ${service.error}` : ''}`
+      );
+
+      return toolResult(
+        `Server Health: ${icons[health.status]} ${health.status.toUpperCase()}
+⏱️  Uptime: ${Math.round(health.uptime / 1000)}s
+${services.join('\n')}
+💾 Memory: ${health.system.memory.percentage.toFixed(1)}% used`,
+        health
+      );
+    } catch (error) {
+      return toolError('❌ Error checking server health', error);
+    }
+  }
+
+  private async verifyDatabaseAccess() {
+    try {
+      await this.databaseService.verifyDatabaseAccess();
+
+      return toolResult('✅ Database access verified successfully', { accessible: true });
+    } catch (error) {
+      return toolError('❌ Database access failed', error);
+    }
+  }
+
+  private async createBackup() {
+    try {
+      const backupPath = await this.databaseService.createBackup();
+
+      return toolResult(`✅ Backup created successfully: ${backupPath}`, { backupPath });
+    } catch (error) {
+      return toolError('❌ Backup failed', error);
+    }
+  }
+
+  /**
+   * Footer for a page of a text listing; empty on the last page
+   */
+  private pageFooter(page: Page<unknown>): string {
+    if (!page.hasMore) {
+      return '';
+    }
+    const shown = page.total === undefined ? '' : `Showing ${page.items.length} of ${page.total}. `;
+    return `\n\n➡️ ${shown}More results: call again with cursor "${page.nextCursor}"`;
+  }
+
+  private async getRecentNotes(args: GetRecentNotesArgs) {
+    try {
+      const limit = args?.limit || 10;
+      const page = await this.noteService.getRecentNotes(limit, args?.cursor);
+      const notes = page.items;
+
+      const data = { notes: notes.map(noteListItem), ...pageInfo(page) };
+
+      if (notes.length === 0) {
+        return toolResult('No notes found.', data);
+      }
+
+      const notesList = notes
+        .map(note => {
+          const preview = note.ZTEXT ? `${note.ZTEXT.substring(0, 100)}...` : '';
+          const tags = note.tags.length > 0 ? ` [${note.tags.join(', ')}]` : '';
+          return `📝 **${note.ZTITLE || 'Untitled'}**${tags}\n   ${preview}`;
+        })
+        .join('\n\n');
+
+      return toolResult(
+        `Recent Notes (${notes.length}):\n\n${notesList}${this.pageFooter(page)}`,
+        data
+      );
+    } catch (error) {
+      return toolError('❌ Error getting recent notes', error);
+    }
+  }
+
+  private async searchNotes(args: SearchNotesArgs) {
+    try {
+      const query = args?.query;
+      const limit = args?.limit || 20;
+
+      if (!query) {
+        throw new Error('Search query is required');
+      }
+
+      const page = await this.searchService.searchNotes(query, { limit, cursor: args?.cursor });
+      const notes = page.items;
+
+      const data = { query, notes: notes.map(noteListItem), ...pageInfo(page) };
+
+      if (notes.length === 0) {
+        return toolResult(`No notes found matching "${query}".`, data);
+      }
+
+      const notesList = notes
+        .map(note => {
+          const preview = note.ZTEXT ? `${note.ZTEXT.substring(0, 100)}...` : '';
+          const tags = note.tags.length > 0 ? ` [${note.tags.join(', ')}]` : '';
+          return `📝 **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}\n   ${preview}`;
+        })
+        .join('\n\n');
+
+      return toolResult(
+        `Search Results for "${query}" (${notes.length}):\n\n${notesList}${this.pageFooter(page)}`,
+        data
+      );
+    } catch (error) {
+      return toolError('❌ Error searching notes', error);
+    }
+  }
+
+  private async getNoteById(args: GetNoteByIdArgs) {
+    try {
+      const id = args?.id;
+
+      const note = await this.noteService.getNoteById(id);
+
+      if (!note) {
+        return toolResult(`No note found with ID ${id}.`, { note: null });
+      }
+
+      const tags = note.tags.length > 0 ? `\n🏷️ Tags: ${note.tags.join(', ')}` : '';
+      const content = note.ZTEXT || 'No content';
+
+      return toolResult(
+        `📝 **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}\n\n${content}`,
+        { note: { ...noteSummary(note), content: note.ZTEXT || '' } }
+      );
+    } catch (error) {
+      return toolError('❌ Error getting note', error);
+    }
+  }
+
+  private async getNoteByTitle(args: GetNoteByTitleArgs) {
+    try {
+      const title = args?.title;
+
+      if (!title) {
+        throw new Error('Note title is required');
+      }
+
+      const note = await this.noteService.getNoteByTitle(title);
+
+      if (!note) {
+        return toolResult(`No note found with title "${title}".`, { note: null });
+      }
+
+      const tags = note.tags.length > 0 ? `\n🏷️ Tags: ${note.tags.join(', ')}` : '';
+      const content = note.ZTEXT || 'No content';
+
+      return toolResult(
+        `📝 **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}\n\n${content}`,
+        { note: { ...noteSummary(note), content: note.ZTEXT || '' } }
+      );
+    } catch (error) {
+      return toolError('❌ Error getting note', error);
+    }
+  }
+
+  private async getAllTags() {
+    try {
+      const tags = await this.tagService.getTags();
+
+      const data = {
+        tags: tags.map(tag => ({ id: tag.Z_PK, name: tag.ZTITLE, noteCount: tag.noteCount })),
+      };
+
+      if (tags.length === 0) {
+        return toolResult('No tags found.', data);
+      }
+
+      const tagsList = tags.map(tag => `🏷️ **${tag.ZTITLE}** (${tag.noteCount} notes)`).join('\n');
+
+      return toolResult(`All Tags (${tags.length}):\n\n${tagsList}`, data);
+    } catch (error) {
+      return toolError('❌ Error getting tags', error);
+    }
+  }
+
+  private async getNotesByTag(args: GetNotesByTagArgs) {
+    try {
+      const tag = args?.tag;
+
+      if (!tag) {
+        throw new Error('Tag name is required');
+      }
+
+      const page = await this.tagService.getNotesByTag(tag, {
+        limit: args?.limit || 50,
+        cursor: args?.cursor,
+      });
+      const notes = page.items;
+
+      const data = { tag, notes: notes.map(noteListItem), ...pageInfo(page) };
+
+      if (notes.length === 0) {
+        return toolResult(`No notes found with tag "${tag}".`, data);
+      }
+
+      const notesList = notes
+        .map(note => {
+          const preview = note.ZTEXT ? `${note.ZTEXT.substring(0, 100)}...` : '';
+          const otherTags = note.tags.filter(t => t !== tag);
+          const tagInfo = otherTags.length > 0 ? ` [+${otherTags.join(', ')}]` : '';
+          return `📝 **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tagInfo}\n   ${preview}`;
+        })
+        .join('\n\n');
+
+      return toolResult(
+        `Notes with tag "${tag}" (${notes.length}):\n\n${notesList}${this.pageFooter(page)}`,
+        data
+      );
+    } catch (error) {
+      return toolError('❌ Error getting notes by tag', error);
+    }
+  }
+
+  private async getNotesAdvanced(args: GetNotesAdvancedArgs) {
+    try {
+      const options = {
+        query: args?.query,
+        tags: args?.tags,
+        excludeTags: args?.excludeTags,
+        sortBy: args?.sortBy || 'modified',
+        sortOrder: args?.sortOrder || 'desc',
+        limit: args?.limit || 20,
+        cursor: args?.cursor,
+      };
+
+      const page = await this.searchService.getNotesAdvanced(options);
+      const notes = page.items;
+
+      const data = {
+        notes: notes.map(note => ({
+          ...noteListItem(note),
+          contentLength: note.contentLength ?? 0,
+        })),
+        ...pageInfo(page),
+      };
+
+      if (notes.length === 0) {
+        return toolResult('No notes found matching the specified criteria.', data);
+      }
+
+      const notesList = notes
+        .map(note => {
+          const preview = note.preview || (note.ZTEXT ? `${note.ZTEXT.substring(0, 100)}...` : '');
+          const tags = note.tags.length > 0 ? ` [${note.tags.join(', ')}]` : '';
+          const length = note.contentLength ? ` (${note.contentLength} chars)` : '';
+          return `📝 **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}${length}\n   ${preview}`;
+        })
+        .join('\n\n');
+
+      return toolResult(
+        `Advanced Search Results (${notes.length}):\n\n${notesList}${this.pageFooter(page)}`,
+        data
+      );
+    } catch (error) {
+      return toolError('❌ Error in advanced search', error);
+    }
+  }
+
+  private async getNotesWithCriteria(args: GetNotesWithCriteriaArgs) {
+    try {
+      const criteria = {
+        titleContains: args?.titleContains,
+        contentContains: args?.contentContains,
+        hasAllTags: args?.hasAllTags,
+        hasAnyTags: args?.hasAnyTags,
+        isPinned: args?.isPinned,
+        isArchived: args?.isArchived,
+        minLength: args?.minLength,
+        maxLength: args?.maxLength,
+        limit: args?.limit || 50,
+        cursor: args?.cursor,
+      };
+
+      const page = await this.searchService.getNotesWithCriteria(criteria);
+      const notes = page.items;
+
+      const data = {
+        notes: notes.map(note => ({
+          ...noteListItem(note),
+          contentLength: note.contentLength ?? 0,
+        })),
+        ...pageInfo(page),
+      };
+
+      if (notes.length === 0) {
+        return toolResult('No notes found matching the specified criteria.', data);
+      }
+
+      const notesList = notes
+        .map(note => {
+          const preview = note.ZTEXT ? `${note.ZTEXT.substring(0, 100)}...` : '';
+          const tags = note.tags.length > 0 ? ` [${note.tags.join(', ')}]` : '';
+          const length = note.contentLength ? ` (${note.contentLength} chars)` : '';
+          const status = [];
+          if (note.ZPINNED) {
+            status.push('📌');
+          }
+          if (note.ZARCHIVED) {
+            status.push('📦');
+          }
+          if (note.ZENCRYPTED) {
+            status.push('🔒');
+          }
+          const statusStr = status.length > 0 ? ` ${status.join('')}` : '';
+
+          return `📝 **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}${length}${statusStr}\n   ${preview}`;
+        })
+        .join('\n\n');
+
+      return toolResult(
+        `Criteria Search Results (${notes.length}):\n\n${notesList}${this.pageFooter(page)}`,
+        data
+      );
+    } catch (error) {
+      return toolError('❌ Error in criteria search', error);
+    }
+  }
+
+  private async getNoteAnalytics() {
+    try {
+      const analytics = await this.analyticsService.getNoteAnalytics();
+
+      const monthlyData = analytics.notesPerMonth
+        .slice(0, 6)
+        .map(stat => `   ${stat.month}: ${stat.count} notes`)
+        .join('\n');
+
+      const topTagsData = analytics.topTags
+        .slice(0, 8)
+        .map(tag => `   ${tag.tag}: ${tag.count} notes`)
+        .join('\n');
+
+      return toolResult(
+        `📊 **Bear Notes Analytics**
+
+**📈 Overview:**
+• Total Notes: ${analytics.totalNotes}
+• Average Length: ${analytics.averageLength} characters
+• Longest Note: "${analytics.longestNote.title}" (${analytics.longestNote.length} chars)
+• Shortest Note: "${analytics.shortestNote.title}" (${analytics.shortestNote.length} chars)
+
+**📅 Timeline:**
+• Most Recent: "${analytics.mostRecentNote.title}" (${analytics.mostRecentNote.date.toLocaleDateString()})
+• Oldest Note: "${analytics.oldestNote.title}" (${analytics.oldestNote.date.toLocaleDateString()})
+
+**📊 Content Analysis:**
+• Notes with Images: ${analytics.contentStats.hasImages}
+• Notes with Files: ${analytics.contentStats.hasFiles}  
+• Notes with Code: ${analytics.contentStats.hasSourceCode}
+• Notes with TODOs: ${analytics.contentStats.hasTodos}
+
+**📈 Recent Activity (Notes per Month):**
+${monthlyData}
+
+**🏷️ Top Tags:**
+${topTagsData}`,
+        analytics
+      );
+    } catch (error) {
+      return toolError('❌ Error getting analytics', error);
+    }
+  }
+
+  private async getRelatedNotes(args: GetRelatedNotesArgs) {
+    try {
+      const noteId = args?.noteId;
+      const limit = args?.limit || 5;
+
+      const related = await this.searchService.getRelatedNotes(noteId, limit);
+
+      const data = {
+        noteId,
+        byTags: related.byTags.map(noteSummary),
+        byContent: related.byContent.map(note => ({
+          ...noteSummary(note),
+          similarityScore: note.similarityScore ?? null,
+        })),
+      };
+
+      if (related.byTags.length === 0 && related.byContent.length === 0) {
+        return toolResult(`No related notes found for note ID ${noteId}.`, data);
+      }
+
+      let result = `🔗 **Related Notes for ID ${noteId}**\n\n`;
+
+      if (related.byTags.length > 0) {
+        result += `**📌 Related by Tags (${related.byTags.length}):**\n`;
+        related.byTags.forEach(note => {
+          const tags = note.tags.length > 0 ? ` [${note.tags.join(', ')}]` : '';
+          result += `• **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}\n`;
+        });
+        result += '\n';
+      }
+
+      if (related.byContent.length > 0) {
+        result += `**📄 Related by Content (${related.byContent.length}):**\n`;
+        related.byContent.forEach(note => {
+          const tags = note.tags.length > 0 ? ` [${note.tags.join(', ')}]` : '';
+          const similarity =
+            note.similarityScore !== undefined ? ` - similarity ${note.similarityScore}` : '';
+          result += `• **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}${similarity}\n`;
+        });
+      }
+
+      return toolResult(result, data);
+    } catch (error) {
+      return toolError('❌ Error finding related notes', error);
+    }
+  }
+
+  private async searchNotesFullText(args: SearchNotesFullTextArgs) {
+    try {
+      const {
+        query,
+        limit = 20,
+        includeSnippets = true,
+        searchFields = ['both'],
+        fuzzyMatch = false,
+        caseSensitive = false,
+      } = args;
+
+      const page = await this.searchService.searchNotesFullText(query, {
+        limit,
+        cursor: args.cursor,
+        includeSnippets,
+        searchFields,
+        fuzzyMatch,
+        caseSensitive,
+      });
+
+      return toolResult(undefined, {
+        query,
+        totalFound: page.total ?? page.items.length,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        results: page.items.map(result => ({
+          id: result.Z_PK,
+          title: result.ZTITLE,
+          content:
+            result.ZTEXT?.substring(0, 500) +
+            (result.ZTEXT && result.ZTEXT.length > 500 ? '...' : ''),
+          tags: result.tags,
+          createdAt: result.ZCREATIONDATE,
+          modifiedAt: result.ZMODIFICATIONDATE,
+          relevanceScore: result.relevanceScore,
+          matchedTerms: result.matchedTerms,
+          snippets: result.snippets,
+          titleMatches: result.titleMatches,
+          contentMatches: result.contentMatches,
+        })),
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async getSearchSuggestions(args: GetSearchSuggestionsArgs) {
+    try {
+      const { partialQuery, limit = 10 } = args;
+      const suggestions = await this.searchService.getSearchSuggestions(partialQuery, limit);
+
+      return toolResult(undefined, {
+        partialQuery,
+        suggestions,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async searchNotesRegex(args: SearchNotesRegexArgs) {
+    try {
+      const {
+        pattern,
+        flags,
+        searchIn = 'both',
+        limit = 20,
+        cursor,
+        includeContext = true,
+        contextLines,
+        includeArchived = false,
+      } = args;
+
+      if (!pattern) {
+        throw new Error('pattern is required');
+      }
+
+      const result = await this.searchService.searchNotesRegex(pattern, {
+        flags,
+        searchIn,
+        limit: Math.min(Math.max(limit, 1), 50),
+        cursor,
+        includeContext,
+        contextLines: contextLines === undefined ? undefined : Math.min(contextLines, 10),
+        includeArchived,
+      });
+
+      return toolResult(undefined, {
+        ...result,
+        totalFound: result.results.length,
+        totalMatches: result.results.reduce(
+          (sum, note) => sum + note.titleMatches.length + note.contentMatches.length,
+          0
+        ),
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async findSimilarNotes(args: FindSimilarNotesArgs) {
+    try {
+      const { referenceText, limit = 10, minSimilarity = 0.1, excludeNoteId } = args;
+      const results = await this.searchService.findSimilarNotes(referenceText, {
+        limit,
+        minSimilarity,
+        excludeNoteId,
+      });
+
+      return toolResult(undefined, {
+        referenceText: referenceText.substring(0, 200) + (referenceText.length > 200 ? '...' : ''),
+        totalFound: results.length,
+        similarNotes: results.map(result => ({
+          id: result.Z_PK,
+          title: result.ZTITLE,
+          content:
+            result.ZTEXT?.substring(0, 300) +
+            (result.ZTEXT && result.ZTEXT.length > 300 ? '...' : ''),
+          tags: result.tags,
+          createdAt: result.ZCREATIONDATE,
+          modifiedAt: result.ZMODIFICATIONDATE,
+          similarityScore: result.similarityScore,
+          commonKeywords: result.commonKeywords,
+        })),
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async semanticSearch(args: SemanticSearchArgs) {
+    try {
+      const { query, limit = 10, minScore = 0.05, includeArchived = false } = args;
+
+      if (!query) {
+        throw new Error('query is required');
+      }
+
+      const results = await this.searchService.semanticSearch(query, {
+        limit: Math.min(Math.max(limit, 1), 50),
+        minScore,
+        includeArchived,
+      });
+
+      return toolResult(undefined, {
+        query,
+        totalFound: results.length,
+        results: results.map(result => ({
+          id: result.Z_PK,
+          title: result.ZTITLE,
+          content:
+            result.ZTEXT?.substring(0, 300) +
+            (result.ZTEXT && result.ZTEXT.length > 300 ? '...' : ''),
+          tags: result.tags,
+          createdAt: result.ZCREATIONDATE,
+          modifiedAt: result.ZMODIFICATIONDATE,
+          score: result.similarityScore,
+          matchedTerms: result.matchedTerms,
+        })),
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async getTagHierarchy(args: GetTagHierarchyArgs) {
+    try {
+      const hierarchy = await this.tagService.getTagHierarchy({
+        root: args.root,
+        maxDepth: args.maxDepth,
+      });
+
+      return toolResult(undefined, hierarchy);
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async analyzeTagRelationships(args: AnalyzeTagRelationshipsArgs) {
+    try {
+      const analysis = await this.tagService.analyzeTagRelationships({
+        minSharedNotes: args.minSharedNotes,
+        limit: args.limit,
+        matrixSize: args.matrixSize === undefined ? undefined : Math.min(args.matrixSize, 50),
+        clusterThreshold: args.clusterThreshold,
+      });
+
+      return toolResult(undefined, analysis);
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async getTagUsageTrends(args: GetTagUsageTrendsArgs) {
+    try {
+      const { tagName, months = 6, endDate, dormantMonths } = args;
+
+      const end = endDate ? new Date(endDate) : undefined;
+
+      const trends = await this.tagService.getTagUsageTrends({
+        tagName,
+        months: Math.min(Math.max(Math.floor(months), 1), 24),
+        endDate: end,
+        dormantMonths,
+      });
+
+      return toolResult(undefined, trends);
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async getFileAttachments(args: GetFileAttachmentsArgs) {
+    try {
+      const { noteId, fileType, includeMetadata = false, limit, cursor } = args;
+      const attachments = await this.analyticsService.getFileAttachments({
+        noteId,
+        fileType,
+        includeMetadata,
+        limit,
+        cursor,
+      });
+
+      return toolResult(undefined, attachments);
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async analyzeNoteMetadata(args: AnalyzeNoteMetadataArgs) {
+    try {
+      const {
+        includeContentAnalysis = false,
+        includeLinkAnalysis = false,
+        includeStructureAnalysis = false,
+      } = args;
+
+      const analysis = await this.analyticsService.analyzeNoteMetadata({
+        includeContentAnalysis,
+        includeLinkAnalysis,
+        includeStructureAnalysis,
+      });
+
+      return toolResult(undefined, analysis);
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async getNotesWithMetadata(args: GetNotesWithMetadataArgs) {
+    try {
+      const criteria = {
+        hasAttachments: args.hasAttachments,
+        hasLinks: args.hasLinks,
+        hasImages: args.hasImages,
+        hasTodos: args.hasTodos,
+        hasCodeBlocks: args.hasCodeBlocks,
+        hasTables: args.hasTables,
+        minWordCount: args.minWordCount,
+        maxWordCount: args.maxWordCount,
+        limit: args.limit || 20,
+        cursor: args.cursor,
+      };
+
+      const page = await this.analyticsService.getNotesWithMetadata(criteria);
+
+      return toolResult(undefined, {
+        totalFound: page.items.length,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        notes: page.items.map(note => ({
+          id: note.Z_PK,
+          title: note.ZTITLE,
+          content:
+            note.ZTEXT?.substring(0, 300) + (note.ZTEXT && note.ZTEXT.length > 300 ? '...' : ''),
+          tags: note.tags,
+          createdAt: note.ZCREATIONDATE,
+          modifiedAt: note.ZMODIFICATIONDATE,
+          wordCount: note.wordCount,
+          attachmentCount: note.attachmentCount,
+          linkCount: note.linkCount,
+          imageCount: note.imageCount,
+          todoCount: note.todoCount,
+          codeBlockCount: note.codeBlockCount,
+          tableCount: note.tableCount,
+          metadata: note.metadata,
+        })),
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  /**
+   * Response for a write run with dryRun: what would be sent to Bear and how the note would change
+   */
+  private dryRunResponse(preview: WritePreview) {
+    return toolResult(undefined, {
+      dryRun: true,
+      message: 'Dry run: nothing was sent to Bear',
+      ...preview,
+    });
+  }
+
+  /**
+   * Response for a write Bear applied differently from what was requested
+   */
+  private verificationFailedResponse(verification: WriteVerification) {
+    return toolFailure(`Verification failed: ${verification.detail}`, {
+      verificationFailed: true,
+      verification,
+    });
+  }
+
+  private async createNote(args: CreateNoteArgs) {
+    try {
+      const { title, content, tags, isArchived = false, isPinned = false, dryRun = false } = args;
+
+      if (!title || title.trim().length === 0) {
+        throw new Error('Title is required and cannot be empty');
+      }
+
+      const result = await this.noteService.createNote({
+        title: title.trim(),
+        content: content || '',
+        tags: tags || [],
+        isArchived,
+        isPinned,
+        dryRun,
+      });
+
+      if (result.preview) {
+        return this.dryRunResponse(result.preview);
+      }
+
+      if (result.verification?.status === 'failed') {
+        return this.verificationFailedResponse(result.verification);
+      }
+
+      return toolResult(undefined, {
+        noteId: result.noteId,
+        uniqueIdentifier: result.uniqueIdentifier,
+        title: title.trim(),
+        archived: isArchived && result.noteId !== null && !result.archiveStateUnchanged,
+        message:
+          result.noteId !== null
+            ? `Note created successfully with ID ${result.noteId}`
+            : 'Note was sent to Bear but has not appeared in the database yet; look it up by title once Bear has synced',
+        tagWarnings: result.tagWarnings,
+        verification: result.verification,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async updateNote(args: UpdateNoteArgs) {
+    try {
+      const {
+        noteId,
+        title,
+        content,
+        tags,
+        isArchived,
+        isPinned,
+        expectedModificationDate,
+        mode,
+        header,
+        dryRun,
+      } = args;
+
+      const options: {
+        title?: string;
+        content?: string;
+        tags?: string[];
+        isArchived?: boolean;
+        isPinned?: boolean;
+        expectedModificationDate?: Date;
+        mode?: NoteEditMode;
+        header?: string;
+        dryRun?: boolean;
+      } = {};
+
+      if (title !== undefined) {
+        options.title = title;
+      }
+      if (content !== undefined) {
+        options.content = content;
+      }
+      if (tags !== undefined) {
+        options.tags = tags;
+      }
+      if (isArchived !== undefined) {
+        options.isArchived = isArchived;
+      }
+      if (isPinned !== undefined) {
+        options.isPinned = isPinned;
+      }
+      if (expectedModificationDate) {
+        options.expectedModificationDate = new Date(expectedModificationDate);
+      }
+      if (mode !== undefined) {
+        options.mode = mode;
+      }
+      if (header !== undefined) {
+        options.header = header;
+      }
+      if (dryRun) {
+        options.dryRun = true;
+      }
+
+      const result = await this.noteService.updateNote(noteId, options);
+
+      if (result.archiveStateUnchanged) {
+        return toolFailure(`Archive state unchanged: Bear did not archive note ${noteId}`, {
+          archiveStateUnchanged: true,
+        });
+      }
+
+      if (result.conflictDetected) {
+        return toolFailure('Conflict detected: Note was modified by another process', {
+          conflictDetected: true,
+        });
+      }
+
+      if (result.preview) {
+        return this.dryRunResponse(result.preview);
+      }
+
+      if (result.verification?.status === 'failed') {
+        return this.verificationFailedResponse(result.verification);
+      }
+
+      return toolResult(undefined, {
+        noteId,
+        message:
+          result.verification?.status === 'pending'
+            ? `Update for note ${noteId} was sent to Bear but is not confirmed yet`
+            : `Note ${noteId} updated successfully`,
+        tagWarnings: result.tagWarnings,
+        verification: result.verification,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async editNote(args: EditNoteArgs) {
+    try {
+      const { noteId, edits, diff, expectedModificationDate, dryRun = false } = args;
+
+      const result = await this.noteService.editNote(
+        noteId,
+        { edits, diff },
+        expectedModificationDate ? new Date(expectedModificationDate) : undefined,
+        dryRun
+      );
+
+      if (result.conflictDetected) {
+        return toolFailure('Conflict detected: Note was modified by another process', {
+          conflictDetected: true,
+        });
+      }
+
+      if (result.preview) {
+        return this.dryRunResponse(result.preview);
+      }
+
+      if (result.verification?.status === 'failed') {
+        return this.verificationFailedResponse(result.verification);
+      }
+
+      return toolResult(undefined, {
+        noteId,
+        message:
+          result.verification?.status === 'pending'
+            ? `Edit for note ${noteId} was sent to Bear but is not confirmed yet`
+            : `Note ${noteId} edited successfully (${edits ? `${edits.length} edit(s)` : 'diff'} applied)`,
+        verification: result.verification,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async duplicateNote(args: DuplicateNoteArgs) {
+    try {
+      const { noteId, titleSuffix, copyTags = true, dryRun = false } = args;
+
+      const result = await this.noteService.duplicateNote(noteId, {
+        titleSuffix,
+        copyTags,
+        dryRun,
+      });
+
+      if (result.preview) {
+        return this.dryRunResponse(result.preview);
+      }
+
+      if (result.verification?.status === 'failed') {
+        return this.verificationFailedResponse(result.verification);
+      }
+
+      return toolResult(undefined, {
+        originalNoteId: noteId,
+        newNoteId: result.newNoteId,
+        message:
+          result.newNoteId !== null
+            ? `Note ${noteId} duplicated successfully as note ${result.newNoteId}`
+            : `Note ${noteId} duplicate was sent to Bear but has not appeared in the database yet`,
+        verification: result.verification,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async archiveNote(args: ArchiveNoteArgs) {
+    try {
+      const { noteId, archived } = args;
+
+      const result = await this.noteService.archiveNote(noteId, archived);
+
+      if (result.archiveStateUnchanged) {
+        return toolFailure(`Archive state unchanged: Bear did not archive note ${noteId}`, {
+          archiveStateUnchanged: true,
+        });
+      }
+
+      return toolResult(undefined, {
+        noteId,
+        archived,
+        message: `Note ${noteId} ${archived ? 'archived' : 'unarchived'} successfully`,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async trashNote(args: TrashNoteArgs) {
+    try {
+      const { noteId } = args;
+
+      const result = await this.noteService.trashNote(noteId);
+
+      if (result.trashStateUnchanged) {
+        return toolFailure(`Trash state unchanged: Bear did not trash note ${noteId}`, {
+          trashStateUnchanged: true,
+        });
+      }
+
+      return toolResult(undefined, {
+        noteId,
+        trashed: true,
+        message: `Note ${noteId} moved to trash successfully`,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async getTrashedNotes(args: GetTrashedNotesArgs) {
+    try {
+      const limit = args?.limit || 20;
+      const page = await this.noteService.getTrashedNotes(limit, args?.cursor);
+      const notes = page.items;
+
+      const data = {
+        notes: notes.map(note => ({
+          ...noteListItem(note),
+          trashedAt: isoDate(note.ZTRASHEDDATE),
+        })),
+        ...pageInfo(page),
+      };
+
+      if (notes.length === 0) {
+        return toolResult('Trash is empty.', data);
+      }
+
+      const notesList = notes
+        .map(note => {
+          const tags = note.tags.length > 0 ? ` [${note.tags.join(', ')}]` : '';
+          const trashedAt = note.ZTRASHEDDATE
+            ? `\n   🗑️ Trashed: ${CoreDataUtils.toDate(note.ZTRASHEDDATE).toLocaleString()}`
+            : '';
+          return `📝 **${note.ZTITLE || 'Untitled'}** (ID: ${note.Z_PK})${tags}${trashedAt}`;
+        })
+        .join('\n\n');
+
+      return toolResult(
+        `Trashed Notes (${notes.length}):\n\n${notesList}${this.pageFooter(page)}`,
+        data
+      );
+    } catch (error) {
+      return toolError('❌ Error getting trashed notes', error);
+    }
+  }
+
+  private async triggerHashtagParsing(args: TriggerHashtagParsingArgs) {
+    try {
+      const { note_id, note_title } = args;
+
+      if (!note_id && !note_title) {
+        throw new Error('Either note_id or note_title is required');
+      }
+
+      const result = await this.tagService.triggerHashtagParsing(note_id, note_title);
+
+      return toolResult(undefined, {
+        message: result,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async batchTriggerHashtagParsing(args: BatchTriggerHashtagParsingArgs) {
+    try {
+      const { tag_filter, title_pattern, limit = 10, created_after, dryRun = false } = args;
+
+      if (dryRun) {
+        return this.dryRunResponse(
+          await this.tagService.previewBatchTriggerHashtagParsing({
+            tag_filter,
+            title_pattern,
+            limit,
+            created_after,
+          })
+        );
+      }
+
+      const result = await this.tagService.batchTriggerHashtagParsing({
+        tag_filter,
+        title_pattern,
+        limit,
+        created_after,
+      });
+
+      return toolResult(undefined, {
+        message: result,
+      });
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async renameTag(args: RenameTagArgs) {
+    try {
+      const { from, to, dryRun = false } = args;
+
+      if (!from || !to) {
+        throw new Error('Both from and to are required');
+      }
+
+      const result = await this.tagService.renameTag(from, to, { dryRun });
+      return this.tagChangeResponse(result);
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private async mergeTags(args: MergeTagsArgs) {
+    try {
+      const { sources, target, dryRun = false } = args;
+
+      if (sources.length === 0 || !target) {
+        throw new Error('sources (a non-empty array) and target are required');
+      }
+
+      const result = await this.tagService.mergeTags(sources, target, { dryRun });
+      return this.tagChangeResponse(result);
+    } catch (error) {
+      return toolError(undefined, error, 'Unknown error occurred');
+    }
+  }
+
+  private tagChangeResponse(result: TagChangeResult) {
+    const updated = result.notes.filter(note => note.status === 'updated').length;
+    const skipped = result.notes.length - updated;
+    const change = `${result.sources.map(tag => `#${tag}`).join(', ')} to #${result.target}`;
+
+    let message: string;
+    if (result.dryRun) {
+      message = `Dry run: nothing was sent to Bear. Would change ${change} in ${updated} note(s)`;
+    } else if (result.verification?.status === 'pending') {
+      message = `Changing ${change} was sent to Bear but is not confirmed yet`;
+    } else {
+      message = `Changed ${change} in ${updated} note(s)`;
+    }
+    if (skipped > 0) {
+      message += `; ${skipped} note(s) skipped`;
+    }
+
+    return toolResult(undefined, { message, ...result });
+  }
+
+  /**
+   * Start a session on an arbitrary MCP transport
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.createServer().connect(transport);
+  }
+
+  /**
+   * Serve any number of sessions over HTTP
+   */
+  async listen(options: HttpServerOptions): Promise<BearHttpServer> {
+    return startHttpServer(transport => this.connect(transport), options);
+  }
+
+  async run(): Promise<void> {
+    if (config.server.transport === 'http') {
+      const { host, port, token } = config.server.http;
+      const http = await this.listen({ host, port, token: token as string });
+      console.error(`Bear MCP Server listening on ${http.url}${SSE_PATH}`);
+      return;
+    }
+
+    await this.connect(new StdioServerTransport());
+    // Server running on stdio
+  }
+}
@@ -0,0 +1,1027 @@
+/**
+ * Bear MCP Server - Analytics Service
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { CoreDataUtils } from '../utils/database.js';
+import { noteColumn } from '../utils/bear-schema.js';
+import {
+  BearNote,
+  NoteWithTags,
+  SQLParameter,
+  FileMetadata,
+  ContentAnalysis,
+  LinkAnalysis,
+  StructureAnalysis,
+  DatabaseFileRecord,
+  DatabaseFileWithNote,
+} from '../types/bear.js';
+import { BusinessError, FileSystemError, SecurityError } from '../types/errors.js';
+import { IAnalyticsService, IDatabaseService, SERVICE_TOKENS } from './interfaces/index.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import { BY_MODIFIED, Page, queryPage, SortKey, toPage } from '../utils/pagination.js';
+
+const BY_ATTACHMENT_CREATED: SortKey = {
+  name: 'attachment-created',
+  expression: 'COALESCE(page.ZCREATIONDATE, 0)',
+  direction: 'DESC',
+};
+
+/**
+ * File type and MIME type of an attachment, from its extension
+ */
+function attachmentType(filename: string): { fileType: string; contentType: string } {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+
+  if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(extension)) {
+    return { fileType: 'image', contentType: `image/${extension === 'jpg' ? 'jpeg' : extension}` };
+  }
+  if (extension === 'pdf') {
+    return { fileType: 'pdf', contentType: 'application/pdf' };
+  }
+  if (['doc', 'docx'].includes(extension)) {
+    return { fileType: 'document', contentType: 'application/msword' };
+  }
+  if (['txt', 'md'].includes(extension)) {
+    return { fileType: 'document', contentType: 'text/plain' };
+  }
+  if (['mp4', 'mov', 'avi'].includes(extension)) {
+    return { fileType: 'video', contentType: `video/${extension}` };
+  }
+  if (['mp3', 'wav', 'm4a'].includes(extension)) {
+    return { fileType: 'audio', contentType: `audio/${extension}` };
+  }
+  return { fileType: 'other', contentType: 'application/octet-stream' };
+}
+
+/**
+ * Service for statistics and content analysis across notes, and for their attachments
+ */
+export class AnalyticsService implements IAnalyticsService {
+  private database: IDatabaseService;
+
+  constructor(container: ServiceContainer = globalContainer) {
+    this.database = container.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+  }
+
+  /**
+   * Get note statistics and analytics
+   */
+  async getNoteAnalytics(): Promise<{
+    totalNotes: number;
+    averageLength: number;
+    longestNote: { title: string; length: number };
+    shortestNote: { title: string; length: number };
+    mostRecentNote: { title: string; date: Date };
+    oldestNote: { title: string; date: Date };
+    notesPerMonth: { month: string; count: number }[];
+    topTags: { tag: string; count: number }[];
+    contentStats: {
+      hasImages: number;
+      hasFiles: number;
+      hasSourceCode: number;
+      hasTodos: number;
+    };
+  }> {
+    await this.database.connect(true);
+
+    try {
+      const schema = await this.database.getBearSchema();
+      const { noteTags } = schema;
+      const [totalStats, longestNote, shortestNote, mostRecentNote, oldestNote, contentStats] =
+        await Promise.all([
+          this.database.queryOne<{ count: number; avgLength: number }>(`
+          SELECT COUNT(*) as count, AVG(LENGTH(ZTEXT)) as avgLength
+          FROM ZSFNOTE 
+          WHERE ZTRASHED = 0
+        `),
+          this.database.queryOne<{ ZTITLE: string; length: number }>(`
+          SELECT ZTITLE, LENGTH(ZTEXT) as length
+          FROM ZSFNOTE 
+          WHERE ZTRASHED = 0 AND ZTEXT IS NOT NULL
+          ORDER BY LENGTH(ZTEXT) DESC 
+          LIMIT 1
+        `),
+          this.database.queryOne<{ ZTITLE: string; length: number }>(`
+          SELECT ZTITLE, LENGTH(ZTEXT) as length
+          FROM ZSFNOTE 
+          WHERE ZTRASHED = 0 AND ZTEXT IS NOT NULL
+          ORDER BY LENGTH(ZTEXT) ASC 
+          LIMIT 1
+        `),
+          this.database.queryOne<{ ZTITLE: string; ZMODIFICATIONDATE: number }>(`
+          SELECT ZTITLE, ZMODIFICATIONDATE
+          FROM ZSFNOTE 
+          WHERE ZTRASHED = 0
+          ORDER BY ZMODIFICATIONDATE DESC 
+          LIMIT 1
+        `),
+          this.database.queryOne<{ ZTITLE: string; ZCREATIONDATE: number }>(`
+          SELECT ZTITLE, ZCREATIONDATE
+          FROM ZSFNOTE 
+          WHERE ZTRASHED = 0
+          ORDER BY ZCREATIONDATE ASC 
+          LIMIT 1
+        `),
+          this.database.queryOne<{
+            hasImages: number;
+            hasFiles: number;
+            hasSourceCode: number;
+            todos: number;
+          }>(`
+          SELECT 
+            SUM(${noteColumn(schema, 'ZHASIMAGES')}) as hasImages,
+            SUM(${noteColumn(schema, 'ZHASFILES')}) as hasFiles,
+            SUM(${noteColumn(schema, 'ZHASSOURCECODE')}) as hasSourceCode,
+            SUM(${noteColumn(schema, 'ZTODOCOMPLETED')} + ${noteColumn(schema, 'ZTODOINCOMPLETED')}) as todos
+          FROM ZSFNOTE 
+          WHERE ZTRASHED = 0
+        `),
+        ]);
+
+      // Get monthly note creation stats
+      const monthlyStats = await this.database.query<{ month: string; count: number }>(`
+        SELECT 
+          strftime('%Y-%m', datetime(ZCREATIONDATE + 978307200, 'unixepoch')) as month,
+          COUNT(*) as count
+        FROM ZSFNOTE 
+        WHERE ZTRASHED = 0
+        GROUP BY month
+        ORDER BY month DESC
+        LIMIT 12
+      `);
+
+      // Get top tags
+      const topTags = await this.database.query<{ ZTITLE: string; count: number }>(`
+        SELECT t.ZTITLE, COUNT(nt.${noteTags.noteColumn}) as count
+        FROM ZSFNOTETAG t
+        JOIN ${noteTags.table} nt ON t.Z_PK = nt.${noteTags.tagColumn}
+        JOIN ZSFNOTE n ON nt.${noteTags.noteColumn} = n.Z_PK AND n.ZTRASHED = 0
+        GROUP BY t.Z_PK, t.ZTITLE
+        ORDER BY count DESC
+        LIMIT 10
+      `);
+
+      return {
+        totalNotes: totalStats?.count || 0,
+        averageLength: Math.round(totalStats?.avgLength || 0),
+        longestNote: {
+          title: longestNote?.ZTITLE || '',
+          length: longestNote?.length || 0,
+        },
+        shortestNote: {
+          title: shortestNote?.ZTITLE || '',
+          length: shortestNote?.length || 0,
+        },
+        mostRecentNote: {
+          title: mostRecentNote?.ZTITLE || '',
+          date: mostRecentNote
+            ? CoreDataUtils.toDate(mostRecentNote.ZMODIFICATIONDATE)
+            : new Date(),
+        },
+        oldestNote: {
+          title: oldestNote?.ZTITLE || '',
+          date: oldestNote ? CoreDataUtils.toDate(oldestNote.ZCREATIONDATE) : new Date(),
+        },
+        notesPerMonth: monthlyStats.map(stat => ({
+          month: stat.month,
+          count: stat.count,
+        })),
+        topTags: topTags.map(tag => ({
+          tag: tag.ZTITLE,
+          count: tag.count,
+        })),
+        contentStats: {
+          hasImages: contentStats?.hasImages || 0,
+          hasFiles: contentStats?.hasFiles || 0,
+          hasSourceCode: contentStats?.hasSourceCode || 0,
+          hasTodos: contentStats?.todos || 0,
+        },
+      };
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Get comprehensive file attachment information
+   */
+  async getFileAttachments(
+    options: {
+      noteId?: number;
+      fileType?: string;
+      includeMetadata?: boolean;
+      limit?: number;
+      cursor?: string;
+    } = {}
+  ): Promise<{
+    totalAttachments: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+    attachments: Array<{
+      id: number;
+      filename: string;
+      fileType: string;
+      fileSize: number;
+      createdAt: Date;
+      modifiedAt: Date;
+      noteId: number;
+      noteTitle: string;
+      filePath: string;
+      contentType: string;
+      metadata?: FileMetadata;
+    }>;
+    attachmentsByType: Array<{ type: string; count: number; totalSize: number }>;
+  }> {
+    await this.database.connect(true);
+
+    try {
+      let sql = `
+        SELECT f.*, n.ZTITLE as note_title, n.Z_PK as note_id
+        FROM ZSFNOTEFILE f
+        INNER JOIN ZSFNOTE n ON f.ZNOTE = n.Z_PK
+        WHERE n.ZTRASHED = 0
+      `;
+
+      const params: SQLParameter[] = [];
+
+      if (options.noteId) {
+        sql += ' AND f.ZNOTE = ?';
+        params.push(options.noteId);
+      }
+
+      if (options.fileType) {
+        sql += ' AND LOWER(f.ZFILENAME) LIKE LOWER(?)';
+        params.push(`%.${options.fileType}`);
+      }
+
+      const page = await queryPage<DatabaseFileWithNote>(
+        this.database,
+        sql,
+        params,
+        BY_ATTACHMENT_CREATED,
+        { limit: options.limit, cursor: options.cursor, countTotal: true }
+      );
+
+      // Get attachment statistics by type
+      const typeStats = await this.database.query<{
+        type: string;
+        count: number;
+        total_size: number;
+      }>(`
+        SELECT 
+          CASE 
+            WHEN LOWER(f.ZFILENAME) LIKE '%.jpg' OR LOWER(f.ZFILENAME) LIKE '%.jpeg' OR 
+                 LOWER(f.ZFILENAME) LIKE '%.png' OR LOWER(f.ZFILENAME) LIKE '%.gif' OR
+                 LOWER(f.ZFILENAME) LIKE '%.webp' THEN 'image'
+            WHEN LOWER(f.ZFILENAME) LIKE '%.pdf' THEN 'pdf'
+            WHEN LOWER(f.ZFILENAME) LIKE '%.doc' OR LOWER(f.ZFILENAME) LIKE '%.docx' OR
+                 LOWER(f.ZFILENAME) LIKE '%.txt' OR LOWER(f.ZFILENAME) LIKE '%.md' THEN 'document'
+            WHEN LOWER(f.ZFILENAME) LIKE '%.mp4' OR LOWER(f.ZFILENAME) LIKE '%.mov' OR
+                 LOWER(f.ZFILENAME) LIKE '%.avi' THEN 'video'
+            WHEN LOWER(f.ZFILENAME) LIKE '%.mp3' OR LOWER(f.ZFILENAME) LIKE '%.wav' OR
+                 LOWER(f.ZFILENAME) LIKE '%.m4a' THEN 'audio'
+            ELSE 'other'
+          END as type,
+          COUNT(*) as count,
+          COALESCE(SUM(f.ZFILESIZE), 0) as total_size
+        FROM ZSFNOTEFILE f
+        INNER JOIN ZSFNOTE n ON f.ZNOTE = n.Z_PK
+        WHERE n.ZTRASHED = 0
+        GROUP BY type
+        ORDER BY count DESC
+      `);
+
+      const attachments = page.items.map((file: DatabaseFileWithNote) => {
+        const filename = file.ZFILENAME || 'unknown';
+        const { fileType, contentType } = attachmentType(filename);
+
+        return {
+          id: file.Z_PK,
+          filename,
+          fileType,
+          fileSize: file.ZFILESIZE || 0,
+          createdAt: CoreDataUtils.toDate(file.ZCREATIONDATE),
+          modifiedAt: CoreDataUtils.toDate(file.ZMODIFICATIONDATE),
+          noteId: file.note_id,
+          noteTitle: file.note_title || 'Untitled',
+          filePath: file.ZFILEPATH || '',
+          contentType,
+          metadata: options.includeMetadata ? this.extractFileMetadata(file) : undefined,
+        };
+      });
+
+      return {
+        totalAttachments: page.total ?? page.items.length,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        attachments,
+        attachmentsByType: typeStats.map(stat => ({
+          type: stat.type,
+          count: stat.count,
+          totalSize: stat.total_size,
+        })),
+      };
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Read an attachment's file. Bear keeps attachment files under its database directory, at
+   * the path the attachment row records.
+   */
+  async getAttachmentFile(id: number): Promise<{
+    id: number;
+    filename: string;
+    contentType: string;
+    noteId: number;
+    data: Buffer;
+  }> {
+    await this.database.connect(true);
+
+    let file: DatabaseFileRecord | null;
+    try {
+      file = await this.database.queryOne<DatabaseFileRecord>(
+        'SELECT * FROM ZSFNOTEFILE WHERE Z_PK = ?',
+        [id]
+      );
+    } finally {
+      await this.database.disconnect();
+    }
+
+    if (!file) {
+      throw new BusinessError(`Attachment not found: ${id}`, 'ATTACHMENT_NOT_FOUND');
+    }
+    if (!file.ZFILEPATH) {
+      throw new BusinessError(`Attachment ${id} has no file path`, 'ATTACHMENT_FILE_MISSING');
+    }
+
+    const filename = file.ZFILENAME || 'unknown';
+    const filesDir = path.dirname(path.resolve(this.database.getDatabasePath()));
+    const filePath = path.resolve(filesDir, file.ZFILEPATH);
+    if (!filePath.startsWith(filesDir + path.sep)) {
+      throw new SecurityError(`Attachment ${id} points outside Bear's directory`);
+    }
+
+    let data: Buffer;
+    try {
+      data = await readFile(filePath);
+    } catch {
+      throw new FileSystemError('Reading attachment', filePath);
+    }
+
+    return {
+      id: file.Z_PK,
+      filename,
+      contentType: attachmentType(filename).contentType,
+      noteId: file.ZNOTE,
+      data,
+    };
+  }
+
+  /**
+   * Analyze note metadata and content patterns
+   */
+  async analyzeNoteMetadata(
+    options: {
+      includeContentAnalysis?: boolean;
+      includeLinkAnalysis?: boolean;
+      includeStructureAnalysis?: boolean;
+    } = {}
+  ): Promise<{
+    overview: {
+      totalNotes: number;
+      averageLength: number;
+      lengthDistribution: Array<{ range: string; count: number }>;
+      creationPatterns: Array<{ hour: number; count: number }>;
+      modificationPatterns: Array<{ hour: number; count: number }>;
+    };
+    contentAnalysis?: ContentAnalysis;
+    linkAnalysis?: LinkAnalysis;
+    structureAnalysis?: StructureAnalysis;
+  }> {
+    await this.database.connect(true);
+
+    try {
+      // Basic overview
+      const [overview] = await this.database.query<{
+        total_notes: number;
+        avg_length: number;
+      }>(`
+        SELECT 
+          COUNT(*) as total_notes,
+          AVG(LENGTH(ZTEXT)) as avg_length
+        FROM ZSFNOTE 
+        WHERE ZTRASHED = 0 AND ZTEXT IS NOT NULL
+      `);
+
+      // Length distribution
+      const lengthDistribution = await this.database.query<{
+        range: string;
+        count: number;
+      }>(`
+        SELECT 
+          CASE 
+            WHEN LENGTH(ZTEXT) < 100 THEN '0-100'
+            WHEN LENGTH(ZTEXT) < 500 THEN '100-500'
+            WHEN LENGTH(ZTEXT) < 1000 THEN '500-1K'
+            WHEN LENGTH(ZTEXT) < 5000 THEN '1K-5K'
+            WHEN LENGTH(ZTEXT) < 10000 THEN '5K-10K'
+            ELSE '10K+'
+          END as range,
+          COUNT(*) as count
+        FROM ZSFNOTE 
+        WHERE ZTRASHED = 0 AND ZTEXT IS NOT NULL
+        GROUP BY range
+        ORDER BY 
+          CASE range
+            WHEN '0-100' THEN 1
+            WHEN '100-500' THEN 2
+            WHEN '500-1K' THEN 3
+            WHEN '1K-5K' THEN 4
+            WHEN '5K-10K' THEN 5
+            ELSE 6
+          END
+      `);
+
+      // Creation and modification patterns by hour
+      const creationPatterns = await this.database.query<{
+        hour: number;
+        count: number;
+      }>(`
+        SELECT 
+          CAST(strftime('%H', datetime(ZCREATIONDATE + 978307200, 'unixepoch', 'localtime')) AS INTEGER) as hour,
+          COUNT(*) as count
+        FROM ZSFNOTE 
+        WHERE ZTRASHED = 0
+        GROUP BY hour
+        ORDER BY hour
+      `);
+
+      const modificationPatterns = await this.database.query<{
+        hour: number;
+        count: number;
+      }>(`
+        SELECT 
+          CAST(strftime('%H', datetime(ZMODIFICATIONDATE + 978307200, 'unixepoch', 'localtime')) AS INTEGER) as hour,
+          COUNT(*) as count
+        FROM ZSFNOTE 
+        WHERE ZTRASHED = 0
+        GROUP BY hour
+        ORDER BY hour
+      `);
+
+      const result: {
+        overview: {
+          totalNotes: number;
+          averageLength: number;
+          lengthDistribution: Array<{ range: string; count: number }>;
+          creationPatterns: Array<{ hour: number; count: number }>;
+          modificationPatterns: Array<{ hour: number; count: number }>;
+        };
+        contentAnalysis?: ContentAnalysis;
+        linkAnalysis?: LinkAnalysis;
+        structureAnalysis?: StructureAnalysis;
+      } = {
+        overview: {
+          totalNotes: overview.total_notes,
+          averageLength: Math.round(overview.avg_length || 0),
+          lengthDistribution,
+          creationPatterns,
+          modificationPatterns,
+        },
+      };
+
+      // Content analysis
+      if (options.includeContentAnalysis) {
+        const notes = await this.database.query<{ text: string }>(`
+          SELECT ZTEXT as text FROM ZSFNOTE 
+          WHERE ZTRASHED = 0 AND ZTEXT IS NOT NULL
+          LIMIT 1000
+        `);
+
+        const contentAnalysis = this.analyzeContent(notes.map(n => n.text));
+        result.contentAnalysis = contentAnalysis;
+      }
+
+      // Link analysis
+      if (options.includeLinkAnalysis) {
+        const notes = await this.database.query<{ text: string }>(`
+          SELECT ZTEXT as text FROM ZSFNOTE 
+          WHERE ZTRASHED = 0 AND ZTEXT IS NOT NULL
+          AND (ZTEXT LIKE '%http%' OR ZTEXT LIKE '%www.%' OR ZTEXT LIKE '%[%](%')
+          LIMIT 1000
+        `);
+
+        const linkAnalysis = this.analyzeLinks(notes.map(n => n.text));
+        result.linkAnalysis = linkAnalysis;
+      }
+
+      // Structure analysis
+      if (options.includeStructureAnalysis) {
+        const notes = await this.database.query<{ title: string; text: string }>(`
+          SELECT ZTITLE as title, ZTEXT as text FROM ZSFNOTE 
+          WHERE ZTRASHED = 0 AND ZTEXT IS NOT NULL
+          LIMIT 1000
+        `);
+
+        const structureAnalysis = this.analyzeStructure(notes);
+        result.structureAnalysis = structureAnalysis;
+      }
+
+      return result;
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Get notes with specific metadata characteristics
+   */
+  async getNotesWithMetadata(criteria: {
+    hasAttachments?: boolean;
+    hasLinks?: boolean;
+    hasImages?: boolean;
+    hasTodos?: boolean;
+    hasCodeBlocks?: boolean;
+    hasTables?: boolean;
+    minWordCount?: number;
+    maxWordCount?: number;
+    createdAfter?: Date;
+    createdBefore?: Date;
+    modifiedAfter?: Date;
+    modifiedBefore?: Date;
+    limit?: number;
+    cursor?: string;
+  }): Promise<
+    Page<
+      NoteWithTags & {
+        wordCount: number;
+        attachmentCount: number;
+        linkCount: number;
+        imageCount: number;
+        todoCount: number;
+        codeBlockCount: number;
+        tableCount: number;
+        metadata: {
+          hasAttachments: boolean;
+          hasLinks: boolean;
+          hasImages: boolean;
+          hasTodos: boolean;
+          hasCodeBlocks: boolean;
+          hasTables: boolean;
+        };
+      }
+    >
+  > {
+    await this.database.connect(true);
+
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+      let sql = `
+        SELECT n.*, 
+               GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names,
+               COUNT(DISTINCT f.Z_PK) as attachment_count
+        FROM ZSFNOTE n
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+        LEFT JOIN ZSFNOTEFILE f ON n.Z_PK = f.ZNOTE
+        WHERE n.ZTRASHED = 0
+      `;
+
+      const params: SQLParameter[] = [];
+
+      // Date filters
+      if (criteria.createdAfter) {
+        sql += ' AND n.ZCREATIONDATE >= ?';
+        params.push(CoreDataUtils.fromDate(criteria.createdAfter));
+      }
+
+      if (criteria.createdBefore) {
+        sql += ' AND n.ZCREATIONDATE <= ?';
+        params.push(CoreDataUtils.fromDate(criteria.createdBefore));
+      }
+
+      if (criteria.modifiedAfter) {
+        sql += ' AND n.ZMODIFICATIONDATE >= ?';
+        params.push(CoreDataUtils.fromDate(criteria.modifiedAfter));
+      }
+
+      if (criteria.modifiedBefore) {
+        sql += ' AND n.ZMODIFICATIONDATE <= ?';
+        params.push(CoreDataUtils.fromDate(criteria.modifiedBefore));
+      }
+
+      // Attachment filter
+      if (criteria.hasAttachments === true) {
+        sql += ' AND f.Z_PK IS NOT NULL';
+      } else if (criteria.hasAttachments === false) {
+        sql += ' AND f.Z_PK IS NULL';
+      }
+
+      sql += ' GROUP BY n.Z_PK';
+
+      // The content filters run here rather than in SQL, so every note after the cursor is
+      // read and the page is cut from the notes that pass
+      const { items: rows } = await queryPage<
+        BearNote & {
+          tag_names: string;
+          attachment_count: number;
+        }
+      >(this.database, sql, params, BY_MODIFIED, { cursor: criteria.cursor });
+
+      // Analyze content for each note
+      const results = rows
+        .map(row => {
+          const note = {
+            ...row,
+            tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
+          };
+
+          const content = note.ZTEXT || '';
+
+          // Count various content elements
+          const wordCount = content.split(/\s+/).filter(word => word.length > 0).length;
+          const linkCount = (content.match(/https?:\/\/[^\s)]+/g) || []).length;
+          const imageCount = (content.match(/!\[.*?\]\(.*?\)/g) || []).length;
+          const todoCount = (content.match(/- \[[ x]\]/g) || []).length;
+          const codeBlockCount = (content.match(/```/g) || []).length / 2;
+          const tableCount = (content.match(/\|.*\|/g) || []).length;
+
+          // Apply content-based filters
+          if (criteria.minWordCount && wordCount < criteria.minWordCount) {
+            return null;
+          }
+          if (criteria.maxWordCount && wordCount > criteria.maxWordCount) {
+            return null;
+          }
+          if (criteria.hasLinks === true && linkCount === 0) {
+            return null;
+          }
+          if (criteria.hasLinks === false && linkCount > 0) {
+            return null;
+          }
+          if (criteria.hasImages === true && imageCount === 0) {
+            return null;
+          }
+          if (criteria.hasImages === false && imageCount > 0) {
+            return null;
+          }
+          if (criteria.hasTodos === true && todoCount === 0) {
+            return null;
+          }
+          if (criteria.hasTodos === false && todoCount > 0) {
+            return null;
+          }
+          if (criteria.hasCodeBlocks === true && codeBlockCount === 0) {
+            return null;
+          }
+          if (criteria.hasCodeBlocks === false && codeBlockCount > 0) {
+            return null;
+          }
+          if (criteria.hasTables === true && tableCount === 0) {
+            return null;
+          }
+          if (criteria.hasTables === false && tableCount > 0) {
+            return null;
+          }
+
+          return {
+            ...note,
+            wordCount,
+            attachmentCount: row.attachment_count,
+            linkCount,
+            imageCount,
+            todoCount,
+            codeBlockCount,
+            tableCount,
+            metadata: {
+              hasAttachments: row.attachment_count > 0,
+              hasLinks: linkCount > 0,
+              hasImages: imageCount > 0,
+              hasTodos: todoCount > 0,
+              hasCodeBlocks: codeBlockCount > 0,
+              hasTables: tableCount > 0,
+            },
+          };
+        })
+        .filter(Boolean) as Array<
+        NoteWithTags & {
+          wordCount: number;
+          attachmentCount: number;
+          linkCount: number;
+          imageCount: number;
+          todoCount: number;
+          codeBlockCount: number;
+          tableCount: number;
+          metadata: {
+            hasAttachments: boolean;
+            hasLinks: boolean;
+            hasImages: boolean;
+            hasTodos: boolean;
+            hasCodeBlocks: boolean;
+            hasTables: boolean;
+          };
+        }
+      >;
+
+      return toPage(results, criteria.limit, BY_MODIFIED, note => ({
+        key: note.ZMODIFICATIONDATE ?? 0,
+        id: note.Z_PK,
+      }));
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Extract file metadata from database record
+   */
+  private extractFileMetadata(file: DatabaseFileRecord): FileMetadata {
+    return {
+      creationDate: CoreDataUtils.toDate(file.ZCREATIONDATE),
+      modificationDate: CoreDataUtils.toDate(file.ZMODIFICATIONDATE),
+      fileSize: file.ZFILESIZE || 0,
+      filePath: file.ZFILEPATH || '',
+      originalFilename: file.ZFILENAME || '',
+      // Add more metadata fields as available in the database
+    };
+  }
+
+  /**
+   * Analyze content patterns in notes
+   */
+  private analyzeContent(texts: string[]): ContentAnalysis {
+    const analysis = {
+      markdownUsage: {
+        headings: 0,
+        lists: 0,
+        codeBlocks: 0,
+        links: 0,
+        images: 0,
+        tables: 0,
+      },
+      languagePatterns: [] as Array<{ language: string; count: number }>,
+      commonPatterns: [] as Array<{ pattern: string; description: string; count: number }>,
+    };
+
+    const languageMap = new Map<string, number>();
+    const patternCounts = {
+      emails: 0,
+      urls: 0,
+      phoneNumbers: 0,
+      dates: 0,
+      times: 0,
+      hashtags: 0,
+    };
+
+    texts.forEach(text => {
+      // Markdown usage
+      analysis.markdownUsage.headings += (text.match(/^#+\s/gm) || []).length;
+      analysis.markdownUsage.lists += (text.match(/^[\s]*[-*+]\s/gm) || []).length;
+      analysis.markdownUsage.codeBlocks += (text.match(/```/g) || []).length / 2;
+      analysis.markdownUsage.links += (text.match(/\[.*?\]\(.*?\)/g) || []).length;
+      analysis.markdownUsage.images += (text.match(/!\[.*?\]\(.*?\)/g) || []).length;
+      analysis.markdownUsage.tables += (text.match(/\|.*\|/g) || []).length;
+
+      // Language detection (basic)
+      const codeBlocks = text.match(/```(\w+)?\n([\s\S]*?)```/g) || [];
+      codeBlocks.forEach(block => {
+        const match = block.match(/```(\w+)/);
+        if (match && match[1]) {
+          const lang = match[1].toLowerCase();
+          languageMap.set(lang, (languageMap.get(lang) || 0) + 1);
+        }
+      });
+
+      // Common patterns
+      patternCounts.emails += (
+        text.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g) || []
+      ).length;
+      patternCounts.urls += (text.match(/https?:\/\/[^\s)]+/g) || []).length;
+      patternCounts.phoneNumbers += (text.match(/\b\d{3}[.-]?\d{3}[.-]?\d{4}\b/g) || []).length;
+      patternCounts.dates += (text.match(/\b\d{1,2}[/-]\d{1,2}[/-]\d{2,4}\b/g) || []).length;
+      patternCounts.times += (
+        text.match(/\b\d{1,2}:\d{2}(?::\d{2})?\s?(?:AM|PM|am|pm)?\b/g) || []
+      ).length;
+      patternCounts.hashtags += (text.match(/#\w+/g) || []).length;
+    });
+
+    analysis.languagePatterns = Array.from(languageMap.entries())
+      .map(([language, count]) => ({ language, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+
+    analysis.commonPatterns = [
+      { pattern: 'emails', description: 'Email addresses', count: patternCounts.emails },
+      { pattern: 'urls', description: 'Web URLs', count: patternCounts.urls },
+      { pattern: 'phoneNumbers', description: 'Phone numbers', count: patternCounts.phoneNumbers },
+      { pattern: 'dates', description: 'Date patterns', count: patternCounts.dates },
+      { pattern: 'times', description: 'Time patterns', count: patternCounts.times },
+      { pattern: 'hashtags', description: 'Hashtags', count: patternCounts.hashtags },
+    ]
+      .filter(p => p.count > 0)
+      .sort((a, b) => b.count - a.count);
+
+    return analysis;
+  }
+
+  /**
+   * Analyze links in notes
+   */
+  private analyzeLinks(texts: string[]): LinkAnalysis {
+    const analysis = {
+      internalLinks: 0,
+      externalLinks: 0,
+      brokenLinks: 0,
+      topDomains: [] as Array<{ domain: string; count: number }>,
+      linkTypes: [] as Array<{ type: string; count: number }>,
+    };
+
+    const domainMap = new Map<string, number>();
+    const typeMap = new Map<string, number>();
+
+    texts.forEach(text => {
+      // Extract all URLs
+      const urls = text.match(/https?:\/\/[^\s)\]]+/g) || [];
+
+      urls.forEach(url => {
+        try {
+          const urlObj = new URL(url);
+          const domain = urlObj.hostname;
+
+          domainMap.set(domain, (domainMap.get(domain) || 0) + 1);
+
+          // Categorize link types
+          if (domain.includes('github.com')) {
+            typeMap.set('GitHub', (typeMap.get('GitHub') || 0) + 1);
+          } else if (domain.includes('stackoverflow.com')) {
+            typeMap.set('Stack Overflow', (typeMap.get('Stack Overflow') || 0) + 1);
+          } else if (domain.includes('wikipedia.org')) {
+            typeMap.set('Wikipedia', (typeMap.get('Wikipedia') || 0) + 1);
+          } else if (domain.includes('youtube.com') || domain.includes('youtu.be')) {
+            typeMap.set('YouTube', (typeMap.get('YouTube') || 0) + 1);
+          } else if (domain.includes('medium.com')) {
+            typeMap.set('Medium', (typeMap.get('Medium') || 0) + 1);
+          } else {
+            typeMap.set('Other', (typeMap.get('Other') || 0) + 1);
+          }
+
+          analysis.externalLinks++;
+        } catch {
+          analysis.brokenLinks++;
+        }
+      });
+
+      // Bear internal links (bear:// protocol or [[Note Title]] format)
+      const internalLinks =
+        text.match(/(?:bear:\/\/|x-callback-url:\/\/bear|bear-callback:\/\/|\[\[.*?\]\])/g) || [];
+      analysis.internalLinks += internalLinks.length;
+    });
+
+    analysis.topDomains = Array.from(domainMap.entries())
+      .map(([domain, count]) => ({ domain, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+
+    analysis.linkTypes = Array.from(typeMap.entries())
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count);
+
+    return analysis;
+  }
+
+  /**
+   * Analyze note structure patterns
+   */
+  private analyzeStructure(notes: Array<{ title: string; text: string }>): StructureAnalysis {
+    const analysis = {
+      titlePatterns: [] as Array<{ pattern: string; count: number; examples: string[] }>,
+      averageWordsPerNote: 0,
+      averageParagraphsPerNote: 0,
+      notesWithTodos: 0,
+      notesWithDates: 0,
+      notesWithNumbers: 0,
+    };
+
+    const titlePatternMap = new Map<string, { count: number; examples: string[] }>();
+    let totalWords = 0;
+    let totalParagraphs = 0;
+
+    notes.forEach(note => {
+      const { title, text } = note;
+
+      // Analyze title patterns
+      if (title) {
+        const patterns = this.extractTitlePatterns(title);
+        patterns.forEach(pattern => {
+          if (!titlePatternMap.has(pattern)) {
+            titlePatternMap.set(pattern, { count: 0, examples: [] });
+          }
+          const entry = titlePatternMap.get(pattern)!;
+          entry.count++;
+          if (entry.examples.length < 3) {
+            entry.examples.push(title);
+          }
+        });
+      }
+
+      // Count words and paragraphs
+      const words = text.split(/\s+/).filter(word => word.length > 0);
+      totalWords += words.length;
+
+      const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+      totalParagraphs += paragraphs.length;
+
+      // Check for specific content types
+      if (text.match(/- \[[ x]\]/)) {
+        analysis.notesWithTodos++;
+      }
+      if (text.match(/\b\d{1,2}[/-]\d{1,2}[/-]\d{2,4}\b/)) {
+        analysis.notesWithDates++;
+      }
+      if (text.match(/\b\d+\b/)) {
+        analysis.notesWithNumbers++;
+      }
+    });
+
+    analysis.titlePatterns = Array.from(titlePatternMap.entries())
+      .map(([pattern, data]) => ({ pattern, count: data.count, examples: data.examples }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+
+    analysis.averageWordsPerNote = Math.round(totalWords / notes.length);
+    analysis.averageParagraphsPerNote = Math.round((totalParagraphs / notes.length) * 100) / 100;
+
+    return analysis;
+  }
+
+  /**
+   * Extract patterns from note titles
+   */
+  private extractTitlePatterns(title: string): string[] {
+    const patterns: string[] = [];
+
+    // Date patterns
+    if (title.match(/\d{4}-\d{2}-\d{2}/)) {
+      patterns.push('ISO Date (YYYY-MM-DD)');
+    }
+    if (title.match(/\d{1,2}\/\d{1,2}\/\d{2,4}/)) {
+      patterns.push('US Date (MM/DD/YYYY)');
+    }
+    if (title.match(/\d{1,2}-\d{1,2}-\d{2,4}/)) {
+      patterns.push('Dash Date (MM-DD-YYYY)');
+    }
+
+    // Meeting patterns
+    if (title.toLowerCase().includes('meeting')) {
+      patterns.push('Meeting Notes');
+    }
+    if (title.toLowerCase().includes('standup')) {
+      patterns.push('Standup Notes');
+    }
+    if (title.toLowerCase().includes('interview')) {
+      patterns.push('Interview Notes');
+    }
+
+    // Project patterns
+    if (title.toLowerCase().includes('project')) {
+      patterns.push('Project Notes');
+    }
+    if (title.toLowerCase().includes('todo') || title.toLowerCase().includes('task')) {
+      patterns.push('Task Lists');
+    }
+
+    // Learning patterns
+    if (title.toLowerCase().includes('notes on') || title.toLowerCase().includes('learning')) {
+      patterns.push('Learning Notes');
+    }
+    if (title.toLowerCase().includes('tutorial') || title.toLowerCase().includes('guide')) {
+      patterns.push('Tutorials/Guides');
+    }
+
+    // Question patterns
+    if (title.startsWith('How to') || title.startsWith('Why') || title.startsWith('What')) {
+      patterns.push('Question Format');
+    }
+
+    // Number patterns
+    if (title.match(/^\d+\.?\s/)) {
+      patterns.push('Numbered Title');
+    }
+
+    // Capitalization patterns
+    if (title === title.toUpperCase()) {
+      patterns.push('ALL CAPS');
+    }
+    if (title.split(' ').every(word => word[0] === word[0].toUpperCase())) {
+      patterns.push('Title Case');
+    }
+
+    return patterns.length > 0 ? patterns : ['No Pattern'];
+  }
+}
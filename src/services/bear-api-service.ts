@@ -0,0 +1,140 @@
+/**
+ * Bear MCP Server - Bear API Service
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { IBearApiService, IDatabaseService, SERVICE_TOKENS } from './interfaces/index.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import { BearUrlDispatcher, OpenCommandDispatcher } from '../utils/bear-url-dispatcher.js';
+import { WriteVerificationOptions } from '../types/bear.js';
+import { config } from '../config/index.js';
+
+/**
+ * Service for talking to the Bear app
+ * Writes go through Bear's x-callback-url API rather than the database, so Bear's sync sees
+ * them. Bear applies each call asynchronously; `verification` says how long to wait for it.
+ */
+export class BearApiService implements IBearApiService {
+  readonly verification: WriteVerificationOptions;
+  private database: IDatabaseService;
+  private dispatcher: BearUrlDispatcher;
+
+  constructor(
+    dispatcher?: BearUrlDispatcher,
+    verification: Partial<WriteVerificationOptions> = {},
+    container: ServiceContainer = globalContainer
+  ) {
+    this.database = container.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+    this.dispatcher = dispatcher || new OpenCommandDispatcher();
+    this.verification = {
+      timeoutMs: config.bear.maxWaitTime,
+      initialIntervalMs: config.bear.pollInterval,
+      maxIntervalMs: config.bear.maxPollInterval,
+      ...verification,
+    };
+  }
+
+  /**
+   * Check if Bear app is currently running
+   */
+  async isBearRunning(): Promise<boolean> {
+    return this.database.isBearRunning();
+  }
+
+  /**
+   * Send an x-callback-url to Bear
+   */
+  async dispatch(url: string): Promise<void> {
+    await this.dispatcher.dispatch(url);
+  }
+
+  /**
+   * Create a note using Bear's x-callback-url API when Bear is running
+   * Tags are expected to be sanitized already
+   */
+  async createNoteViaBearAPI(title: string, content: string, tags: string[]): Promise<string> {
+    try {
+      // Build the content with embedded hashtags in Bear format (no title header since Bear API handles title separately)
+      const hashtagsLine = tags.map(tag => `#${tag}`).join(' ');
+      let bearContent = '';
+
+      // Add hashtags line if there are tags
+      if (hashtagsLine) {
+        bearContent += `${hashtagsLine}\n\n`;
+      }
+
+      // Add the actual content
+      if (content) {
+        // CRITICAL FIX: Remove duplicate title headers from content
+        // This prevents duplicate titles when content includes headers matching the title
+        let processedContent = content;
+        const titleHeaderPattern = new RegExp(
+          `^#\\s+${title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\n+`,
+          'i'
+        );
+        if (titleHeaderPattern.test(processedContent)) {
+          processedContent = processedContent.replace(titleHeaderPattern, '');
+        }
+        bearContent += processedContent;
+      }
+
+      // Create the Bear URL with proper encoding
+      const encodedTitle = encodeURIComponent(title);
+      const encodedContent = encodeURIComponent(bearContent);
+      const encodedTags = encodeURIComponent(tags.join(','));
+
+      const bearURL = `bear://x-callback-url/create?title=${encodedTitle}&text=${encodedContent}&tags=${encodedTags}&edit=yes&show_window=no`;
+
+      // Creating note via Bear API (silent for JSON-RPC compatibility)
+      await this.dispatcher.dispatch(bearURL);
+
+      return `Note "${title}" created via Bear API with tags: ${tags.join(', ')}`;
+    } catch (error) {
+      throw new Error(
+        `Failed to create note via Bear API: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Most effective method to trigger Bear's hashtag parsing
+   * Uses Bear's API to update the note with its own content, forcing a reparse
+   */
+  async triggerBearParseEffectively(
+    noteUUID: string,
+    noteContent: string,
+    noteTitle?: string
+  ): Promise<void> {
+    try {
+      await this.dispatcher.dispatch(this.buildReparseUrl(noteUUID, noteContent, noteTitle));
+    } catch (error) {
+      throw new Error(
+        `Failed to trigger effective Bear parsing: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Build the add-text call that replaces a note's content with itself
+   */
+  buildReparseUrl(noteUUID: string, noteContent: string, noteTitle?: string): string {
+    // CRITICAL FIX: Remove duplicate title headers before triggering reparse
+    // This prevents duplicate titles when hashtag parsing updates notes with existing headers
+    let processedContent = noteContent;
+    if (noteTitle) {
+      const titleHeaderPattern = new RegExp(
+        `^#\\s+${noteTitle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\n+`,
+        'i'
+      );
+      if (titleHeaderPattern.test(processedContent)) {
+        processedContent = processedContent.replace(titleHeaderPattern, '');
+      }
+    }
+
+    // Use Bear's API to replace the note content with itself
+    // This forces Bear to reparse all hashtags in the content
+    const encodedContent = encodeURIComponent(processedContent);
+    return `bear://x-callback-url/add-text?id=${encodeURIComponent(noteUUID)}&mode=replace&text=${encodedContent}&show_window=no`;
+  }
+}
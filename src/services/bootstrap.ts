@@ -3,8 +3,13 @@
  * Registers all services in the dependency injection container
  */
 
-import { globalContainer } from './container/service-container.js';
-import { SERVICE_TOKENS, IDatabaseService, ICacheService } from './interfaces/index.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import {
+  SERVICE_TOKENS,
+  ICacheService,
+  IDatabaseService,
+  ILoggingService,
+} from './interfaces/index.js';
 import { DatabaseService } from './database-service.js';
 import { NoteService } from './note-service.js';
 import { SearchService } from './search-service.js';
@@ -14,90 +19,120 @@ import { PerformanceService } from './performance-service.js';
 import { ValidationService } from './validation-service.js';
 import { LoggingService } from './logging-service.js';
 import { HealthService } from './health-service.js';
+import { AnalyticsService } from './analytics-service.js';
+import { BearApiService } from './bear-api-service.js';
 import { config } from '../config/index.js';
+import { BearUrlDispatcher } from '../utils/bear-url-dispatcher.js';
+import { WriteVerificationOptions } from '../types/bear.js';
+
+export interface BootstrapOptions {
+  /** How Bear x-callback-urls are delivered; defaults to macOS `open` */
+  dispatcher?: BearUrlDispatcher;
+  /** How long to wait for Bear to apply writes; defaults to config.bear */
+  verification?: Partial<WriteVerificationOptions>;
+}
 
 /**
  * Bootstrap all services and register them in the container
  */
-export function bootstrapServices(): void {
+export function bootstrapServices(
+  options: BootstrapOptions = {},
+  container: ServiceContainer = globalContainer
+): void {
   // Register DatabaseService as singleton
-  globalContainer.registerSingleton(
+  container.registerSingleton(
     SERVICE_TOKENS.DATABASE_SERVICE,
-    () => new DatabaseService(config.database.bearDbPath)
+    () => new DatabaseService(config.database.bearDbPath, container)
+  );
+
+  // Register BearApiService as singleton
+  container.registerSingleton(
+    SERVICE_TOKENS.BEAR_API_SERVICE,
+    () => new BearApiService(options.dispatcher, options.verification, container)
   );
 
   // Register NoteService as singleton
-  globalContainer.registerSingleton(SERVICE_TOKENS.NOTE_SERVICE, () => new NoteService());
+  container.registerSingleton(SERVICE_TOKENS.NOTE_SERVICE, () => new NoteService(container));
 
   // Register SearchService as singleton
-  globalContainer.registerSingleton(SERVICE_TOKENS.SEARCH_SERVICE, () => new SearchService());
+  container.registerSingleton(SERVICE_TOKENS.SEARCH_SERVICE, () => new SearchService(container));
 
   // Register TagService as singleton
-  globalContainer.registerSingleton(SERVICE_TOKENS.TAG_SERVICE, () => new TagService());
+  container.registerSingleton(SERVICE_TOKENS.TAG_SERVICE, () => new TagService(container));
+
+  // Register AnalyticsService as singleton
+  container.registerSingleton(
+    SERVICE_TOKENS.ANALYTICS_SERVICE,
+    () => new AnalyticsService(container)
+  );
 
   // Register CacheService as singleton
-  globalContainer.registerSingleton(
+  container.registerSingleton(
     SERVICE_TOKENS.CACHE_SERVICE,
     () =>
-      new CacheService({
-        maxSize: config.performance.cacheEnabled ? 1000 : 0,
-        ttl: config.performance.cacheTtl * 1000,
-        enableMetrics: true,
-      })
+      new CacheService(
+        {
+          maxSize: config.performance.cacheEnabled ? 1000 : 0,
+          maxBytes: 32 * 1024 * 1024,
+          ttl: config.performance.cacheTtl * 1000,
+          enableMetrics: true,
+        },
+        container
+      )
   );
 
   // Register PerformanceService as singleton
-  globalContainer.registerSingleton(
+  container.registerSingleton(
     SERVICE_TOKENS.PERFORMANCE_SERVICE,
-    () => new PerformanceService()
+    () => new PerformanceService(container)
   );
 
   // Register ValidationService as singleton
-  globalContainer.registerSingleton(
-    SERVICE_TOKENS.VALIDATION_SERVICE,
-    () => new ValidationService()
-  );
+  container.registerSingleton(SERVICE_TOKENS.VALIDATION_SERVICE, () => new ValidationService());
 
   // Register LoggingService as singleton
-  globalContainer.registerSingleton(
+  container.registerSingleton(
     SERVICE_TOKENS.LOGGING_SERVICE,
     () =>
       new LoggingService({
         level: config.env === 'development' ? 'debug' : 'info',
         enableConsole: true,
-        enableFile: true,
-        logDir: './logs',
+        enableFile: false,
+        enableColors: false,
         serviceName: 'bear-mcp-server',
         environment: config.env,
       })
   );
 
   // Register HealthService as singleton (with dependencies)
-  globalContainer.registerSingleton(SERVICE_TOKENS.HEALTH_SERVICE, () => {
-    const databaseService = globalContainer.resolve(
-      SERVICE_TOKENS.DATABASE_SERVICE
-    ) as IDatabaseService;
-    const cacheService = globalContainer.resolve(SERVICE_TOKENS.CACHE_SERVICE) as ICacheService;
-    return new HealthService({}, databaseService, cacheService);
-  });
+  container.registerSingleton(
+    SERVICE_TOKENS.HEALTH_SERVICE,
+    () =>
+      new HealthService(
+        {},
+        container.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE),
+        container.resolve<ICacheService>(SERVICE_TOKENS.CACHE_SERVICE),
+        container.resolve<ILoggingService>(SERVICE_TOKENS.LOGGING_SERVICE)
+      )
+  );
 
   // TODO: Register other services as they are created
-  // globalContainer.registerSingleton(SERVICE_TOKENS.ANALYTICS_SERVICE, () => new AnalyticsService());
-  // globalContainer.registerSingleton(SERVICE_TOKENS.BEAR_API_SERVICE, () => new BearApiService());
-  // globalContainer.registerSingleton(SERVICE_TOKENS.FILE_SYSTEM_SERVICE, () => new FileSystemService());
+  // container.registerSingleton(SERVICE_TOKENS.FILE_SYSTEM_SERVICE, () => new FileSystemService());
 }
 
 /**
  * Dispose all services and clean up the container
  */
-export async function disposeServices(): Promise<void> {
-  await globalContainer.dispose();
+export async function disposeServices(
+  container: ServiceContainer = globalContainer
+): Promise<void> {
+  await container.dispose();
 }
 
 /**
  * Check if services are properly registered
  */
-export function validateServiceRegistration(): void {
+export function validateServiceRegistration(container: ServiceContainer = globalContainer): void {
   const requiredServices = [
     SERVICE_TOKENS.DATABASE_SERVICE,
     SERVICE_TOKENS.NOTE_SERVICE,
@@ -108,9 +143,11 @@ export function validateServiceRegistration(): void {
     SERVICE_TOKENS.VALIDATION_SERVICE,
     SERVICE_TOKENS.LOGGING_SERVICE,
     SERVICE_TOKENS.HEALTH_SERVICE,
+    SERVICE_TOKENS.ANALYTICS_SERVICE,
+    SERVICE_TOKENS.BEAR_API_SERVICE,
   ];
 
-  const missingServices = requiredServices.filter(token => !globalContainer.isRegistered(token));
+  const missingServices = requiredServices.filter(token => !container.isRegistered(token));
 
   if (missingServices.length > 0) {
     throw new Error(`Missing service registrations: ${missingServices.join(', ')}`);
@@ -1,5 +1,6 @@
 import { getConfig } from '../config/index.js';
-import { LoggingService } from './logging-service.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import { ILoggingService, SERVICE_TOKENS } from './interfaces/index.js';
 
 export interface CacheEntry<T = unknown> {
   data: T;
@@ -7,6 +8,7 @@ export interface CacheEntry<T = unknown> {
   ttl: number;
   accessCount: number;
   lastAccessed: number;
+  size: number;
 }
 
 export interface CacheStats {
@@ -25,6 +27,7 @@ export interface CacheStats {
 export interface CacheOptions {
   ttl?: number;
   maxSize?: number;
+  maxBytes?: number;
   enableMetrics?: boolean;
 }
 
@@ -46,8 +49,11 @@ export class CacheService implements ICacheService {
   private cache = new Map<string, CacheEntry>();
   private readonly config = getConfig();
   private readonly maxSize: number;
+  private readonly maxBytes: number;
+  private bytes = 0;
   private readonly defaultTtl: number;
   private readonly enableMetrics: boolean;
+  private readonly container: ServiceContainer;
 
   // Performance metrics
   private metrics = {
@@ -59,10 +65,12 @@ export class CacheService implements ICacheService {
     memoryPeakUsage: 0,
   };
 
-  constructor(options: CacheOptions = {}) {
+  constructor(options: CacheOptions = {}, container: ServiceContainer = globalContainer) {
     this.maxSize = options.maxSize !== undefined ? options.maxSize : 1000;
+    this.maxBytes = options.maxBytes !== undefined ? options.maxBytes : Infinity;
     this.defaultTtl = options.ttl || this.config.performance.cacheTtl * 1000; // Convert to ms
     this.enableMetrics = options.enableMetrics !== false;
+    this.container = container;
   }
 
   /**
@@ -78,7 +86,7 @@ export class CacheService implements ICacheService {
 
     // Check if entry has expired
     if (this.isExpired(entry)) {
-      this.cache.delete(key);
+      this.remove(key);
       this.metrics.misses++;
       this.metrics.evictions++;
       return null;
@@ -121,13 +129,20 @@ export class CacheService implements ICacheService {
       ttl,
       accessCount: 0,
       lastAccessed: timestamp,
+      size: this.estimateEntrySize(key, value),
     };
 
     // Remove existing entry if it exists
-    this.cache.delete(key);
+    this.remove(key);
+    this.metrics.sets++;
+
+    // An entry that would take over a quarter of the byte budget would only flush everything else
+    if (entry.size > this.maxBytes / 4) {
+      return;
+    }
 
     this.cache.set(key, entry);
-    this.metrics.sets++;
+    this.bytes += entry.size;
 
     // Ensure we don't exceed max size after adding
     await this.enforceMaxSize();
@@ -140,7 +155,7 @@ export class CacheService implements ICacheService {
    * Delete value from cache
    */
   async delete(key: string): Promise<boolean> {
-    const deleted = this.cache.delete(key);
+    const deleted = this.remove(key);
     if (deleted) {
       this.metrics.deletes++;
     }
@@ -153,6 +168,7 @@ export class CacheService implements ICacheService {
   async clear(): Promise<void> {
     const size = this.cache.size;
     this.cache.clear();
+    this.bytes = 0;
     this.metrics.deletes += size;
   }
 
@@ -166,7 +182,7 @@ export class CacheService implements ICacheService {
     }
 
     if (this.isExpired(entry)) {
-      this.cache.delete(key);
+      this.remove(key);
       this.metrics.evictions++;
       return false;
     }
@@ -208,7 +224,7 @@ export class CacheService implements ICacheService {
 
     for (const key of this.cache.keys()) {
       if (regex.test(key)) {
-        this.cache.delete(key);
+        this.remove(key);
         deletedCount++;
       }
     }
@@ -223,15 +239,18 @@ export class CacheService implements ICacheService {
   async warmup(keys: string[]): Promise<void> {
     // This would be implemented to pre-populate cache with frequently accessed data
     // For now, it's a placeholder for the interface
-    const logger = new LoggingService();
-    logger.info(`Cache warmup requested for ${keys.length} keys`);
+    if (this.container.isRegistered(SERVICE_TOKENS.LOGGING_SERVICE)) {
+      this.container
+        .resolve<ILoggingService>(SERVICE_TOKENS.LOGGING_SERVICE)
+        .info(`Cache warmup requested for ${keys.length} keys`);
+    }
   }
 
   /**
    * Generate cache key for database queries
    */
   static generateQueryKey(sql: string, params: unknown[] = []): string {
-    const normalizedSql = sql.replace(/\s+/g, ' ').trim().toLowerCase();
+    const normalizedSql = sql.replace(/\s+/g, ' ').trim();
     const paramStr = JSON.stringify(params);
     return `query:${Buffer.from(normalizedSql + paramStr).toString('base64')}`;
   }
@@ -268,14 +287,27 @@ export class CacheService implements ICacheService {
   }
 
   /**
-   * Enforce maximum cache size using LRU eviction
+   * Remove an entry and release its bytes
+   */
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.cache.delete(key);
+    this.bytes -= entry.size;
+    return true;
+  }
+
+  /**
+   * Enforce maximum cache size and byte budget using LRU eviction
    */
   private async enforceMaxSize(): Promise<void> {
-    while (this.cache.size > this.maxSize) {
+    while (this.cache.size > this.maxSize || this.bytes > this.maxBytes) {
       // Remove the least recently used entry (first entry in Map)
       const firstKey = this.cache.keys().next().value;
       if (firstKey) {
-        this.cache.delete(firstKey);
+        this.remove(firstKey);
         this.metrics.evictions++;
       } else {
         break;
@@ -297,29 +329,30 @@ export class CacheService implements ICacheService {
     }
 
     for (const key of expiredKeys) {
-      this.cache.delete(key);
+      this.remove(key);
       this.metrics.evictions++;
     }
   }
 
   /**
-   * Estimate memory usage of cache
+   * Estimate memory usage of a single entry, once, when it is stored
    */
-  private estimateMemoryUsage(): number {
-    let totalSize = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      // Rough estimation: key size + JSON.stringify size of data
-      totalSize += key.length * 2; // UTF-16 characters
-      try {
-        totalSize += JSON.stringify(entry.data).length * 2;
-      } catch {
-        totalSize += 1000; // Fallback for non-serializable data
-      }
-      totalSize += 64; // Overhead for entry metadata
+  private estimateEntrySize(key: string, value: unknown): number {
+    // Rough estimation: key size + JSON.stringify size of data
+    let size = key.length * 2; // UTF-16 characters
+    try {
+      size += (JSON.stringify(value)?.length ?? 0) * 2;
+    } catch {
+      size += 1000; // Fallback for non-serializable data
     }
+    return size + 64; // Overhead for entry metadata
+  }
 
-    return totalSize;
+  /**
+   * Estimate memory usage of cache
+   */
+  private estimateMemoryUsage(): number {
+    return this.bytes;
   }
 
   /**
@@ -3,55 +3,73 @@
  * Handles low-level database operations and connection management
  */
 
+import { stat } from 'fs/promises';
 import { BearDatabase } from '../utils/database.js';
+import { BearSchema } from '../utils/bear-schema.js';
 import { DatabaseStats, SQLParameter } from '../types/bear.js';
 import {
   IDatabaseService,
   ICacheService,
   IPerformanceService,
+  QueryOptions,
   SERVICE_TOKENS,
 } from './interfaces/index.js';
 import { config } from '../config/index.js';
 import { CacheService } from './cache-service.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
 
 export class DatabaseService implements IDatabaseService {
   private database: BearDatabase;
-  private _isConnected = false;
+  private container: ServiceContainer;
   private cacheService?: ICacheService;
   private performanceService?: IPerformanceService;
 
-  constructor(dbPath?: string) {
+  constructor(dbPath?: string, container: ServiceContainer = globalContainer) {
     this.database = new BearDatabase(dbPath || config.database.bearDbPath);
+    this.container = container;
   }
 
   /**
    * Initialize services (called after container is set up)
+   * Resolved on first use, since they are registered alongside this service
    */
   private initializeServices(): void {
-    if (!this.cacheService) {
-      try {
-        // Use lazy loading to avoid circular dependencies
-        const containerModule = require('./container/service-container.js') as {
-          globalContainer: { resolve: <T>(token: string) => T };
-        };
-        this.cacheService = containerModule.globalContainer.resolve<ICacheService>(
-          SERVICE_TOKENS.CACHE_SERVICE
-        );
-        this.performanceService = containerModule.globalContainer.resolve<IPerformanceService>(
-          SERVICE_TOKENS.PERFORMANCE_SERVICE
-        );
-      } catch {
-        // Services not available yet, will retry later
-      }
+    if (!this.cacheService && this.container.isRegistered(SERVICE_TOKENS.CACHE_SERVICE)) {
+      this.cacheService = this.container.resolve<ICacheService>(SERVICE_TOKENS.CACHE_SERVICE);
+    }
+    if (
+      !this.performanceService &&
+      this.container.isRegistered(SERVICE_TOKENS.PERFORMANCE_SERVICE)
+    ) {
+      this.performanceService = this.container.resolve<IPerformanceService>(
+        SERVICE_TOKENS.PERFORMANCE_SERVICE
+      );
     }
   }
 
+  /**
+   * Identifies the current contents of the database, for cache keys
+   * Bear writes to the write-ahead log first, so both files are checked. Every write changes
+   * one of them, so results cached before a write are never served after it.
+   */
+  private async dataVersion(): Promise<string> {
+    const dbPath = this.database['dbPath'];
+    const versions = await Promise.all(
+      [dbPath, `${dbPath}-wal`].map(file =>
+        stat(file).then(
+          stats => `${stats.mtimeMs}:${stats.size}`,
+          () => '-'
+        )
+      )
+    );
+    return versions.join('/');
+  }
+
   /**
    * Connect to the database
    */
   async connect(readOnly: boolean = true): Promise<void> {
     await this.database.connect(readOnly);
-    this._isConnected = true;
   }
 
   /**
@@ -59,21 +77,37 @@ export class DatabaseService implements IDatabaseService {
    */
   async disconnect(): Promise<void> {
     await this.database.disconnect();
-    this._isConnected = false;
   }
 
   /**
    * Check if database is connected
    */
   isConnected(): boolean {
-    return this._isConnected;
+    return this.database.isConnected();
+  }
+
+  /**
+   * Whether a query's result may be served from or stored in the query cache
+   * Only SELECTs are cached, and callers polling for Bear's writes opt out so every check
+   * sees the database as it is now.
+   */
+  private isCacheable(sql: string, options: QueryOptions): boolean {
+    return (
+      this.cacheService !== undefined &&
+      options.cache !== false &&
+      sql.trim().toLowerCase().startsWith('select')
+    );
   }
 
   /**
    * Execute a query and return multiple results
    */
-  async query<T = unknown>(sql: string, params?: SQLParameter[]): Promise<T[]> {
-    if (!this._isConnected) {
+  async query<T = unknown>(
+    sql: string,
+    params?: SQLParameter[],
+    options: QueryOptions = {}
+  ): Promise<T[]> {
+    if (!this.isConnected()) {
       throw new Error('Database not connected. Call connect() first.');
     }
 
@@ -84,17 +118,19 @@ export class DatabaseService implements IDatabaseService {
     let result: T[];
 
     // Try cache first for SELECT queries
-    if (this.cacheService && sql.trim().toLowerCase().startsWith('select')) {
-      const cacheKey = CacheService.generateQueryKey(sql, params || []);
+    if (this.cacheService && this.isCacheable(sql, options)) {
+      const cacheKey = `${await this.dataVersion()}:${CacheService.generateQueryKey(sql, params || [])}`;
       const cachedResult = await this.cacheService.get<T[]>(cacheKey);
 
       if (cachedResult) {
         cacheHit = true;
-        result = cachedResult;
+        result = structuredClone(cachedResult);
       } else {
         result = await this.database.query<T>(sql, params);
-        // Cache the result for 5 minutes for SELECT queries
-        await this.cacheService.set(cacheKey, result, { ttl: 5 * 60 * 1000 });
+        // Cache the result for 5 minutes for SELECT queries; callers may modify the rows they
+        // get, so the cache keeps its own copy. Results too large for the cache's byte budget
+        // are dropped by the cache itself.
+        await this.cacheService.set(cacheKey, structuredClone(result), { ttl: 5 * 60 * 1000 });
       }
     } else {
       result = await this.database.query<T>(sql, params);
@@ -119,8 +155,12 @@ export class DatabaseService implements IDatabaseService {
   /**
    * Execute a query and return a single result
    */
-  async queryOne<T = unknown>(sql: string, params?: SQLParameter[]): Promise<T | null> {
-    if (!this._isConnected) {
+  async queryOne<T = unknown>(
+    sql: string,
+    params?: SQLParameter[],
+    options: QueryOptions = {}
+  ): Promise<T | null> {
+    if (!this.isConnected()) {
       throw new Error('Database not connected. Call connect() first.');
     }
 
@@ -131,17 +171,17 @@ export class DatabaseService implements IDatabaseService {
     let result: T | null;
 
     // Try cache first for SELECT queries
-    if (this.cacheService && sql.trim().toLowerCase().startsWith('select')) {
-      const cacheKey = CacheService.generateQueryKey(`${sql}_ONE`, params || []);
+    if (this.cacheService && this.isCacheable(sql, options)) {
+      const cacheKey = `${await this.dataVersion()}:${CacheService.generateQueryKey(`${sql}_ONE`, params || [])}`;
       const cachedResult = await this.cacheService.get<T | null>(cacheKey);
 
       if (cachedResult !== null) {
         cacheHit = true;
-        result = cachedResult;
+        result = structuredClone(cachedResult);
       } else {
         result = await this.database.queryOne<T>(sql, params);
         // Cache the result for 5 minutes for SELECT queries
-        await this.cacheService.set(cacheKey, result, { ttl: 5 * 60 * 1000 });
+        await this.cacheService.set(cacheKey, structuredClone(result), { ttl: 5 * 60 * 1000 });
       }
     } else {
       result = await this.database.queryOne<T>(sql, params);
@@ -167,11 +207,7 @@ export class DatabaseService implements IDatabaseService {
    * Get comprehensive database statistics
    */
   async getDatabaseStats(): Promise<DatabaseStats> {
-    const wasConnected = this._isConnected;
-
-    if (!wasConnected) {
-      await this.connect(true); // Read-only connection
-    }
+    await this.connect(true); // Read-only connection
 
     try {
       const [
@@ -216,9 +252,7 @@ export class DatabaseService implements IDatabaseService {
         lastModified: stats.mtime,
       };
     } finally {
-      if (!wasConnected) {
-        await this.disconnect();
-      }
+      await this.disconnect();
     }
   }
 
@@ -226,11 +260,7 @@ export class DatabaseService implements IDatabaseService {
    * Get database schema information
    */
   async getSchema(): Promise<{ name: string; sql: string }[]> {
-    const wasConnected = this._isConnected;
-
-    if (!wasConnected) {
-      await this.connect(true); // Read-only connection
-    }
+    await this.connect(true); // Read-only connection
 
     try {
       const schema = await this.query<{ name: string; sql: string }>(
@@ -238,29 +268,34 @@ export class DatabaseService implements IDatabaseService {
       );
       return schema.filter(table => table.sql); // Filter out system tables
     } finally {
-      if (!wasConnected) {
-        await this.disconnect();
-      }
+      await this.disconnect();
     }
   }
 
   /**
-   * Check database integrity
+   * The note-tag join table and optional note columns of this Bear library
    */
-  async checkIntegrity(): Promise<boolean> {
-    const wasConnected = this._isConnected;
+  async getBearSchema(): Promise<BearSchema> {
+    await this.connect(true); // Read-only connection
 
-    if (!wasConnected) {
-      await this.connect(true); // Read-only connection
+    try {
+      return this.database.getBearSchema();
+    } finally {
+      await this.disconnect();
     }
+  }
+
+  /**
+   * Check database integrity
+   */
+  async checkIntegrity(): Promise<boolean> {
+    await this.connect(true); // Read-only connection
 
     try {
       const result = await this.queryOne<{ integrity_check: string }>('PRAGMA integrity_check');
       return result?.integrity_check === 'ok';
     } finally {
-      if (!wasConnected) {
-        await this.disconnect();
-      }
+      await this.disconnect();
     }
   }
 
@@ -341,11 +376,7 @@ export class DatabaseService implements IDatabaseService {
       }
 
       // Try actual database connection
-      const wasConnected = this._isConnected;
-
-      if (!wasConnected) {
-        await this.connect(true); // Read-only connection
-      }
+      await this.connect(true); // Read-only connection
 
       try {
         // Try to query a basic table to verify access
@@ -354,9 +385,7 @@ export class DatabaseService implements IDatabaseService {
       } catch (error) {
         result.error = error instanceof Error ? error.message : 'Unknown database error';
       } finally {
-        if (!wasConnected) {
-          await this.disconnect();
-        }
+        await this.disconnect();
       }
 
       return result;
@@ -369,25 +398,17 @@ export class DatabaseService implements IDatabaseService {
   }
 
   /**
-   * Create a backup of the database
+   * Check the database file exists and can be read and written, throwing if not
    */
-  async createBackup(): Promise<string> {
-    const fs = await import('fs/promises');
-    const path = await import('path');
-
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupDir = config.database.backupDir;
-    const dbPath = this.database['dbPath'];
-    const dbName = path.basename(dbPath);
-    const backupPath = path.join(backupDir, `${dbName}.backup.${timestamp}`);
-
-    // Ensure backup directory exists
-    await fs.mkdir(backupDir, { recursive: true });
-
-    // Copy database file
-    await fs.copyFile(dbPath, backupPath);
+  async verifyDatabaseAccess(): Promise<void> {
+    await this.database.verifyDatabaseAccess();
+  }
 
-    return backupPath;
+  /**
+   * Create a timestamped backup of the database
+   */
+  async createBackup(): Promise<string> {
+    return this.database.createBackup();
   }
 
   /**
@@ -401,7 +422,7 @@ export class DatabaseService implements IDatabaseService {
    * Execute a transaction with automatic rollback on error
    */
   async transaction<T>(callback: () => Promise<T>): Promise<T> {
-    if (!this._isConnected) {
+    if (!this.isConnected()) {
       throw new Error('Database not connected. Call connect() first.');
     }
 
@@ -428,7 +449,7 @@ export class DatabaseService implements IDatabaseService {
    * Dispose of the database service
    */
   async dispose(): Promise<void> {
-    if (this._isConnected) {
+    if (this.isConnected()) {
       await this.disconnect();
     }
   }
@@ -4,7 +4,12 @@
  */
 
 import os from 'os';
-import { IHealthService, IDatabaseService, ICacheService } from './interfaces/index.js';
+import {
+  IHealthService,
+  IDatabaseService,
+  ICacheService,
+  ILoggingService,
+} from './interfaces/index.js';
 
 // Type declaration for NodeJS global
 /* eslint-disable no-undef */
@@ -91,15 +96,18 @@ export class HealthService implements IHealthService {
   private lastHealthCheck?: HealthCheckResult;
   private databaseService?: IDatabaseService;
   private cacheService?: ICacheService;
+  private logger?: ILoggingService;
 
   constructor(
     config: Partial<HealthConfig> = {},
     databaseService?: IDatabaseService,
-    cacheService?: ICacheService
+    cacheService?: ICacheService,
+    logger?: ILoggingService
   ) {
     this.config = { ...DEFAULT_HEALTH_CONFIG, ...config };
     this.databaseService = databaseService;
     this.cacheService = cacheService;
+    this.logger = logger;
   }
 
   /**
@@ -179,8 +187,8 @@ export class HealthService implements IHealthService {
         };
       }
 
-      // Test database connectivity and basic query
-      await this.databaseService.verifyAccess();
+      // Test database connectivity and basic query; throws when the database can't be read
+      await this.databaseService.verifyDatabaseAccess();
       const responseTime = Date.now() - startTime;
 
       let status: HealthStatus = 'healthy';
@@ -388,8 +396,8 @@ export class HealthService implements IHealthService {
       try {
         await this.checkHealth();
       } catch (error) {
-        // Health check failed, but don't throw - just log internally
-        console.error('Automatic health check failed:', error);
+        // Health check failed, but don't throw - just log it
+        this.logger?.error('Automatic health check failed', error);
       }
     }, this.config.checkInterval);
   }
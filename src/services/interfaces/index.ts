@@ -8,8 +8,35 @@ import {
   TagWithCount,
   DatabaseStats,
   NoteSearchOptions,
+  NoteEditMode,
   SQLParameter,
+  TagChangeResult,
+  TagHierarchy,
+  TagRelationshipAnalysis,
+  TagUsageTrends,
+  RegexSearchResult,
+  HashtagParsingFilter,
+  FileMetadata,
+  ContentAnalysis,
+  LinkAnalysis,
+  StructureAnalysis,
+  WritePreview,
+  WriteVerification,
+  WriteVerificationOptions,
 } from '../../types/bear.js';
+import { BearSchema } from '../../utils/bear-schema.js';
+import { FullTextSearchResult } from '../../utils/fulltext-index.js';
+import { Page, PageOptions } from '../../utils/pagination.js';
+import { TextReplacement } from '../../utils/text-patch.js';
+import { ToolArguments, ToolName } from '../../utils/tool-schemas.js';
+
+/**
+ * Per-query options for the database service
+ */
+export interface QueryOptions {
+  /** Set to false to always read from the database, e.g. while waiting for Bear to apply a write */
+  cache?: boolean;
+}
 
 /**
  * Database service interface - handles low-level database operations
@@ -21,8 +48,12 @@ export interface IDatabaseService {
   isConnected(): boolean;
 
   // Database operations
-  query<T = unknown>(sql: string, params?: SQLParameter[]): Promise<T[]>;
-  queryOne<T = unknown>(sql: string, params?: SQLParameter[]): Promise<T | null>;
+  query<T = unknown>(sql: string, params?: SQLParameter[], options?: QueryOptions): Promise<T[]>;
+  queryOne<T = unknown>(
+    sql: string,
+    params?: SQLParameter[],
+    options?: QueryOptions
+  ): Promise<T | null>;
 
   // Database maintenance
   getDatabaseStats(): Promise<DatabaseStats>;
@@ -37,9 +68,12 @@ export interface IDatabaseService {
       bearInstalled: boolean;
     };
   }>;
+  verifyDatabaseAccess(): Promise<void>;
   createBackup(): Promise<string>;
+  getDatabasePath(): string;
 
   // Bear-specific operations
+  getBearSchema(): Promise<BearSchema>;
   isBearRunning(): Promise<boolean>;
 }
 
@@ -49,9 +83,14 @@ export interface IDatabaseService {
 export interface INoteService {
   // Note retrieval
   getNotes(options?: NoteSearchOptions): Promise<NoteWithTags[]>;
+  getNotesPage(
+    options?: Omit<NoteSearchOptions, 'offset'> & PageOptions
+  ): Promise<Page<NoteWithTags>>;
   getNoteById(id: number): Promise<NoteWithTags | null>;
   getNoteByTitle(title: string): Promise<NoteWithTags | null>;
-  getRecentNotes(limit?: number): Promise<NoteWithTags[]>;
+  getNoteByUniqueId(uniqueId: string): Promise<NoteWithTags | null>;
+  getRecentNotes(limit?: number, cursor?: string): Promise<Page<NoteWithTags>>;
+  getTrashedNotes(limit?: number, cursor?: string): Promise<Page<NoteWithTags>>;
 
   // Note status queries
   getNoteCountsByStatus(): Promise<{
@@ -69,8 +108,16 @@ export interface INoteService {
     tags?: string[];
     isArchived?: boolean;
     isPinned?: boolean;
-  }): Promise<{ noteId: string; success: boolean; tagWarnings?: string[] }>;
-
+    dryRun?: boolean;
+  }): Promise<{
+    noteId: number | null;
+    uniqueIdentifier: string | null;
+    success: boolean;
+    tagWarnings?: string[];
+    archiveStateUnchanged?: boolean;
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }>;
   updateNote(
     noteId: number,
     options: {
@@ -80,18 +127,47 @@ export interface INoteService {
       isArchived?: boolean;
       isPinned?: boolean;
       expectedModificationDate?: Date;
+      mode?: NoteEditMode;
+      header?: string;
+      dryRun?: boolean;
     }
-  ): Promise<{ success: boolean; conflictDetected?: boolean; tagWarnings?: string[] }>;
-
+  ): Promise<{
+    success: boolean;
+    conflictDetected?: boolean;
+    archiveStateUnchanged?: boolean;
+    tagWarnings?: string[];
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }>;
+  editNote(
+    noteId: number,
+    patch: { edits?: TextReplacement[]; diff?: string },
+    expectedModificationDate?: Date,
+    dryRun?: boolean
+  ): Promise<{
+    success: boolean;
+    conflictDetected?: boolean;
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }>;
   duplicateNote(
     noteId: number,
     options?: {
       titleSuffix?: string;
       copyTags?: boolean;
+      dryRun?: boolean;
     }
-  ): Promise<{ newNoteId: string; success: boolean }>;
-
-  archiveNote(noteId: number, archived: boolean): Promise<{ success: boolean }>;
+  ): Promise<{
+    newNoteId: number | null;
+    success: boolean;
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }>;
+  archiveNote(
+    noteId: number,
+    archived: boolean
+  ): Promise<{ success: boolean; archiveStateUnchanged?: boolean }>;
+  trashNote(noteId: number): Promise<{ success: boolean; trashStateUnchanged?: boolean }>;
 }
 
 /**
@@ -99,13 +175,17 @@ export interface INoteService {
  */
 export interface ISearchService {
   // Basic search
-  searchNotes(query: string, options?: NoteSearchOptions): Promise<NoteWithTags[]>;
+  searchNotes(
+    query: string,
+    options?: Omit<NoteSearchOptions, 'offset'> & PageOptions
+  ): Promise<Page<NoteWithTags>>;
 
   // Advanced search
   searchNotesFullText(
     query: string,
     options?: {
       limit?: number;
+      cursor?: string;
       includeSnippets?: boolean;
       searchFields?: ('title' | 'content' | 'both')[];
       fuzzyMatch?: boolean;
@@ -117,17 +197,7 @@ export interface ISearchService {
       dateFrom?: Date;
       dateTo?: Date;
     }
-  ): Promise<
-    Array<
-      NoteWithTags & {
-        relevanceScore: number;
-        matchedTerms: string[];
-        snippets: string[];
-        titleMatches: number;
-        contentMatches: number;
-      }
-    >
-  >;
+  ): Promise<Page<FullTextSearchResult>>;
 
   // Search utilities
   getSearchSuggestions(
@@ -138,7 +208,6 @@ export interface ISearchService {
     titles: string[];
     tags: string[];
   }>;
-
   findSimilarNotes(
     referenceText: string,
     options?: {
@@ -147,6 +216,31 @@ export interface ISearchService {
       excludeNoteId?: number;
     }
   ): Promise<Array<NoteWithTags & { similarityScore: number; commonKeywords: string[] }>>;
+  semanticSearch(
+    query: string,
+    options?: { limit?: number; minScore?: number; includeArchived?: boolean }
+  ): Promise<Array<NoteWithTags & { similarityScore: number; matchedTerms: string[] }>>;
+  getRelatedNotes(
+    noteId: number,
+    limit?: number
+  ): Promise<{
+    byTags: NoteWithTags[];
+    byContent: Array<NoteWithTags & { similarityScore?: number }>;
+  }>;
+  searchNotesRegex(
+    pattern: string,
+    options?: {
+      flags?: string;
+      searchIn?: 'title' | 'content' | 'both';
+      limit?: number;
+      cursor?: string;
+      includeContext?: boolean;
+      contextLines?: number;
+      includeArchived?: boolean;
+      noteTimeoutMs?: number;
+      scanTimeoutMs?: number;
+    }
+  ): Promise<RegexSearchResult>;
 
   // Advanced filtering
   getNotesAdvanced(options?: {
@@ -164,9 +258,8 @@ export interface ISearchService {
     sortBy?: 'created' | 'modified' | 'title' | 'size';
     sortOrder?: 'asc' | 'desc';
     limit?: number;
-    offset?: number;
-  }): Promise<NoteWithTags[]>;
-
+    cursor?: string;
+  }): Promise<Page<NoteWithTags>>;
   getNotesWithCriteria(criteria: {
     titleContains?: string[];
     contentContains?: string[];
@@ -182,7 +275,9 @@ export interface ISearchService {
     isArchived?: boolean;
     isTrashed?: boolean;
     isEncrypted?: boolean;
-  }): Promise<NoteWithTags[]>;
+    limit?: number;
+    cursor?: string;
+  }): Promise<Page<NoteWithTags>>;
 }
 
 /**
@@ -191,7 +286,20 @@ export interface ISearchService {
 export interface ITagService {
   // Tag retrieval
   getTags(): Promise<TagWithCount[]>;
-  getNotesByTag(tagName: string): Promise<NoteWithTags[]>;
+  getNotesByTag(tagName: string, options?: PageOptions): Promise<Page<NoteWithTags>>;
+  getTagHierarchy(options?: { root?: string; maxDepth?: number }): Promise<TagHierarchy>;
+  analyzeTagRelationships(options?: {
+    minSharedNotes?: number;
+    limit?: number;
+    matrixSize?: number;
+    clusterThreshold?: number;
+  }): Promise<TagRelationshipAnalysis>;
+  getTagUsageTrends(options?: {
+    tagName?: string;
+    months?: number;
+    endDate?: Date;
+    dormantMonths?: number;
+  }): Promise<TagUsageTrends>;
 
   // Tag management
   validateAndSanitizeTags(tags: string[]): {
@@ -201,12 +309,14 @@ export interface ITagService {
 
   // Bear-specific tag operations
   triggerHashtagParsing(noteId?: string, noteTitle?: string): Promise<string>;
-  batchTriggerHashtagParsing(options: {
-    tag_filter?: string;
-    title_pattern?: string;
-    limit?: number;
-    created_after?: string;
-  }): Promise<string>;
+  batchTriggerHashtagParsing(options: HashtagParsingFilter): Promise<string>;
+  previewBatchTriggerHashtagParsing(options: HashtagParsingFilter): Promise<WritePreview>;
+  renameTag(from: string, to: string, options?: { dryRun?: boolean }): Promise<TagChangeResult>;
+  mergeTags(
+    sources: string[],
+    target: string,
+    options?: { dryRun?: boolean }
+  ): Promise<TagChangeResult>;
 }
 
 /**
@@ -244,33 +354,9 @@ export interface IAnalyticsService {
       creationPatterns: Array<{ hour: number; count: number }>;
       modificationPatterns: Array<{ hour: number; count: number }>;
     };
-    contentAnalysis?: {
-      markdownUsage: {
-        headings: number;
-        lists: number;
-        codeBlocks: number;
-        links: number;
-        images: number;
-        tables: number;
-      };
-      languagePatterns: Array<{ language: string; count: number }>;
-      commonPatterns: Array<{ pattern: string; description: string; count: number }>;
-    };
-    linkAnalysis?: {
-      internalLinks: number;
-      externalLinks: number;
-      brokenLinks: number;
-      topDomains: Array<{ domain: string; count: number }>;
-      linkTypes: Array<{ type: string; count: number }>;
-    };
-    structureAnalysis?: {
-      titlePatterns: Array<{ pattern: string; count: number; examples: string[] }>;
-      averageWordsPerNote: number;
-      averageParagraphsPerNote: number;
-      notesWithTodos: number;
-      notesWithDates: number;
-      notesWithNumbers: number;
-    };
+    contentAnalysis?: ContentAnalysis;
+    linkAnalysis?: LinkAnalysis;
+    structureAnalysis?: StructureAnalysis;
   }>;
 
   // File attachments
@@ -279,8 +365,11 @@ export interface IAnalyticsService {
     fileType?: string;
     includeMetadata?: boolean;
     limit?: number;
+    cursor?: string;
   }): Promise<{
     totalAttachments: number;
+    nextCursor: string | null;
+    hasMore: boolean;
     attachments: Array<{
       id: number;
       filename: string;
@@ -292,10 +381,17 @@ export interface IAnalyticsService {
       noteTitle: string;
       filePath: string;
       contentType: string;
-      metadata?: Record<string, unknown>;
+      metadata?: FileMetadata;
     }>;
     attachmentsByType: Array<{ type: string; count: number; totalSize: number }>;
   }>;
+  getAttachmentFile(id: number): Promise<{
+    id: number;
+    filename: string;
+    contentType: string;
+    noteId: number;
+    data: Buffer;
+  }>;
 
   // Enhanced note metadata
   getNotesWithMetadata(criteria: {
@@ -312,8 +408,9 @@ export interface IAnalyticsService {
     modifiedAfter?: Date;
     modifiedBefore?: Date;
     limit?: number;
+    cursor?: string;
   }): Promise<
-    Array<
+    Page<
       NoteWithTags & {
         wordCount: number;
         attachmentCount: number;
@@ -333,30 +430,29 @@ export interface IAnalyticsService {
       }
     >
   >;
-
-  // Related notes
-  getRelatedNotes(
-    noteId: number,
-    limit?: number
-  ): Promise<{
-    byTags: NoteWithTags[];
-    byContent: NoteWithTags[];
-  }>;
 }
 
 /**
  * Bear API service interface - handles Bear application integration
  */
 export interface IBearApiService {
+  /** How long to wait for Bear to apply a write and how often to look */
+  readonly verification: WriteVerificationOptions;
+
   // Bear process management
   isBearRunning(): Promise<boolean>;
 
   // Bear API operations
+  dispatch(url: string): Promise<void>;
   createNoteViaBearAPI(title: string, content: string, tags: string[]): Promise<string>;
 
-  // Bear cache management
-  clearBearCache(): Promise<void>;
-  triggerBearReparse(noteId: number): Promise<void>;
+  // Hashtag parsing
+  triggerBearParseEffectively(
+    noteUUID: string,
+    noteContent: string,
+    noteTitle?: string
+  ): Promise<void>;
+  buildReparseUrl(noteUUID: string, noteContent: string, noteTitle?: string): string;
 }
 
 /**
@@ -432,6 +528,8 @@ export interface IValidationService {
     sanitizedData?: Record<string, unknown>;
   };
 
+  parseToolArguments<N extends ToolName>(tool: N, args: Record<string, unknown>): ToolArguments<N>;
+
   validateNoteData(data: Record<string, unknown>): {
     isValid: boolean;
     errors: unknown[];
@@ -34,7 +34,7 @@ export interface LoggingConfig {
 const DEFAULT_CONFIG: LoggingConfig = {
   level: 'info',
   enableConsole: true,
-  enableFile: true,
+  enableFile: false,
   logDir: './logs',
   maxFileSize: 10 * 1024 * 1024, // 10MB
   maxFiles: 5,
@@ -99,11 +99,12 @@ export class LoggingService implements ILoggingService {
 
     const transports: winston.transport[] = [];
 
-    // Console transport
+    // Console transport. Every level goes to stderr: on stdio, stdout carries the JSON-RPC stream
     if (this.config.enableConsole) {
       transports.push(
         new winston.transports.Console({
           level: this.config.level,
+          stderrLevels: ['debug', 'info', 'warn', 'error'],
           format: this.config.enableColors
             ? winston.format.combine(winston.format.colorize(), ...formats)
             : winston.format.combine(...formats),
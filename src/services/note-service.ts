@@ -4,75 +4,72 @@
  * MIT License - see LICENSE file for details
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import { CoreDataUtils } from '../utils/database.js';
+import { parseBearUrl } from '../utils/bear-url-dispatcher.js';
+import {
+  applyReplacements,
+  applyUnifiedDiff,
+  createUnifiedDiff,
+  TextReplacement,
+} from '../utils/text-patch.js';
+import { applyAddText, composeCreatedText } from '../utils/bear-text.js';
+import { pollUntil } from '../utils/polling.js';
 import {
   BearNote,
   NoteWithTags,
   NoteSearchOptions,
-  BearDatabaseError,
-  BearSafetyError,
+  NoteEditMode,
+  SQLParameter,
+  WritePreview,
+  WriteVerification,
 } from '../types/bear.js';
-import { INoteService, IDatabaseService, SERVICE_TOKENS } from './interfaces/index.js';
-import { globalContainer } from './container/service-container.js';
-import { SqlParameters } from '../types/database.js';
+import {
+  IBearApiService,
+  IDatabaseService,
+  INoteService,
+  ITagService,
+  SERVICE_TOKENS,
+} from './interfaces/index.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import { compileNoteQuery } from '../utils/note-query.js';
+import { BearSchema } from '../utils/bear-schema.js';
+import { BY_MODIFIED, Page, PageOptions, queryPage, SortKey } from '../utils/pagination.js';
+
+// Stands in for the identifier Bear will assign when a dry run previews calls on a new note
+const NEW_NOTE_ID_PLACEHOLDER = 'NEW_NOTE_ID';
+
+const BY_TRASHED: SortKey = {
+  name: 'trashed',
+  expression: 'COALESCE(page.ZTRASHEDDATE, 0)',
+  direction: 'DESC',
+};
 
 /**
  * Service for managing Bear notes
- * Handles note CRUD operations and basic note queries
+ * Reads come straight from the database; writes go through Bear's API and are verified by
+ * polling the database until Bear has applied them
  */
 export class NoteService implements INoteService {
-  private databaseService: IDatabaseService;
-
-  constructor() {
-    this.databaseService = globalContainer.resolve<IDatabaseService>(
-      SERVICE_TOKENS.DATABASE_SERVICE
-    );
+  private database: IDatabaseService;
+  private bearApi: IBearApiService;
+  private tagService: ITagService;
+
+  constructor(container: ServiceContainer = globalContainer) {
+    this.database = container.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+    this.bearApi = container.resolve<IBearApiService>(SERVICE_TOKENS.BEAR_API_SERVICE);
+    this.tagService = container.resolve<ITagService>(SERVICE_TOKENS.TAG_SERVICE);
   }
 
   /**
    * Get all notes with optional filtering
    */
   async getNotes(options: NoteSearchOptions = {}): Promise<NoteWithTags[]> {
-    await this.databaseService.connect(true);
+    await this.database.connect(true);
 
     try {
-      let sql = `
-        SELECT n.*, GROUP_CONCAT(t.ZTITLE) as tag_names
-        FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
-        WHERE 1=1
-      `;
-
-      const params: SqlParameters = [];
-
-      // Apply filters
-      if (!options.includeTrashed) {
-        sql += ' AND n.ZTRASHED = 0';
-      }
-
-      if (!options.includeArchived) {
-        sql += ' AND n.ZARCHIVED = 0';
-      }
-
-      if (options.query) {
-        sql += ' AND (n.ZTITLE LIKE ? OR n.ZTEXT LIKE ?)';
-        const searchTerm = `%${options.query}%`;
-        params.push(searchTerm, searchTerm);
-      }
-
-      if (options.dateFrom) {
-        sql += ' AND n.ZCREATIONDATE >= ?';
-        params.push(CoreDataUtils.fromDate(options.dateFrom));
-      }
-
-      if (options.dateTo) {
-        sql += ' AND n.ZCREATIONDATE <= ?';
-        params.push(CoreDataUtils.fromDate(options.dateTo));
-      }
-
-      sql += ' GROUP BY n.Z_PK ORDER BY n.ZMODIFICATIONDATE DESC';
+      const query = this.notesQuery(options, await this.database.getBearSchema());
+      let sql = `${query.sql} ORDER BY n.ZMODIFICATIONDATE DESC`;
+      const params = query.params;
 
       if (options.limit) {
         sql += ' LIMIT ?';
@@ -84,34 +81,105 @@ export class NoteService implements INoteService {
         }
       }
 
-      const rows = await this.databaseService.query<BearNote & { tag_names: string }>(sql, params);
+      const rows = await this.database.query<BearNote & { tag_names: string }>(sql, params);
+      return rows.map(row => this.withTags(row));
+    } finally {
+      await this.database.disconnect();
+    }
+  }
 
-      return rows.map(row => ({
-        ...row,
-        tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
-      }));
+  /**
+   * Get one page of notes, newest modification first
+   */
+  async getNotesPage(
+    options: Omit<NoteSearchOptions, 'offset'> & PageOptions = {}
+  ): Promise<Page<NoteWithTags>> {
+    await this.database.connect(true);
+
+    try {
+      const query = this.notesQuery(options, await this.database.getBearSchema());
+      const page = await queryPage<BearNote & { tag_names: string }>(
+        this.database,
+        query.sql,
+        query.params,
+        BY_MODIFIED,
+        { limit: options.limit, cursor: options.cursor, countTotal: true }
+      );
+      return { ...page, items: page.items.map(row => this.withTags(row)) };
     } finally {
-      await this.databaseService.disconnect();
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * The filtered, grouped note query shared by getNotes and getNotesPage, without ORDER BY
+   */
+  private notesQuery(
+    options: NoteSearchOptions,
+    schema: BearSchema
+  ): { sql: string; params: SQLParameter[] } {
+    const { noteTags } = schema;
+    let sql = `
+      SELECT n.*, GROUP_CONCAT(t.ZTITLE) as tag_names
+      FROM ZSFNOTE n
+      LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+      LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+      WHERE 1=1
+    `;
+
+    const params: SQLParameter[] = [];
+    const search = options.query ? compileNoteQuery(options.query, schema) : null;
+
+    // Apply filters
+    if (!options.includeTrashed && !search?.mentionsTrashed) {
+      sql += ' AND n.ZTRASHED = 0';
+    }
+
+    if (!options.includeArchived && !search?.mentionsArchived) {
+      sql += ' AND n.ZARCHIVED = 0';
     }
+
+    if (search) {
+      sql += ` AND ${search.sql}`;
+      params.push(...search.params);
+    }
+
+    if (options.dateFrom) {
+      sql += ' AND n.ZCREATIONDATE >= ?';
+      params.push(CoreDataUtils.fromDate(options.dateFrom));
+    }
+
+    if (options.dateTo) {
+      sql += ' AND n.ZCREATIONDATE <= ?';
+      params.push(CoreDataUtils.fromDate(options.dateTo));
+    }
+
+    sql += ' GROUP BY n.Z_PK';
+    return { sql, params };
+  }
+
+  private withTags<T extends { tag_names: string | null }>(row: T): T & { tags: string[] } {
+    return { ...row, tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [] };
   }
 
   /**
    * Get a single note by ID
    */
   async getNoteById(id: number): Promise<NoteWithTags | null> {
-    await this.databaseService.connect(true);
+    await this.database.connect(true);
 
     try {
+      const { noteTags } = await this.database.getBearSchema();
       const sql = `
         SELECT n.*, GROUP_CONCAT(t.ZTITLE) as tag_names
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE n.Z_PK = ?
         GROUP BY n.Z_PK
       `;
 
-      const row = await this.databaseService.queryOne<BearNote & { tag_names: string }>(sql, [id]);
+      const row = await this.database.queryOne<BearNote & { tag_names: string }>(sql, [id]);
 
       if (!row) {
         return null;
@@ -122,7 +190,7 @@ export class NoteService implements INoteService {
         tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
       };
     } finally {
-      await this.databaseService.disconnect();
+      await this.database.disconnect();
     }
   }
 
@@ -130,22 +198,21 @@ export class NoteService implements INoteService {
    * Get a single note by title
    */
   async getNoteByTitle(title: string): Promise<NoteWithTags | null> {
-    await this.databaseService.connect(true);
+    await this.database.connect(true);
 
     try {
+      const { noteTags } = await this.database.getBearSchema();
       const sql = `
         SELECT n.*, GROUP_CONCAT(t.ZTITLE) as tag_names
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE n.ZTITLE = ? AND n.ZTRASHED = 0
         GROUP BY n.Z_PK
         LIMIT 1
       `;
 
-      const row = await this.databaseService.queryOne<BearNote & { tag_names: string }>(sql, [
-        title,
-      ]);
+      const row = await this.database.queryOne<BearNote & { tag_names: string }>(sql, [title]);
 
       if (!row) {
         return null;
@@ -156,19 +223,43 @@ export class NoteService implements INoteService {
         tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
       };
     } finally {
-      await this.databaseService.disconnect();
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Get a single note by Bear's unique identifier, the ID used in bear:// URLs
+   */
+  async getNoteByUniqueId(uniqueId: string): Promise<NoteWithTags | null> {
+    await this.database.connect(true);
+
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+      const sql = `
+        SELECT n.*, GROUP_CONCAT(t.ZTITLE) as tag_names
+        FROM ZSFNOTE n
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+        WHERE n.ZUNIQUEIDENTIFIER = ?
+        GROUP BY n.Z_PK
+      `;
+
+      const row = await this.database.queryOne<BearNote & { tag_names: string }>(sql, [uniqueId]);
+      return row ? this.withTags(row) : null;
+    } finally {
+      await this.database.disconnect();
     }
   }
 
   /**
-   * Get recent notes
+   * Get recent notes (last 10 by default)
    */
-  async getRecentNotes(limit: number = 10): Promise<NoteWithTags[]> {
-    return this.getNotes({ limit, includeTrashed: false, includeArchived: false });
+  async getRecentNotes(limit: number = 10, cursor?: string): Promise<Page<NoteWithTags>> {
+    return this.getNotesPage({ limit, cursor, includeArchived: false, includeTrashed: false });
   }
 
   /**
-   * Get note counts by status
+   * Get note count by status
    */
   async getNoteCountsByStatus(): Promise<{
     total: number;
@@ -177,40 +268,20 @@ export class NoteService implements INoteService {
     archived: number;
     encrypted: number;
   }> {
-    await this.databaseService.connect(true);
-
-    try {
-      const [totalNotes, activeNotes, trashedNotes, archivedNotes, encryptedNotes] =
-        await Promise.all([
-          this.databaseService.queryOne<{ count: number }>('SELECT COUNT(*) as count FROM ZSFNOTE'),
-          this.databaseService.queryOne<{ count: number }>(
-            'SELECT COUNT(*) as count FROM ZSFNOTE WHERE ZTRASHED = 0'
-          ),
-          this.databaseService.queryOne<{ count: number }>(
-            'SELECT COUNT(*) as count FROM ZSFNOTE WHERE ZTRASHED = 1'
-          ),
-          this.databaseService.queryOne<{ count: number }>(
-            'SELECT COUNT(*) as count FROM ZSFNOTE WHERE ZARCHIVED = 1'
-          ),
-          this.databaseService.queryOne<{ count: number }>(
-            'SELECT COUNT(*) as count FROM ZSFNOTE WHERE ZENCRYPTED = 1'
-          ),
-        ]);
-
-      return {
-        total: totalNotes?.count || 0,
-        active: activeNotes?.count || 0,
-        trashed: trashedNotes?.count || 0,
-        archived: archivedNotes?.count || 0,
-        encrypted: encryptedNotes?.count || 0,
-      };
-    } finally {
-      await this.databaseService.disconnect();
-    }
+    const stats = await this.database.getDatabaseStats();
+    return {
+      total: stats.totalNotes,
+      active: stats.activeNotes,
+      trashed: stats.trashedNotes,
+      archived: stats.archivedNotes,
+      encrypted: stats.encryptedNotes,
+    };
   }
 
   /**
-   * Create a new note
+   * Create a new note with title, content, and tags
+   * Note: Bear automatically extracts the title from the first line of content (markdown header).
+   * We don't set ZTITLE directly to avoid inconsistencies between database and Bear's display.
    */
   async createNote(options: {
     title: string;
@@ -218,79 +289,296 @@ export class NoteService implements INoteService {
     tags?: string[];
     isArchived?: boolean;
     isPinned?: boolean;
-  }): Promise<{ noteId: string; success: boolean; tagWarnings?: string[] }> {
-    if (!options.title?.trim()) {
-      throw new BearSafetyError('Note title is required and cannot be empty');
-    }
+    dryRun?: boolean;
+  }): Promise<{
+    noteId: number | null;
+    uniqueIdentifier: string | null;
+    success: boolean;
+    tagWarnings?: string[];
+    archiveStateUnchanged?: boolean;
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }> {
+    // Validate and sanitize tags first
+    const tagValidation = this.tagService.validateAndSanitizeTags(options.tags || []);
+    const sanitizedTags = tagValidation.sanitized;
+    const tagWarnings = tagValidation.warnings;
+
+    try {
+      // Build the content (tags will be handled via API parameter)
+      let noteContent = '';
+
+      // Add content only (no hashtags - API will handle tags)
+      if (options.content) {
+        noteContent = options.content;
+
+        // CRITICAL FIX: Remove duplicate title headers from content
+        // If content starts with a markdown header that matches the title, remove it
+        const titleHeaderPattern = new RegExp(
+          `^#\\s+${options.title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\n+`,
+          'i'
+        );
+        if (titleHeaderPattern.test(noteContent)) {
+          noteContent = noteContent.replace(titleHeaderPattern, '');
+        }
+      }
 
-    const noteUUID = this.generateUUID();
-    const content = options.content || '';
-    const now = CoreDataUtils.now();
+      // Create the Bear URL with proper encoding
+      const encodedTitle = encodeURIComponent(options.title);
+      const encodedContent = encodeURIComponent(noteContent);
+      const encodedTags = encodeURIComponent(sanitizedTags.join(','));
 
-    // Validate and sanitize tags
-    let tagWarnings: string[] = [];
-    if (options.tags && options.tags.length > 0) {
-      const tagValidation = this.validateAndSanitizeTags(options.tags);
-      options.tags = tagValidation.sanitized;
-      tagWarnings = tagValidation.warnings;
-    }
+      // Build Bear API URL
+      let bearURL = `bear://x-callback-url/create?title=${encodedTitle}`;
 
-    await this.databaseService.connect(false);
+      if (noteContent) {
+        bearURL += `&text=${encodedContent}`;
+      }
 
-    try {
-      // Insert the note
-      const insertNoteSql = `
-        INSERT INTO ZSFNOTE (
-          ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT, ZCREATIONDATE, ZMODIFICATIONDATE,
-          ZTRASHED, ZARCHIVED, ZPINNED, ZENCRYPTED, ZORDER, ZTRASHEDDATE, ZARCHIVEDDATE
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, NULL, NULL, ?)
-      `;
+      if (sanitizedTags.length > 0) {
+        bearURL += `&tags=${encodedTags}`;
+      }
 
-      const noteParams = [
-        noteUUID,
-        options.title,
-        content,
-        now,
-        now,
-        0, // ZTRASHED
-        options.isArchived ? 1 : 0, // ZARCHIVED
-        options.isPinned ? 1 : 0, // ZPINNED
-        options.isArchived ? now : null, // ZARCHIVEDDATE
-      ];
-
-      await this.databaseService.query(insertNoteSql, noteParams);
-
-      // Get the inserted note ID
-      const noteRow = await this.databaseService.queryOne<{ Z_PK: number }>(
-        'SELECT Z_PK FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?',
-        [noteUUID]
-      );
+      if (options.isPinned) {
+        bearURL += `&pin=yes`;
+      }
+
+      // Note: Bear API doesn't directly support creating archived notes
+      // We create the note normally and archive it once it has been saved
 
-      if (!noteRow) {
-        throw new BearDatabaseError('Failed to retrieve created note');
+      if (options.dryRun) {
+        const urls = [bearURL];
+        if (options.isArchived) {
+          urls.push(this.stateActionUrl('archive', NEW_NOTE_ID_PLACEHOLDER));
+        }
+
+        return {
+          noteId: null,
+          uniqueIdentifier: null,
+          success: true,
+          tagWarnings: tagWarnings.length > 0 ? tagWarnings : undefined,
+          preview: {
+            urls,
+            sanitizedTags,
+            tagWarnings,
+            diff: createUnifiedDiff(
+              '',
+              composeCreatedText(parseBearUrl(bearURL).params),
+              '/dev/null',
+              options.title
+            ),
+          },
+        };
       }
 
-      // Handle tags if provided
-      if (options.tags && options.tags.length > 0) {
-        await this.createNoteTags(noteRow.Z_PK, options.tags);
+      // Execute the Bear API call
+      // Allow a second of slack since Core Data timestamps and our clock may round differently
+      const requestedAt = CoreDataUtils.now() - 1;
+      await this.bearApi.dispatch(bearURL);
+
+      // The create action gives no identifier back, so look the new note up
+      const lookupStartedAt = Date.now();
+      const createdNote = await this.findCreatedNote(options.title, requestedAt);
+      const verification: WriteVerification = createdNote
+        ? await this.verifyNoteWrite(createdNote.Z_PK, requestedAt, {
+            text: noteContent,
+            tags: sanitizedTags,
+            pinned: options.isPinned ? true : undefined,
+          })
+        : {
+            status: 'pending',
+            elapsedMs: Date.now() - lookupStartedAt,
+            detail: 'The note has not appeared in the database yet; Bear may be closed or busy',
+          };
+
+      let archiveStateUnchanged: boolean | undefined;
+      if (options.isArchived && createdNote) {
+        const archived = await this.applyArchive(createdNote.Z_PK, createdNote.ZUNIQUEIDENTIFIER);
+        archiveStateUnchanged = archived ? undefined : true;
       }
 
       return {
-        noteId: noteUUID,
+        noteId: createdNote?.Z_PK ?? null,
+        uniqueIdentifier: createdNote?.ZUNIQUEIDENTIFIER ?? null,
         success: true,
         tagWarnings: tagWarnings.length > 0 ? tagWarnings : undefined,
+        archiveStateUnchanged,
+        verification,
       };
     } catch (error) {
-      throw new BearDatabaseError(
-        `Failed to create note: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw new Error(
+        `Failed to create note via sync-safe Bear API: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    }
+  }
+
+  /**
+   * Poll for a note Bear has just created
+   * The newest note with the expected title created since the request was sent is taken as
+   * the result. Returns null if Bear hasn't written it within the lookup timeout.
+   */
+  private async findCreatedNote(
+    title: string,
+    createdSince: number
+  ): Promise<{ Z_PK: number; ZUNIQUEIDENTIFIER: string } | null> {
+    return this.pollDatabase(() =>
+      this.database.queryOne<{ Z_PK: number; ZUNIQUEIDENTIFIER: string }>(
+        `
+        SELECT Z_PK, ZUNIQUEIDENTIFIER
+        FROM ZSFNOTE
+        WHERE ZTITLE = ? AND ZCREATIONDATE >= ? AND ZTRASHED = 0
+        ORDER BY ZCREATIONDATE DESC, Z_PK DESC
+        LIMIT 1
+      `,
+        [title, createdSince],
+        { cache: false }
+      )
+    );
+  }
+
+  /**
+   * Run a read-only check until it returns a value or the verification timeout passes
+   * Bear applies URL calls asynchronously, so results of a write show up after a short delay.
+   * The delay between checks backs off from the initial to the maximum poll interval.
+   */
+  private async pollDatabase<T>(check: () => Promise<T | null>): Promise<T | null> {
+    await this.database.connect(true);
+
+    try {
+      return await pollUntil(check, this.bearApi.verification);
     } finally {
-      await this.databaseService.disconnect();
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Wait for Bear to apply a write to a note and check the result
+   * The note must be modified after `modifiedAfter` and hold the requested text, tags and pin
+   * state. A change that never matches is reported as failed; no change at all as pending.
+   */
+  private async verifyNoteWrite(
+    noteId: number,
+    modifiedAfter: number,
+    expected: { text?: string; tags?: string[]; pinned?: boolean }
+  ): Promise<WriteVerification> {
+    const startedAt = Date.now();
+    let mismatch: string | undefined;
+
+    const outcome = await this.pollDatabase<WriteVerification>(async () => {
+      const note = await this.database.queryOne<{
+        ZMODIFICATIONDATE: number;
+        ZTEXT: string | null;
+        ZPINNED: number;
+      }>('SELECT ZMODIFICATIONDATE, ZTEXT, ZPINNED FROM ZSFNOTE WHERE Z_PK = ?', [noteId], {
+        cache: false,
+      });
+
+      if (!note) {
+        return {
+          status: 'failed',
+          elapsedMs: Date.now() - startedAt,
+          detail: `Note ${noteId} no longer exists`,
+        };
+      }
+
+      if (note.ZMODIFICATIONDATE <= modifiedAfter) {
+        return null;
+      }
+
+      // Bear parses tags after saving the text, so keep looking until everything lines up
+      mismatch = await this.findWriteMismatch(noteId, note, expected);
+      return mismatch ? null : { status: 'verified', elapsedMs: Date.now() - startedAt };
+    });
+
+    return (
+      outcome ?? {
+        status: mismatch ? 'failed' : 'pending',
+        elapsedMs: Date.now() - startedAt,
+        detail: mismatch ?? 'Bear has not applied the change yet; it may be closed or busy',
+      }
+    );
+  }
+
+  /**
+   * Describe how a note differs from what a write asked for, or undefined if it matches
+   */
+  private async findWriteMismatch(
+    noteId: number,
+    note: { ZTEXT: string | null; ZPINNED: number },
+    expected: { text?: string; tags?: string[]; pinned?: boolean }
+  ): Promise<string | undefined> {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+    if (expected.text && !normalize(note.ZTEXT || '').includes(normalize(expected.text))) {
+      return 'Note content does not contain the requested text';
+    }
+
+    if (expected.pinned !== undefined && (note.ZPINNED === 1) !== expected.pinned) {
+      return expected.pinned ? 'Note is not pinned' : 'Note is still pinned';
+    }
+
+    if (expected.tags && expected.tags.length > 0) {
+      const { noteTags } = await this.database.getBearSchema();
+      const tags = await this.database.query<{ ZTITLE: string }>(
+        `
+        SELECT t.ZTITLE
+        FROM ZSFNOTETAG t
+        INNER JOIN ${noteTags.table} nt ON t.Z_PK = nt.${noteTags.tagColumn}
+        WHERE nt.${noteTags.noteColumn} = ?
+      `,
+        [noteId],
+        { cache: false }
+      );
+      const present = new Set(tags.map(tag => tag.ZTITLE.toLowerCase()));
+      const missing = expected.tags.filter(tag => !present.has(tag.toLowerCase()));
+      if (missing.length > 0) {
+        return `Note is missing tags: ${missing.join(', ')}`;
+      }
     }
+
+    return undefined;
+  }
+
+  /**
+   * Archive a note through Bear's archive action
+   * Returns whether ZARCHIVED was set within the lookup timeout
+   */
+  private async applyArchive(noteId: number, uniqueIdentifier: string): Promise<boolean> {
+    return this.applyStateAction(noteId, uniqueIdentifier, 'archive', 'ZARCHIVED', true);
+  }
+
+  private stateActionUrl(action: 'archive' | 'trash', uniqueIdentifier: string): string {
+    return `bear://x-callback-url/${action}?id=${encodeURIComponent(uniqueIdentifier)}&show_window=no`;
+  }
+
+  /**
+   * Send a state-changing Bear action for a note and wait for the flag column to follow
+   */
+  private async applyStateAction(
+    noteId: number,
+    uniqueIdentifier: string,
+    action: 'archive' | 'trash',
+    column: 'ZARCHIVED' | 'ZTRASHED',
+    expected: boolean
+  ): Promise<boolean> {
+    await this.bearApi.dispatch(this.stateActionUrl(action, uniqueIdentifier));
+
+    const confirmed = await this.pollDatabase(async () => {
+      const note = await this.database.queryOne<Record<string, number>>(
+        `SELECT ${column} FROM ZSFNOTE WHERE Z_PK = ?`,
+        [noteId],
+        { cache: false }
+      );
+      return note && note[column] === (expected ? 1 : 0) ? true : null;
+    });
+
+    return confirmed !== null;
   }
 
   /**
    * Update an existing note
+   * Note: Title changes are handled by updating the content's first line (markdown header).
+   * We clear ZTITLE so Bear will re-extract it from the updated content.
    */
   async updateNote(
     noteId: number,
@@ -301,94 +589,344 @@ export class NoteService implements INoteService {
       isArchived?: boolean;
       isPinned?: boolean;
       expectedModificationDate?: Date;
+      mode?: NoteEditMode;
+      header?: string;
+      dryRun?: boolean;
+    }
+  ): Promise<{
+    success: boolean;
+    conflictDetected?: boolean;
+    archiveStateUnchanged?: boolean;
+    tagWarnings?: string[];
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }> {
+    const mode = options.mode || 'replace';
+    if ((mode === 'append' || mode === 'prepend') && options.content === undefined) {
+      throw new Error(`Content is required for ${mode} mode`);
+    }
+    if (options.header !== undefined && mode === 'replace_all') {
+      throw new Error('A target header cannot be combined with replace_all mode');
+    }
+    if (options.header !== undefined && options.content === undefined) {
+      throw new Error('Content is required when a target header is given');
     }
-  ): Promise<{ success: boolean; conflictDetected?: boolean; tagWarnings?: string[] }> {
-    await this.databaseService.connect(false);
 
-    try {
-      // First, get the current note to check for conflicts
-      const currentNote = await this.databaseService.queryOne<BearNote>(
-        'SELECT * FROM ZSFNOTE WHERE Z_PK = ?',
-        [noteId]
-      );
+    // Validate and sanitize tags if provided
+    let sanitizedTags: string[] | undefined;
+    let tagWarnings: string[] = [];
 
-      if (!currentNote) {
-        throw new BearDatabaseError(`Note with ID ${noteId} not found`);
-      }
+    if (options.tags !== undefined) {
+      const tagValidation = this.tagService.validateAndSanitizeTags(options.tags);
+      sanitizedTags = tagValidation.sanitized;
+      tagWarnings = tagValidation.warnings;
+    }
+
+    try {
+      // First, read the current note from database to get ZUNIQUEIDENTIFIER
+      const currentNote = await this.getNoteForUpdate(noteId);
 
-      // Check for modification conflicts if expected date is provided
+      // Conflict detection
       if (options.expectedModificationDate) {
         const currentModDate = CoreDataUtils.toDate(currentNote.ZMODIFICATIONDATE);
-        if (currentModDate.getTime() !== options.expectedModificationDate.getTime()) {
-          return { success: false, conflictDetected: true };
+        if (
+          Math.abs(currentModDate.getTime() - options.expectedModificationDate.getTime()) > 1000
+        ) {
+          return {
+            success: false,
+            conflictDetected: true,
+            tagWarnings: tagWarnings.length > 0 ? tagWarnings : undefined,
+          };
         }
       }
 
-      const now = CoreDataUtils.now();
-      const updateFields: string[] = [];
-      const updateParams: SqlParameters = [];
+      if (
+        options.header !== undefined &&
+        !this.hasHeader(currentNote.ZTEXT || '', options.header)
+      ) {
+        throw new Error(`Header "${options.header}" not found in note ${noteId}`);
+      }
 
-      // Build dynamic update query
-      if (options.title !== undefined) {
-        updateFields.push('ZTITLE = ?');
-        updateParams.push(options.title);
+      // Bear's URL scheme can archive a note but has no action to bring one back
+      if (options.isArchived === false && currentNote.ZARCHIVED === 1) {
+        throw new Error(
+          `Bear's URL scheme cannot unarchive notes; unarchive note ${noteId} in Bear instead`
+        );
       }
 
-      if (options.content !== undefined) {
-        updateFields.push('ZTEXT = ?');
-        updateParams.push(options.content);
+      // Archive-only updates don't need to touch the note's text
+      const hasTextChanges =
+        options.title !== undefined ||
+        options.content !== undefined ||
+        options.tags !== undefined ||
+        options.isPinned !== undefined;
+
+      if (!hasTextChanges) {
+        if (options.dryRun) {
+          return this.previewUpdate(
+            currentNote,
+            [],
+            options.isArchived,
+            sanitizedTags,
+            tagWarnings
+          );
+        }
+        return this.updateArchiveState(noteId, currentNote, options.isArchived, tagWarnings);
       }
 
-      if (options.isArchived !== undefined) {
-        updateFields.push('ZARCHIVED = ?', 'ZARCHIVEDDATE = ?');
-        updateParams.push(options.isArchived ? 1 : 0, options.isArchived ? now : null);
+      // Use Bear API for sync-safe updates
+      // Build the new content
+      let noteContent = '';
+
+      // Append, prepend, section and whole-note edits send the content exactly as given
+      if (mode !== 'replace' || options.header !== undefined) {
+        noteContent = options.content || '';
+      } else if (options.title !== undefined || options.content !== undefined) {
+        // Handle title and content updates
+        if (options.content !== undefined) {
+          noteContent = options.content;
+
+          // CRITICAL FIX: Remove duplicate title headers from content during updates
+          // This prevents duplicate titles when Claude sends content with markdown headers
+          const titleToCheck = options.title !== undefined ? options.title : currentNote.ZTITLE;
+          if (titleToCheck) {
+            const titleHeaderPattern = new RegExp(
+              `^#\\s+${titleToCheck.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\n+`,
+              'i'
+            );
+            if (titleHeaderPattern.test(noteContent)) {
+              noteContent = noteContent.replace(titleHeaderPattern, '');
+            }
+          }
+        } else {
+          // If only title is being updated, preserve existing content (minus old title)
+          const existingContent = currentNote.ZTEXT || '';
+          const contentWithoutTitle = existingContent.replace(/^# .+?\n\n?/m, '');
+          noteContent = contentWithoutTitle;
+        }
+      } else {
+        // No content/title updates, preserve existing content
+        noteContent = currentNote.ZTEXT || '';
+
+        // CRITICAL FIX: Even for tags-only updates, remove duplicate title headers
+        // This prevents duplicate titles when Claude adds tags to notes with existing headers
+        if (currentNote.ZTITLE) {
+          const titleHeaderPattern = new RegExp(
+            `^#\\s+${currentNote.ZTITLE.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\n+`,
+            'i'
+          );
+          if (titleHeaderPattern.test(noteContent)) {
+            noteContent = noteContent.replace(titleHeaderPattern, '');
+          }
+        }
       }
 
-      if (options.isPinned !== undefined) {
-        updateFields.push('ZPINNED = ?');
-        updateParams.push(options.isPinned ? 1 : 0);
+      // Note: Tags will be handled via API parameter, not embedded in content
+
+      // Create the Bear URL with proper encoding
+      const encodedId = encodeURIComponent(currentNote.ZUNIQUEIDENTIFIER);
+      const encodedContent = encodeURIComponent(noteContent);
+
+      // Build Bear API URL for updating
+      let bearURL = `bear://x-callback-url/add-text?id=${encodedId}&mode=${mode}&text=${encodedContent}`;
+
+      if (options.header !== undefined) {
+        bearURL += `&header=${encodeURIComponent(options.header)}`;
       }
 
-      // Always update modification date
-      updateFields.push('ZMODIFICATIONDATE = ?');
-      updateParams.push(now);
+      if (mode === 'append') {
+        bearURL += '&new_line=yes';
+      }
 
-      // Add WHERE clause parameter
-      updateParams.push(noteId);
+      if (options.title !== undefined) {
+        const encodedTitle = encodeURIComponent(options.title);
+        bearURL += `&title=${encodedTitle}`;
+      }
 
-      // Execute update if there are fields to update
-      if (updateFields.length > 1) {
-        // > 1 because we always have ZMODIFICATIONDATE
-        const updateSql = `UPDATE ZSFNOTE SET ${updateFields.join(', ')} WHERE Z_PK = ?`;
-        await this.databaseService.query(updateSql, updateParams);
+      if (sanitizedTags !== undefined && sanitizedTags.length > 0) {
+        const encodedTags = encodeURIComponent(sanitizedTags.join(','));
+        bearURL += `&tags=${encodedTags}`;
       }
 
-      // Handle tag updates
-      let tagWarnings: string[] = [];
-      if (options.tags !== undefined) {
-        const tagValidation = this.validateAndSanitizeTags(options.tags);
-        tagWarnings = tagValidation.warnings;
+      if (options.isPinned !== undefined) {
+        bearURL += `&pin=${options.isPinned ? 'yes' : 'no'}`;
+      }
 
-        // Remove existing tags
-        await this.databaseService.query('DELETE FROM Z_5TAGS WHERE Z_5NOTES = ?', [noteId]);
+      // Note: Bear API doesn't support archiving in add-text, so it's a separate call
 
-        // Add new tags
-        if (tagValidation.sanitized.length > 0) {
-          await this.createNoteTags(noteId, tagValidation.sanitized);
-        }
+      if (options.dryRun) {
+        return this.previewUpdate(
+          currentNote,
+          [bearURL],
+          options.isArchived,
+          sanitizedTags,
+          tagWarnings
+        );
       }
 
-      return {
-        success: true,
-        tagWarnings: tagWarnings.length > 0 ? tagWarnings : undefined,
-      };
+      // Execute the Bear API call
+      await this.bearApi.dispatch(bearURL);
+
+      const verification = await this.verifyNoteWrite(noteId, currentNote.ZMODIFICATIONDATE, {
+        text: parseBearUrl(bearURL).params.text,
+        tags: sanitizedTags,
+        pinned: options.isPinned,
+      });
+
+      const archiveResult = await this.updateArchiveState(
+        noteId,
+        currentNote,
+        options.isArchived,
+        tagWarnings
+      );
+
+      return { ...archiveResult, verification };
     } catch (error) {
-      throw new BearDatabaseError(
-        `Failed to update note: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw new Error(
+        `Failed to update note via sync-safe Bear API: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Describe an update without sending it: the add-text call (if any), the archive call it
+   * would need, and the note text Bear would end up with
+   */
+  private previewUpdate(
+    note: { ZUNIQUEIDENTIFIER: string; ZTEXT: string; ZTITLE: string; ZARCHIVED: number },
+    textUrls: string[],
+    isArchived: boolean | undefined,
+    sanitizedTags: string[] | undefined,
+    tagWarnings: string[]
+  ): { success: boolean; tagWarnings?: string[]; preview: WritePreview } {
+    const urls = [...textUrls];
+    if (isArchived && note.ZARCHIVED !== 1) {
+      urls.push(this.stateActionUrl('archive', note.ZUNIQUEIDENTIFIER));
+    }
+
+    const current = note.ZTEXT || '';
+    const updated = textUrls.reduce(
+      (text, url) => applyAddText(text, parseBearUrl(url).params),
+      current
+    );
+
+    return {
+      success: true,
+      tagWarnings: tagWarnings.length > 0 ? tagWarnings : undefined,
+      preview: {
+        urls,
+        sanitizedTags,
+        tagWarnings,
+        diff: createUnifiedDiff(current, updated, note.ZTITLE, note.ZTITLE),
+      },
+    };
+  }
+
+  /**
+   * Check whether a note contains a markdown heading with the given text (any level)
+   */
+  private hasHeader(text: string, header: string): boolean {
+    const target = header.trim().toLowerCase();
+    return text.split('\n').some(
+      line =>
+        /^#{1,6}\s/.test(line) &&
+        line
+          .replace(/^#+\s*/, '')
+          .trim()
+          .toLowerCase() === target
+    );
+  }
+
+  /**
+   * Apply the archive part of an update, skipping the call when the note is already archived
+   * updateNote has already turned down unarchiving, which Bear's URL scheme can't do
+   */
+  private async updateArchiveState(
+    noteId: number,
+    note: { ZUNIQUEIDENTIFIER: string; ZARCHIVED: number },
+    isArchived: boolean | undefined,
+    tagWarnings: string[]
+  ): Promise<{ success: boolean; archiveStateUnchanged?: boolean; tagWarnings?: string[] }> {
+    const warnings = tagWarnings.length > 0 ? tagWarnings : undefined;
+
+    if (!isArchived || note.ZARCHIVED === 1) {
+      return { success: true, tagWarnings: warnings };
+    }
+
+    const applied = await this.applyArchive(noteId, note.ZUNIQUEIDENTIFIER);
+
+    return applied
+      ? { success: true, tagWarnings: warnings }
+      : { success: false, archiveStateUnchanged: true, tagWarnings: warnings };
+  }
+
+  /**
+   * Edit a note by patching its current text with find/replace hunks or a unified diff
+   * The patched text is sent back through add-text replace_all, guarded by the modification date
+   * it was read at so edits made in between are never overwritten
+   */
+  async editNote(
+    noteId: number,
+    patch: { edits?: TextReplacement[]; diff?: string },
+    expectedModificationDate?: Date,
+    dryRun: boolean = false
+  ): Promise<{
+    success: boolean;
+    conflictDetected?: boolean;
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }> {
+    if ((patch.edits === undefined) === (patch.diff === undefined)) {
+      throw new Error('Provide either edits or diff, but not both');
+    }
+
+    let note: { ZTEXT: string | null; ZMODIFICATIONDATE: number; ZENCRYPTED: number } | null;
+    await this.database.connect(true);
+    try {
+      note = await this.database.queryOne(
+        'SELECT ZTEXT, ZMODIFICATIONDATE, ZENCRYPTED FROM ZSFNOTE WHERE Z_PK = ? AND ZTRASHED = 0',
+        [noteId]
       );
     } finally {
-      await this.databaseService.disconnect();
+      await this.database.disconnect();
+    }
+
+    if (!note) {
+      throw new Error(`Note with ID ${noteId} not found or is trashed`);
+    }
+    if (note.ZENCRYPTED === 1 || note.ZTEXT === null) {
+      throw new Error(`Note with ID ${noteId} is encrypted and cannot be edited`);
+    }
+
+    const readAt = CoreDataUtils.toDate(note.ZMODIFICATIONDATE);
+    if (
+      expectedModificationDate &&
+      Math.abs(readAt.getTime() - expectedModificationDate.getTime()) > 1000
+    ) {
+      return { success: false, conflictDetected: true };
     }
+
+    const patched = patch.edits
+      ? applyReplacements(note.ZTEXT, patch.edits)
+      : applyUnifiedDiff(note.ZTEXT, patch.diff!);
+
+    if (patched === note.ZTEXT) {
+      throw new Error('The edits leave the note unchanged');
+    }
+
+    const result = await this.updateNote(noteId, {
+      content: patched,
+      mode: 'replace_all',
+      expectedModificationDate: readAt,
+      dryRun,
+    });
+
+    return {
+      success: result.success,
+      conflictDetected: result.conflictDetected,
+      preview: result.preview,
+      verification: result.verification,
+    };
   }
 
   /**
@@ -399,169 +937,208 @@ export class NoteService implements INoteService {
     options: {
       titleSuffix?: string;
       copyTags?: boolean;
+      dryRun?: boolean;
     } = {}
-  ): Promise<{ newNoteId: string; success: boolean }> {
-    await this.databaseService.connect(false);
-
+  ): Promise<{
+    newNoteId: number | null;
+    success: boolean;
+    preview?: WritePreview;
+    verification?: WriteVerification;
+  }> {
     try {
-      // Get the original note
-      const originalNote = await this.databaseService.queryOne<BearNote>(
-        'SELECT * FROM ZSFNOTE WHERE Z_PK = ?',
-        [noteId]
+      const { sourceNote, tags } = await this.getNoteForDuplicate(
+        noteId,
+        options.copyTags !== false
       );
 
-      if (!originalNote) {
-        throw new BearDatabaseError(`Note with ID ${noteId} not found`);
-      }
-
-      // Get original note tags if copying tags
-      let originalTags: string[] = [];
-      if (options.copyTags) {
-        const tagRows = await this.databaseService.query<{ ZTITLE: string }>(
-          `SELECT t.ZTITLE 
-           FROM ZSFNOTETAG t
-           JOIN Z_5TAGS nt ON t.Z_PK = nt.Z_13TAGS
-           WHERE nt.Z_5NOTES = ?`,
-          [noteId]
-        );
-        originalTags = tagRows.map(row => row.ZTITLE);
-      }
-
-      // Create the duplicate
-      const suffix = options.titleSuffix || ' Copy';
-      const duplicateTitle = originalNote.ZTITLE
-        ? `${originalNote.ZTITLE}${suffix}`
-        : `Untitled${suffix}`;
+      // Create the duplicate note
+      const newTitle = sourceNote.ZTITLE + (options.titleSuffix || ' (Copy)');
 
       const result = await this.createNote({
-        title: duplicateTitle,
-        content: originalNote.ZTEXT || undefined,
-        tags: originalTags.length > 0 ? originalTags : undefined,
-        isArchived: originalNote.ZARCHIVED === 1,
-        isPinned: originalNote.ZPINNED === 1,
+        title: newTitle,
+        content: sourceNote.ZTEXT || '',
+        tags,
+        isArchived: sourceNote.ZARCHIVED === 1,
+        isPinned: sourceNote.ZPINNED === 1,
+        dryRun: options.dryRun,
       });
 
       return {
         newNoteId: result.noteId,
         success: result.success,
+        preview: result.preview,
+        verification: result.verification,
       };
     } catch (error) {
-      throw new BearDatabaseError(
+      throw new Error(
         `Failed to duplicate note: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
-    } finally {
-      await this.databaseService.disconnect();
     }
   }
 
   /**
-   * Archive or unarchive a note
+   * The note an update starts from; missing or trashed notes are an error
    */
-  async archiveNote(noteId: number, archived: boolean): Promise<{ success: boolean }> {
-    await this.databaseService.connect(false);
-
+  private async getNoteForUpdate(noteId: number): Promise<{
+    ZUNIQUEIDENTIFIER: string;
+    ZMODIFICATIONDATE: number;
+    ZTITLE: string;
+    ZTEXT: string;
+    ZARCHIVED: number;
+  }> {
+    await this.database.connect(true);
     try {
-      const now = CoreDataUtils.now();
-      const sql = `
-        UPDATE ZSFNOTE 
-        SET ZARCHIVED = ?, ZARCHIVEDDATE = ?, ZMODIFICATIONDATE = ?
-        WHERE Z_PK = ?
-      `;
-
-      await this.databaseService.query(sql, [archived ? 1 : 0, archived ? now : null, now, noteId]);
-
-      return { success: true };
-    } catch (error) {
-      throw new BearDatabaseError(
-        `Failed to ${archived ? 'archive' : 'unarchive'} note: ${error instanceof Error ? error.message : 'Unknown error'}`
+      const [note] = await this.database.query<{
+        ZUNIQUEIDENTIFIER: string;
+        ZMODIFICATIONDATE: number;
+        ZTITLE: string;
+        ZTEXT: string;
+        ZARCHIVED: number;
+      }>(
+        `
+        SELECT ZUNIQUEIDENTIFIER, ZMODIFICATIONDATE, ZTITLE, ZTEXT, ZARCHIVED
+        FROM ZSFNOTE 
+        WHERE Z_PK = ? AND ZTRASHED = 0
+      `,
+        [noteId]
       );
+
+      if (!note) {
+        throw new Error(`Note with ID ${noteId} not found or is trashed`);
+      }
+      return note;
     } finally {
-      await this.databaseService.disconnect();
+      await this.database.disconnect();
     }
   }
 
   /**
-   * Private helper methods
+   * The note a duplicate is made from, with its tags when they are copied
    */
-  private generateUUID(): string {
-    return uuidv4().toUpperCase();
-  }
-
-  private validateAndSanitizeTags(tags: string[]): {
-    sanitized: string[];
-    warnings: string[];
-  } {
-    const sanitized: string[] = [];
-    const warnings: string[] = [];
-    const seen = new Set<string>();
-
-    for (const tag of tags) {
-      if (!tag || typeof tag !== 'string') {
-        warnings.push(`Invalid tag: ${tag}`);
-        continue;
-      }
-
-      const sanitizedTag = this.sanitizeTagName(tag.trim());
+  private async getNoteForDuplicate(
+    noteId: number,
+    copyTags: boolean
+  ): Promise<{ sourceNote: BearNote; tags: string[] }> {
+    await this.database.connect(true);
+    try {
+      const { noteTags } = await this.database.getBearSchema();
 
-      if (!sanitizedTag) {
-        warnings.push(`Tag "${tag}" resulted in empty string after sanitization`);
-        continue;
-      }
+      // Get the source note
+      const [sourceNote] = await this.database.query<BearNote>(
+        `
+        SELECT * FROM ZSFNOTE WHERE Z_PK = ? AND ZTRASHED = 0
+      `,
+        [noteId]
+      );
 
-      if (sanitizedTag.length > 100) {
-        warnings.push(`Tag "${tag}" is too long (max 100 characters)`);
-        continue;
+      if (!sourceNote) {
+        throw new Error(`Note with ID ${noteId} not found or is trashed`);
       }
 
-      if (seen.has(sanitizedTag.toLowerCase())) {
-        warnings.push(`Duplicate tag: ${sanitizedTag}`);
-        continue;
+      // Get tags if copying them
+      let tags: string[] = [];
+      if (copyTags) {
+        const tagResults = await this.database.query<{ ZTITLE: string }>(
+          `
+          SELECT t.ZTITLE
+          FROM ZSFNOTETAG t
+          INNER JOIN ${noteTags.table} nt ON t.Z_PK = nt.${noteTags.tagColumn}
+          WHERE nt.${noteTags.noteColumn} = ?
+        `,
+          [noteId]
+        );
+        tags = tagResults.map(t => t.ZTITLE);
       }
 
-      seen.add(sanitizedTag.toLowerCase());
-      sanitized.push(sanitizedTag);
+      return { sourceNote, tags };
+    } finally {
+      await this.database.disconnect();
     }
+  }
 
-    return { sanitized, warnings };
+  /**
+   * Archive a note using sync-safe Bear API
+   * Unarchiving fails for archived notes, since Bear's URL scheme has no action for it
+   */
+  async archiveNote(
+    noteId: number,
+    archived: boolean
+  ): Promise<{ success: boolean; archiveStateUnchanged?: boolean }> {
+    const result = await this.updateNote(noteId, {
+      isArchived: archived,
+    });
+
+    return {
+      success: result.success,
+      archiveStateUnchanged: result.archiveStateUnchanged,
+    };
   }
 
-  private sanitizeTagName(tagName: string): string {
-    return tagName
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
+  /**
+   * Move a note to Bear's trash using sync-safe Bear API
+   */
+  async trashNote(noteId: number): Promise<{ success: boolean; trashStateUnchanged?: boolean }> {
+    const note = await this.getNoteForStateChange(noteId);
+    if (!note) {
+      throw new Error(`Note with ID ${noteId} not found or is already trashed`);
+    }
+
+    const applied = await this.applyStateAction(
+      noteId,
+      note.ZUNIQUEIDENTIFIER,
+      'trash',
+      'ZTRASHED',
+      true
+    );
+
+    return applied ? { success: true } : { success: false, trashStateUnchanged: true };
   }
 
-  private async createNoteTags(noteId: number, tags: string[]): Promise<void> {
-    for (const tagName of tags) {
-      // Find or create tag
-      let tag = await this.databaseService.queryOne<{ Z_PK: number }>(
-        'SELECT Z_PK FROM ZSFNOTETAG WHERE ZTITLE = ?',
-        [tagName]
-      );
+  /**
+   * Get notes currently in Bear's trash, most recently trashed first
+   */
+  async getTrashedNotes(limit: number = 20, cursor?: string): Promise<Page<NoteWithTags>> {
+    await this.database.connect(true);
 
-      if (!tag) {
-        // Create new tag
-        const now = CoreDataUtils.now();
-        await this.databaseService.query(
-          `INSERT INTO ZSFNOTETAG (ZTITLE, ZCREATIONDATE, ZMODIFICATIONDATE, ZPARENT, ZORDER)
-           VALUES (?, ?, ?, NULL, NULL)`,
-          [tagName, now, now]
-        );
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+      const sql = `
+        SELECT n.*, GROUP_CONCAT(t.ZTITLE) as tag_names
+        FROM ZSFNOTE n
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+        WHERE n.ZTRASHED = 1
+        GROUP BY n.Z_PK
+      `;
 
-        tag = await this.databaseService.queryOne<{ Z_PK: number }>(
-          'SELECT Z_PK FROM ZSFNOTETAG WHERE ZTITLE = ?',
-          [tagName]
-        );
-      }
+      const page = await queryPage<BearNote & { tag_names: string }>(
+        this.database,
+        sql,
+        [],
+        BY_TRASHED,
+        { limit, cursor, countTotal: true }
+      );
+      return { ...page, items: page.items.map(row => this.withTags(row)) };
+    } finally {
+      await this.database.disconnect();
+    }
+  }
 
-      if (tag) {
-        // Create note-tag relationship
-        await this.databaseService.query(
-          'INSERT OR IGNORE INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (?, ?)',
-          [noteId, tag.Z_PK]
-        );
-      }
+  /**
+   * Look up the identifier needed for a state change, for notes that aren't trashed
+   */
+  private async getNoteForStateChange(
+    noteId: number
+  ): Promise<{ ZUNIQUEIDENTIFIER: string } | null> {
+    await this.database.connect(true);
+
+    try {
+      return await this.database.queryOne<{ ZUNIQUEIDENTIFIER: string }>(
+        'SELECT ZUNIQUEIDENTIFIER FROM ZSFNOTE WHERE Z_PK = ? AND ZTRASHED = 0',
+        [noteId]
+      );
+    } finally {
+      await this.database.disconnect();
     }
   }
 }
@@ -1,5 +1,6 @@
 import { getConfig } from '../config/index.js';
-import { LoggingService } from './logging-service.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import { ILoggingService, SERVICE_TOKENS } from './interfaces/index.js';
 // Removed unused import PerformanceMetrics
 
 export interface QueryPerformance {
@@ -64,12 +65,23 @@ export class PerformanceService implements IPerformanceService {
   private readonly maxHistorySize = 10000;
   private readonly slowQueryThreshold = 1000; // 1 second
   private metricsInterval?: ReturnType<typeof setInterval>;
+  private container: ServiceContainer;
 
-  constructor() {
+  constructor(container: ServiceContainer = globalContainer) {
+    this.container = container;
     // Start periodic system metrics collection
     this.startMetricsCollection();
   }
 
+  /**
+   * The container's logger, resolved on first use; without one nothing is logged
+   */
+  private logger(): ILoggingService | undefined {
+    return this.container.isRegistered(SERVICE_TOKENS.LOGGING_SERVICE)
+      ? this.container.resolve<ILoggingService>(SERVICE_TOKENS.LOGGING_SERVICE)
+      : undefined;
+  }
+
   /**
    * Record a database query performance
    */
@@ -83,7 +95,7 @@ export class PerformanceService implements IPerformanceService {
 
     // Log slow queries
     if (query.executionTime > this.slowQueryThreshold) {
-      console.warn(`Slow query detected (${query.executionTime}ms):`, {
+      this.logger()?.warn(`Slow query detected (${query.executionTime}ms)`, {
         sql: query.sql.substring(0, 100) + (query.sql.length > 100 ? '...' : ''),
         executionTime: query.executionTime,
         resultCount: query.resultCount,
@@ -314,10 +326,11 @@ export class PerformanceService implements IPerformanceService {
     // Collect metrics every 30 seconds
     this.metricsInterval = setInterval(() => {
       this.recordSystemMetrics().catch(error => {
-        const logger = new LoggingService();
-        logger.error('Error collecting system metrics:', error);
+        this.logger()?.error('Error collecting system metrics:', error);
       });
     }, 30000);
+    // Collection alone shouldn't keep the process running
+    this.metricsInterval.unref();
   }
 
   /**
@@ -365,12 +378,13 @@ export class PerformanceService implements IPerformanceService {
 
         // Log performance for debugging
         if (executionTime > 1000 || error) {
-          const logger = new LoggingService();
-          logger.info(`Performance: ${operationName} took ${executionTime}ms`, {
-            resultCount,
-            error: error?.message,
-            args: args.length,
-          });
+          performanceService
+            ?.logger()
+            ?.info(`Performance: ${operationName} took ${executionTime}ms`, {
+              resultCount,
+              error: error?.message,
+              args: args.length,
+            });
         }
       }
     }) as T;
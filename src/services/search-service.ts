@@ -1,8 +1,82 @@
-import { ISearchService, IDatabaseService, SERVICE_TOKENS } from './interfaces/index.js';
-import { globalContainer } from './container/service-container.js';
-import { NoteWithTags, NoteSearchOptions, DatabaseSearchResult } from '../types/bear.js';
+import {
+  ISearchService,
+  IDatabaseService,
+  INoteService,
+  SERVICE_TOKENS,
+} from './interfaces/index.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import {
+  BearNote,
+  NoteWithTags,
+  NoteSearchOptions,
+  DatabaseSearchResult,
+  RegexLineMatch,
+  RegexSearchResult,
+} from '../types/bear.js';
 import { CoreDataUtils } from '../utils/database.js';
 import { SqlParameters } from '../types/database.js';
+import { createRegexMatcher, RegexTimeoutError } from '../utils/regex-search.js';
+import { FullTextIndex, FullTextSearchResult } from '../utils/fulltext-index.js';
+import { VectorIndex } from '../utils/vector-index.js';
+import { config } from '../config/index.js';
+import { compileNoteQuery } from '../utils/note-query.js';
+import {
+  BY_MODIFIED,
+  CursorPosition,
+  decodeCursor,
+  encodeCursor,
+  Page,
+  pageArray,
+  PageOptions,
+  queryPage,
+  SortKey,
+} from '../utils/pagination.js';
+
+// Notes read per query while scanning for regex matches
+const REGEX_BATCH_SIZE = 100;
+const REGEX_MAX_MATCHES_PER_NOTE = 50;
+const REGEX_NOTE_TIMEOUT_MS = 250;
+// A scan returns what it has found so far past this time or this many timed-out notes
+const REGEX_SCAN_TIMEOUT_MS = 5000;
+const REGEX_MAX_TIMED_OUT_NOTES = 5;
+// Cosine similarity below which notes aren't reported as related by content
+const RELATED_MIN_SIMILARITY = 0.05;
+
+// The LIKE fallback of searchNotesFullText ranks in memory, best first
+const BY_RELEVANCE: SortKey = {
+  name: 'relevance',
+  expression: 'page.relevanceScore',
+  direction: 'DESC',
+};
+
+const ADVANCED_SORT_EXPRESSIONS = {
+  created: 'COALESCE(page.ZCREATIONDATE, 0)',
+  modified: 'COALESCE(page.ZMODIFICATIONDATE, 0)',
+  title: "COALESCE(page.ZTITLE, '')",
+  size: 'COALESCE(page.content_length, 0)',
+};
+
+/**
+ * Sort key for get_notes_advanced; each sortBy/sortOrder pair gets its own cursors
+ */
+function advancedSortKey(
+  sortBy: keyof typeof ADVANCED_SORT_EXPRESSIONS,
+  sortOrder: 'asc' | 'desc'
+): SortKey {
+  return {
+    name: `${sortBy}-${sortOrder}`,
+    expression: ADVANCED_SORT_EXPRESSIONS[sortBy] ?? ADVANCED_SORT_EXPRESSIONS.modified,
+    direction: sortOrder === 'asc' ? 'ASC' : 'DESC',
+  };
+}
+
+interface RegexScanRow {
+  Z_PK: number;
+  ZTITLE: string | null;
+  ZTEXT: string | null;
+  ZMODIFICATIONDATE: number;
+  tag_names: string | null;
+}
 
 /**
  * SearchService - Handles all search and filtering operations for Bear notes
@@ -17,16 +91,29 @@ import { SqlParameters } from '../types/database.js';
  */
 export class SearchService implements ISearchService {
   private database: IDatabaseService;
-
-  constructor() {
-    this.database = globalContainer.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+  private noteService: INoteService;
+  private fullTextIndex: FullTextIndex | null;
+  private vectorIndex: VectorIndex | null;
+
+  constructor(container: ServiceContainer = globalContainer) {
+    this.database = container.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+    this.noteService = container.resolve<INoteService>(SERVICE_TOKENS.NOTE_SERVICE);
+    this.fullTextIndex = config.database.enableSearchIndex
+      ? new FullTextIndex(config.database.searchIndexPath, config.database.bearDbPath)
+      : null;
+    this.vectorIndex = config.database.enableSearchIndex
+      ? new VectorIndex(config.database.vectorIndexPath, config.database.bearDbPath)
+      : null;
   }
 
   /**
-   * Basic search - delegates to advanced search for consistency
+   * Search notes by content and title
    */
-  async searchNotes(query: string, options: NoteSearchOptions = {}): Promise<NoteWithTags[]> {
-    return this.getNotesAdvanced({ ...options, query });
+  async searchNotes(
+    query: string,
+    options: Omit<NoteSearchOptions, 'offset'> & PageOptions = {}
+  ): Promise<Page<NoteWithTags>> {
+    return this.noteService.getNotesPage({ ...options, query });
   }
 
   /**
@@ -36,6 +123,7 @@ export class SearchService implements ISearchService {
     query: string,
     options: {
       limit?: number;
+      cursor?: string;
       includeSnippets?: boolean;
       searchFields?: ('title' | 'content' | 'both')[];
       fuzzyMatch?: boolean;
@@ -47,17 +135,13 @@ export class SearchService implements ISearchService {
       dateFrom?: Date;
       dateTo?: Date;
     } = {}
-  ): Promise<
-    Array<
-      NoteWithTags & {
-        relevanceScore: number;
-        matchedTerms: string[];
-        snippets: string[];
-        titleMatches: number;
-        contentMatches: number;
-      }
-    >
-  > {
+  ): Promise<Page<FullTextSearchResult>> {
+    const { noteTags } = await this.database.getBearSchema();
+    const indexed = await this.fullTextIndex?.search(query, noteTags, options);
+    if (indexed) {
+      return indexed;
+    }
+
     await this.database.connect(true);
 
     try {
@@ -68,8 +152,8 @@ export class SearchService implements ISearchService {
         SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names,
                LENGTH(n.ZTEXT) as content_length
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE 1=1
       `;
 
@@ -111,16 +195,6 @@ export class SearchService implements ISearchService {
         sql += ` AND (${searchConditions.join(' OR ')})`;
       }
 
-      // Tag filters
-      if (options.tags && options.tags.length > 0) {
-        sql += ' GROUP BY n.Z_PK HAVING ';
-        const tagConditions = options.tags.map(() => 'tag_names LIKE ?').join(' AND ');
-        sql += tagConditions;
-        options.tags.forEach(tag => params.push(`%${tag}%`));
-      } else {
-        sql += ' GROUP BY n.Z_PK';
-      }
-
       // Date filters
       if (options.dateFrom) {
         sql += ' AND n.ZCREATIONDATE >= ?';
@@ -132,17 +206,26 @@ export class SearchService implements ISearchService {
         params.push(CoreDataUtils.fromDate(options.dateTo));
       }
 
-      sql += ' ORDER BY n.ZMODIFICATIONDATE DESC';
-
-      if (options.limit) {
-        sql += ' LIMIT ?';
-        params.push(options.limit);
+      // Tag filters
+      if (options.tags && options.tags.length > 0) {
+        sql += ' GROUP BY n.Z_PK HAVING ';
+        const tagConditions = options.tags.map(() => 'tag_names LIKE ?').join(' AND ');
+        sql += tagConditions;
+        options.tags.forEach(tag => params.push(`%${tag}%`));
+      } else {
+        sql += ' GROUP BY n.Z_PK';
       }
 
-      const rows = await this.database.query<DatabaseSearchResult>(sql, params);
+      const rows = await this.database.query<
+        BearNote & {
+          tag_names: string;
+          content_length: number;
+        }
+      >(sql, params);
 
-      // Calculate relevance scores and extract snippets
-      return rows
+      // Calculate relevance scores and extract snippets; every match is scored so pages
+      // follow one ranking
+      const results = rows
         .map(row => {
           const note = {
             ...row,
@@ -161,7 +244,17 @@ export class SearchService implements ISearchService {
             contentMatches: analysis.contentMatches,
           };
         })
-        .sort((a, b) => b.relevanceScore - a.relevanceScore);
+        .sort((a, b) => b.relevanceScore - a.relevanceScore || b.Z_PK - a.Z_PK);
+
+      return pageArray(
+        results,
+        BY_RELEVANCE,
+        note => ({ key: note.relevanceScore, id: note.Z_PK }),
+        {
+          limit: options.limit,
+          cursor: options.cursor,
+        }
+      );
     } finally {
       await this.database.disconnect();
     }
@@ -248,9 +341,26 @@ export class SearchService implements ISearchService {
       excludeNoteId?: number;
     } = {}
   ): Promise<Array<NoteWithTags & { similarityScore: number; commonKeywords: string[] }>> {
+    const matches = await this.vectorIndex?.search(referenceText, {
+      limit: options.limit || 10,
+      minScore: options.minSimilarity || 0.1,
+      excludeNoteIds: options.excludeNoteId ? [options.excludeNoteId] : [],
+    });
+
     await this.database.connect(true);
 
     try {
+      const { noteTags } = await this.database.getBearSchema();
+      if (matches) {
+        const notes = await this.queryNotesByIds(matches.map(match => match.noteId));
+        return matches.flatMap(match => {
+          const note = notes.get(match.noteId);
+          return note
+            ? [{ ...note, similarityScore: match.score, commonKeywords: match.sharedTerms }]
+            : [];
+        });
+      }
+
       const referenceKeywords = this.extractKeywords(referenceText);
       if (referenceKeywords.length === 0) {
         return [];
@@ -260,8 +370,8 @@ export class SearchService implements ISearchService {
         SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names,
                LENGTH(n.ZTEXT) as content_length
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE n.ZTRASHED = 0 AND n.ZTEXT IS NOT NULL
       `;
 
@@ -321,6 +431,201 @@ export class SearchService implements ISearchService {
     }
   }
 
+  /**
+   * Rank notes by cosine similarity between the query's TF-IDF vector and theirs, using the
+   * local vector index. Unlike findSimilarNotes there is no keyword fallback.
+   */
+  async semanticSearch(
+    query: string,
+    options: { limit?: number; minScore?: number; includeArchived?: boolean } = {}
+  ): Promise<Array<NoteWithTags & { similarityScore: number; matchedTerms: string[] }>> {
+    if (!this.vectorIndex) {
+      throw new Error('Semantic search is disabled (SEARCH_INDEX=false)');
+    }
+
+    const matches = await this.vectorIndex.search(query, {
+      limit: options.limit || 10,
+      minScore: options.minScore ?? 0.05,
+      includeArchived: options.includeArchived,
+    });
+    if (!matches) {
+      throw new Error(
+        `The semantic index is unavailable: ${this.vectorIndex.unavailable || 'its database is busy'}`
+      );
+    }
+
+    await this.database.connect(true);
+
+    try {
+      const notes = await this.queryNotesByIds(matches.map(match => match.noteId));
+      return matches.flatMap(match => {
+        const note = notes.get(match.noteId);
+        return note
+          ? [{ ...note, similarityScore: match.score, matchedTerms: match.sharedTerms }]
+          : [];
+      });
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Search titles and/or note text with a JavaScript regular expression
+   * Notes are read in batches, newest first, until `limit` notes have matched. Each note gets a
+   * time budget so a pattern with catastrophic backtracking skips that note instead of hanging.
+   * A cursor resumes the scan after the last note the previous call scanned.
+   */
+  async searchNotesRegex(
+    pattern: string,
+    options: {
+      flags?: string;
+      searchIn?: 'title' | 'content' | 'both';
+      limit?: number;
+      cursor?: string;
+      includeContext?: boolean;
+      contextLines?: number;
+      includeArchived?: boolean;
+      noteTimeoutMs?: number;
+      scanTimeoutMs?: number;
+    } = {}
+  ): Promise<RegexSearchResult> {
+    const searchIn = options.searchIn || 'both';
+    const limit = options.limit || 20;
+    const timeoutMs = options.noteTimeoutMs || REGEX_NOTE_TIMEOUT_MS;
+    const deadline = Date.now() + (options.scanTimeoutMs || REGEX_SCAN_TIMEOUT_MS);
+    const match = createRegexMatcher(pattern, options.flags || '', {
+      timeoutMs,
+      maxMatches: REGEX_MAX_MATCHES_PER_NOTE + 1,
+      contextLines: options.includeContext === false ? 0 : (options.contextLines ?? 2),
+    });
+
+    const result: RegexSearchResult = {
+      pattern,
+      flags: options.flags || '',
+      notesScanned: 0,
+      results: [],
+      timedOut: [],
+      limitReached: false,
+      nextCursor: null,
+      hasMore: false,
+    };
+    // Where the scan resumes: after the last note scanned, which a cursor carries between pages
+    let position: CursorPosition | null = options.cursor
+      ? decodeCursor(options.cursor, BY_MODIFIED)
+      : null;
+    const stopScan = (): RegexSearchResult => {
+      result.hasMore = true;
+      result.nextCursor = position && encodeCursor(BY_MODIFIED, position);
+      return result;
+    };
+
+    await this.database.connect(true);
+
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+      for (;;) {
+        let sql = `
+          SELECT n.Z_PK, n.ZTITLE, n.ZTEXT, n.ZMODIFICATIONDATE,
+                 GROUP_CONCAT(t.ZTITLE) as tag_names
+          FROM ZSFNOTE n
+          LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+          LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+          WHERE n.ZTRASHED = 0 AND n.ZENCRYPTED = 0
+        `;
+        const params: SqlParameters = [];
+
+        if (!options.includeArchived) {
+          sql += ' AND n.ZARCHIVED = 0';
+        }
+
+        if (position) {
+          sql += `
+            AND (COALESCE(n.ZMODIFICATIONDATE, 0) < ?
+              OR (COALESCE(n.ZMODIFICATIONDATE, 0) = ? AND n.Z_PK < ?))`;
+          params.push(position.key, position.key, position.id);
+        }
+
+        sql += `
+          GROUP BY n.Z_PK
+          ORDER BY COALESCE(n.ZMODIFICATIONDATE, 0) DESC, n.Z_PK DESC
+          LIMIT ?`;
+        params.push(REGEX_BATCH_SIZE);
+
+        const rows = await this.database.query<RegexScanRow>(sql, params);
+
+        for (const row of rows) {
+          if (result.results.length === limit) {
+            result.limitReached = true;
+            return stopScan();
+          }
+
+          const remainingMs = deadline - Date.now();
+          if (remainingMs <= 0) {
+            result.stoppedEarly = 'deadline';
+            return stopScan();
+          }
+          if (result.timedOut.length >= REGEX_MAX_TIMED_OUT_NOTES) {
+            result.stoppedEarly = 'timeouts';
+            return stopScan();
+          }
+
+          const previous = position;
+          result.notesScanned++;
+          position = { key: row.ZMODIFICATIONDATE ?? 0, id: row.Z_PK };
+
+          const noteTimeoutMs = Math.min(timeoutMs, remainingMs);
+          let titleMatches: RegexLineMatch[] = [];
+          let contentMatches: RegexLineMatch[] = [];
+          try {
+            if (searchIn !== 'content') {
+              titleMatches = match(row.ZTITLE || '', noteTimeoutMs);
+            }
+            if (searchIn !== 'title') {
+              contentMatches = match(row.ZTEXT || '', noteTimeoutMs);
+            }
+          } catch (error) {
+            if (error instanceof RegexTimeoutError) {
+              if (noteTimeoutMs < timeoutMs) {
+                // Cut short by the scan deadline, so the next page scans this note again
+                result.notesScanned--;
+                position = previous;
+                result.stoppedEarly = 'deadline';
+                return stopScan();
+              }
+              result.timedOut.push({ noteId: row.Z_PK, title: row.ZTITLE || '' });
+              continue;
+            }
+            throw error;
+          }
+
+          if (titleMatches.length === 0 && contentMatches.length === 0) {
+            continue;
+          }
+
+          const truncated =
+            titleMatches.length > REGEX_MAX_MATCHES_PER_NOTE ||
+            contentMatches.length > REGEX_MAX_MATCHES_PER_NOTE;
+
+          result.results.push({
+            noteId: row.Z_PK,
+            title: row.ZTITLE || '',
+            tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
+            modifiedAt: CoreDataUtils.toDate(row.ZMODIFICATIONDATE).toISOString(),
+            titleMatches: titleMatches.slice(0, REGEX_MAX_MATCHES_PER_NOTE),
+            contentMatches: contentMatches.slice(0, REGEX_MAX_MATCHES_PER_NOTE),
+            ...(truncated ? { truncated } : {}),
+          });
+        }
+
+        if (rows.length < REGEX_BATCH_SIZE) {
+          return result;
+        }
+      }
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
   /**
    * Get notes with advanced filtering options
    */
@@ -340,12 +645,14 @@ export class SearchService implements ISearchService {
       sortBy?: 'created' | 'modified' | 'title' | 'size';
       sortOrder?: 'asc' | 'desc';
       limit?: number;
-      offset?: number;
+      cursor?: string;
     } = {}
-  ): Promise<NoteWithTags[]> {
+  ): Promise<Page<NoteWithTags>> {
     await this.database.connect(true);
 
     try {
+      const schema = await this.database.getBearSchema();
+      const { noteTags } = schema;
       let sql = `
         SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names,
                LENGTH(n.ZTEXT) as content_length,
@@ -354,19 +661,20 @@ export class SearchService implements ISearchService {
                  ELSE SUBSTR(n.ZTEXT, 1, 200)
                END as preview
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE 1=1
       `;
 
       const params: SqlParameters = [];
+      const search = options.query ? compileNoteQuery(options.query, schema) : null;
 
       // Basic filters
-      if (!options.includeTrashed) {
+      if (!options.includeTrashed && !search?.mentionsTrashed) {
         sql += ' AND n.ZTRASHED = 0';
       }
 
-      if (!options.includeArchived) {
+      if (!options.includeArchived && !search?.mentionsArchived) {
         sql += ' AND n.ZARCHIVED = 0';
       }
 
@@ -375,10 +683,9 @@ export class SearchService implements ISearchService {
       }
 
       // Text search
-      if (options.query) {
-        sql += ' AND (n.ZTITLE LIKE ? OR n.ZTEXT LIKE ?)';
-        const searchTerm = `%${options.query}%`;
-        params.push(searchTerm, searchTerm);
+      if (search) {
+        sql += ` AND ${search.sql}`;
+        params.push(...search.params);
       }
 
       // Date filters
@@ -419,46 +726,28 @@ export class SearchService implements ISearchService {
         options.excludeTags.forEach(tag => params.push(`%${tag}%`));
       }
 
-      // Sorting
-      const sortBy = options.sortBy || 'modified';
-      const sortOrder = options.sortOrder || 'desc';
-
-      switch (sortBy) {
-        case 'created':
-          sql += ` ORDER BY n.ZCREATIONDATE ${sortOrder.toUpperCase()}`;
-          break;
-        case 'modified':
-          sql += ` ORDER BY n.ZMODIFICATIONDATE ${sortOrder.toUpperCase()}`;
-          break;
-        case 'title':
-          sql += ` ORDER BY n.ZTITLE ${sortOrder.toUpperCase()}`;
-          break;
-        case 'size':
-          sql += ` ORDER BY LENGTH(n.ZTEXT) ${sortOrder.toUpperCase()}`;
-          break;
-        default:
-          sql += ` ORDER BY n.ZMODIFICATIONDATE DESC`;
-      }
-
-      // Pagination
-      if (options.limit) {
-        sql += ' LIMIT ?';
-        params.push(options.limit);
-
-        if (options.offset) {
-          sql += ' OFFSET ?';
-          params.push(options.offset);
+      const page = await queryPage<
+        BearNote & {
+          tag_names: string;
+          content_length: number;
+          preview: string;
         }
-      }
-
-      const rows = await this.database.query<DatabaseSearchResult>(sql, params);
+      >(
+        this.database,
+        sql,
+        params,
+        advancedSortKey(options.sortBy || 'modified', options.sortOrder || 'desc'),
+        { limit: options.limit, cursor: options.cursor, countTotal: true }
+      );
 
-      return rows.map(row => ({
-        ...row,
-        tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
-        contentLength: row.content_length,
-        preview: row.preview,
-      }));
+      return {
+        ...page,
+        items: page.items.map(row => ({
+          ...this.withTags(row),
+          contentLength: row.content_length,
+          preview: row.preview,
+        })),
+      };
     } finally {
       await this.database.disconnect();
     }
@@ -482,16 +771,19 @@ export class SearchService implements ISearchService {
     isArchived?: boolean;
     isTrashed?: boolean;
     isEncrypted?: boolean;
-  }): Promise<NoteWithTags[]> {
+    limit?: number;
+    cursor?: string;
+  }): Promise<Page<NoteWithTags>> {
     await this.database.connect(true);
 
     try {
+      const { noteTags } = await this.database.getBearSchema();
       let sql = `
         SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names,
                LENGTH(n.ZTEXT) as content_length
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE 1=1
       `;
 
@@ -582,15 +874,24 @@ export class SearchService implements ISearchService {
         criteria.hasAnyTags.forEach(tag => params.push(`%${tag}%`));
       }
 
-      sql += ' ORDER BY n.ZMODIFICATIONDATE DESC';
-
-      const rows = await this.database.query<DatabaseSearchResult>(sql, params);
+      const page = await queryPage<
+        BearNote & {
+          tag_names: string;
+          content_length: number;
+        }
+      >(this.database, sql, params, BY_MODIFIED, {
+        limit: criteria.limit,
+        cursor: criteria.cursor,
+        countTotal: true,
+      });
 
-      return rows.map(row => ({
-        ...row,
-        tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
-        contentLength: row.content_length,
-      }));
+      return {
+        ...page,
+        items: page.items.map(row => ({
+          ...this.withTags(row),
+          contentLength: row.content_length,
+        })),
+      };
     } finally {
       await this.database.disconnect();
     }
@@ -604,18 +905,25 @@ export class SearchService implements ISearchService {
     limit: number = 5
   ): Promise<{
     byTags: NoteWithTags[];
-    byContent: NoteWithTags[];
+    byContent: Array<NoteWithTags & { similarityScore?: number }>;
   }> {
+    const similar = await this.vectorIndex?.similarToNote(noteId, {
+      limit,
+      minScore: RELATED_MIN_SIMILARITY,
+    });
+
     await this.database.connect(true);
 
     try {
+      const { noteTags } = await this.database.getBearSchema();
+
       // Get the source note's tags and content keywords
       const sourceNote = await this.database.queryOne<DatabaseSearchResult>(
         `
         SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE n.Z_PK = ?
         GROUP BY n.Z_PK
       `,
@@ -638,8 +946,8 @@ export class SearchService implements ISearchService {
         SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names,
                COUNT(DISTINCT CASE WHEN t.ZTITLE IN (${sourceTags.map(() => '?').join(',')}) THEN t.ZTITLE END) as shared_tags
         FROM ZSFNOTE n
-        JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE n.Z_PK != ? AND n.ZTRASHED = 0
         GROUP BY n.Z_PK
         HAVING shared_tags > 0
@@ -650,7 +958,21 @@ export class SearchService implements ISearchService {
             )
           : [];
 
-      // Find notes with similar content (basic keyword matching)
+      if (similar) {
+        const notes = await this.queryNotesByIds(similar.map(match => match.noteId));
+        return {
+          byTags: relatedByTags.map(row => ({
+            ...row,
+            tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
+          })),
+          byContent: similar.flatMap(match => {
+            const note = notes.get(match.noteId);
+            return note ? [{ ...note, similarityScore: match.score }] : [];
+          }),
+        };
+      }
+
+      // Without the vector index, fall back to basic keyword matching
       const contentKeywords = this.extractKeywords(sourceNote.ZTEXT || '');
       const relatedByContent =
         contentKeywords.length > 0
@@ -658,8 +980,8 @@ export class SearchService implements ISearchService {
               `
         SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names
         FROM ZSFNOTE n
-        LEFT JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
         WHERE n.Z_PK != ? AND n.ZTRASHED = 0
           AND (${contentKeywords.map(() => 'n.ZTEXT LIKE ?').join(' OR ')})
         GROUP BY n.Z_PK
@@ -685,6 +1007,44 @@ export class SearchService implements ISearchService {
     }
   }
 
+  /**
+   * Load notes with their tags by primary key; the caller holds the connection
+   */
+  private async queryNotesByIds(ids: number[]): Promise<Map<number, NoteWithTags>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const { noteTags } = await this.database.getBearSchema();
+
+    const rows = await this.database.query<DatabaseSearchResult>(
+      `
+      SELECT n.*, GROUP_CONCAT(DISTINCT t.ZTITLE) as tag_names, LENGTH(n.ZTEXT) as content_length
+      FROM ZSFNOTE n
+      LEFT JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+      LEFT JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+      WHERE n.Z_PK IN (${ids.map(() => '?').join(', ')})
+      GROUP BY n.Z_PK
+    `,
+      ids
+    );
+
+    return new Map(
+      rows.map(row => [
+        row.Z_PK,
+        {
+          ...row,
+          tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
+          contentLength: row.content_length,
+        },
+      ])
+    );
+  }
+
+  private withTags<T extends { tag_names: string | null }>(row: T): T & { tags: string[] } {
+    return { ...row, tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [] };
+  }
+
   /**
    * Extract keywords from text for content similarity matching
    */
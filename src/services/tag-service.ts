@@ -1,8 +1,46 @@
-import { ITagService, IDatabaseService, SERVICE_TOKENS } from './interfaces/index.js';
-import { globalContainer } from './container/service-container.js';
-import { TagWithCount, NoteWithTags, BearNote } from '../types/bear.js';
+import {
+  IBearApiService,
+  ITagService,
+  IDatabaseService,
+  SERVICE_TOKENS,
+} from './interfaces/index.js';
+import { globalContainer, ServiceContainer } from './container/service-container.js';
+import {
+  TagWithCount,
+  NoteWithTags,
+  BearNote,
+  TagChangeNote,
+  TagChangeResult,
+  TagHierarchy,
+  TagHierarchyIssue,
+  TagHierarchyNode,
+  TagMergeSuggestion,
+  TagPairStats,
+  TagRelationshipAnalysis,
+  TagTrend,
+  TagUsageTrend,
+  TagUsageTrends,
+  HashtagParsingFilter,
+  WritePreview,
+  WriteVerification,
+} from '../types/bear.js';
 import { CoreDataUtils } from '../utils/database.js';
 import { SqlParameters } from '../types/database.js';
+import { parseBearUrl } from '../utils/bear-url-dispatcher.js';
+import { applyAddText, renameTagInText } from '../utils/bear-text.js';
+import { createUnifiedDiff } from '../utils/text-patch.js';
+import { BY_MODIFIED, Page, PageOptions, queryPage } from '../utils/pagination.js';
+import { pollUntil } from '../utils/polling.js';
+import { editDistance, singularize } from '../utils/tag-similarity.js';
+
+interface TaggedNoteRow {
+  Z_PK: number;
+  ZTITLE: string;
+  ZTEXT: string | null;
+  ZUNIQUEIDENTIFIER: string;
+  ZMODIFICATIONDATE: number;
+  ZENCRYPTED: number;
+}
 
 /**
  * TagService - Handles all tag management and operations for Bear notes
@@ -16,23 +54,26 @@ import { SqlParameters } from '../types/database.js';
  */
 export class TagService implements ITagService {
   private database: IDatabaseService;
+  private bearApi: IBearApiService;
 
-  constructor() {
-    this.database = globalContainer.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+  constructor(container: ServiceContainer = globalContainer) {
+    this.database = container.resolve<IDatabaseService>(SERVICE_TOKENS.DATABASE_SERVICE);
+    this.bearApi = container.resolve<IBearApiService>(SERVICE_TOKENS.BEAR_API_SERVICE);
   }
 
   /**
-   * Get all tags with note counts
+   * Get all tags with usage counts
    */
   async getTags(): Promise<TagWithCount[]> {
     await this.database.connect(true);
 
     try {
+      const { noteTags } = await this.database.getBearSchema();
       const sql = `
-        SELECT t.*, COUNT(nt.Z_5NOTES) as noteCount
+        SELECT t.*, COUNT(nt.${noteTags.noteColumn}) as noteCount
         FROM ZSFNOTETAG t
-        LEFT JOIN Z_5TAGS nt ON t.Z_PK = nt.Z_13TAGS
-        LEFT JOIN ZSFNOTE n ON nt.Z_5NOTES = n.Z_PK AND n.ZTRASHED = 0
+        LEFT JOIN ${noteTags.table} nt ON t.Z_PK = nt.${noteTags.tagColumn}
+        LEFT JOIN ZSFNOTE n ON nt.${noteTags.noteColumn} = n.Z_PK AND n.ZTRASHED = 0
         GROUP BY t.Z_PK
         ORDER BY noteCount DESC, t.ZTITLE ASC
       `;
@@ -44,33 +85,592 @@ export class TagService implements ITagService {
   }
 
   /**
-   * Get notes by tag
+   * Get notes by tag, one page at a time
    */
-  async getNotesByTag(tagName: string): Promise<NoteWithTags[]> {
+  async getNotesByTag(tagName: string, options: PageOptions = {}): Promise<Page<NoteWithTags>> {
     await this.database.connect(true);
 
     try {
+      const { noteTags } = await this.database.getBearSchema();
       const sql = `
         SELECT n.*, GROUP_CONCAT(t2.ZTITLE) as tag_names
         FROM ZSFNOTE n
-        JOIN Z_5TAGS nt ON n.Z_PK = nt.Z_5NOTES
-        JOIN ZSFNOTETAG t ON nt.Z_13TAGS = t.Z_PK
-        LEFT JOIN Z_5TAGS nt2 ON n.Z_PK = nt2.Z_5NOTES
-        LEFT JOIN ZSFNOTETAG t2 ON nt2.Z_13TAGS = t2.Z_PK
+        JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+        LEFT JOIN ${noteTags.table} nt2 ON n.Z_PK = nt2.${noteTags.noteColumn}
+        LEFT JOIN ZSFNOTETAG t2 ON nt2.${noteTags.tagColumn} = t2.Z_PK
         WHERE t.ZTITLE = ? AND n.ZTRASHED = 0
         GROUP BY n.Z_PK
-        ORDER BY n.ZMODIFICATIONDATE DESC
       `;
 
-      const rows = await this.database.query<BearNote & { tag_names: string }>(sql, [tagName]);
+      const page = await queryPage<BearNote & { tag_names: string }>(
+        this.database,
+        sql,
+        [tagName],
+        BY_MODIFIED,
+        { ...options, countTotal: true }
+      );
+      return { ...page, items: page.items.map(row => this.withTags(row)) };
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  private withTags<T extends { tag_names: string | null }>(row: T): T & { tags: string[] } {
+    return { ...row, tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [] };
+  }
+
+  /**
+   * Build the tag tree from slash-separated tag paths, cross-checked against ZPARENT
+   * Nodes are placed by path since that is what Bear shows; a ZPARENT that disagrees, a parent
+   * that doesn't exist and gaps in a path are reported as issues on the node.
+   */
+  async getTagHierarchy(options: { root?: string; maxDepth?: number } = {}): Promise<TagHierarchy> {
+    await this.database.connect(true);
+
+    let tags: Array<{ Z_PK: number; ZTITLE: string; ZPARENT: number | null }>;
+    let links: Array<{ tagId: number; noteId: number }>;
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+      tags = await this.database.query('SELECT Z_PK, ZTITLE, ZPARENT FROM ZSFNOTETAG');
+      links = await this.database.query(
+        `
+        SELECT nt.${noteTags.tagColumn} as tagId, nt.${noteTags.noteColumn} as noteId
+        FROM ${noteTags.table} nt
+        JOIN ZSFNOTE n ON nt.${noteTags.noteColumn} = n.Z_PK
+        WHERE n.ZTRASHED = 0
+      `
+      );
+    } finally {
+      await this.database.disconnect();
+    }
+
+    const notesByTag = new Map<number, Set<number>>();
+    for (const { tagId, noteId } of links) {
+      if (!notesByTag.has(tagId)) {
+        notesByTag.set(tagId, new Set());
+      }
+      notesByTag.get(tagId)!.add(noteId);
+    }
+
+    const tagsById = new Map(tags.map(tag => [tag.Z_PK, tag]));
+    const nodes = new Map<string, TagHierarchyNode & { notes: Set<number> }>();
+    const keyOf = (path: string) => path.toLowerCase();
+
+    const ensureNode = (path: string): TagHierarchyNode & { notes: Set<number> } => {
+      const existing = nodes.get(keyOf(path));
+      if (existing) {
+        return existing;
+      }
+      const segments = path.split('/');
+      const node = {
+        id: null,
+        name: segments[segments.length - 1],
+        path,
+        depth: segments.length - 1,
+        directNoteCount: 0,
+        totalNoteCount: 0,
+        children: [],
+        notes: new Set<number>(),
+      };
+      nodes.set(keyOf(path), node);
+      return node;
+    };
+
+    for (const tag of tags) {
+      const path = tag.ZTITLE.split('/').filter(Boolean).join('/');
+      if (!path) {
+        continue;
+      }
+      const node = ensureNode(path);
+      node.id = tag.Z_PK;
+      node.notes = notesByTag.get(tag.Z_PK) || new Set();
+    }
+
+    // Link every node to its path parent, creating placeholders for gaps in a path
+    for (const node of [...nodes.values()]) {
+      let child = node;
+      while (child.depth > 0) {
+        const parentPath = child.path.slice(0, child.path.lastIndexOf('/'));
+        const known = nodes.has(keyOf(parentPath));
+        const parent = ensureNode(parentPath);
+        if (!parent.children.includes(child)) {
+          parent.children.push(child);
+        }
+        if (known) {
+          break;
+        }
+        child = parent;
+      }
+    }
+
+    const addIssue = (node: TagHierarchyNode, issue: TagHierarchyIssue) => {
+      node.issues = [...(node.issues || []), issue];
+    };
+
+    for (const node of nodes.values()) {
+      const parentPath = node.depth > 0 ? node.path.slice(0, node.path.lastIndexOf('/')) : null;
+      const parent = parentPath !== null ? nodes.get(keyOf(parentPath))! : null;
+
+      if (node.id === null) {
+        addIssue(node, {
+          type: 'missing',
+          detail: `No tag exists for "${node.path}"; it only appears in the paths of nested tags`,
+        });
+        continue;
+      }
+
+      if (parent && parent.id === null) {
+        addIssue(node, { type: 'orphan', detail: `Parent tag "${parent.path}" does not exist` });
+      }
+
+      const zParent = tagsById.get(node.id)!.ZPARENT;
+      if (zParent === null || zParent === undefined) {
+        continue;
+      }
+      const zParentTag = tagsById.get(zParent);
+      if (!zParentTag) {
+        addIssue(node, { type: 'orphan', detail: `ZPARENT points to missing tag ${zParent}` });
+      } else if (!parent || parent.id !== zParent) {
+        addIssue(node, {
+          type: 'inconsistent',
+          detail: `ZPARENT is "${zParentTag.ZTITLE}" but the tag path implies ${parent ? `"${parent.path}"` : 'a top-level tag'}`,
+        });
+      }
+    }
+
+    // Counts roll up bottom-up; a note tagged #a and #a/b counts once for a
+    const rollUp = (node: TagHierarchyNode & { notes: Set<number> }): Set<number> => {
+      node.children.sort((a, b) => a.name.localeCompare(b.name));
+      const descendantNotes = new Set<number>();
+      for (const child of node.children) {
+        rollUp(child as TagHierarchyNode & { notes: Set<number> }).forEach(id =>
+          descendantNotes.add(id)
+        );
+      }
+      node.directNoteCount = [...node.notes].filter(id => !descendantNotes.has(id)).length;
+      const all = new Set([...node.notes, ...descendantNotes]);
+      node.totalNoteCount = all.size;
+      return all;
+    };
+
+    let roots = [...nodes.values()].filter(node => node.depth === 0);
+    roots.forEach(rollUp);
+    roots.sort((a, b) => a.name.localeCompare(b.name));
+
+    if (options.root) {
+      const root = nodes.get(keyOf(options.root.replace(/^#/, '').replace(/^\/+|\/+$/g, '')));
+      if (!root) {
+        throw new Error(`Tag "${options.root}" not found`);
+      }
+      roots = [root];
+    }
+    const baseDepth = roots.length > 0 ? roots[0].depth : 0;
+
+    const strip = (node: TagHierarchyNode & { notes?: Set<number> }): TagHierarchyNode => {
+      const children =
+        options.maxDepth !== undefined && node.depth - baseDepth >= options.maxDepth
+          ? []
+          : node.children;
+      const result: TagHierarchyNode = {
+        id: node.id,
+        name: node.name,
+        path: node.path,
+        depth: node.depth,
+        directNoteCount: node.directNoteCount,
+        totalNoteCount: node.totalNoteCount,
+        children: children.map(strip),
+      };
+      if (node.issues) {
+        result.issues = node.issues;
+      }
+      return result;
+    };
+    const tree = roots.map(strip);
+
+    const flat: TagHierarchyNode[] = [];
+    const walk = (node: TagHierarchyNode) => {
+      flat.push(node);
+      node.children.forEach(walk);
+    };
+    tree.forEach(walk);
+
+    return {
+      roots: tree,
+      totalTags: flat.filter(node => node.id !== null).length,
+      maxDepth: flat.reduce((max, node) => Math.max(max, node.depth), 0),
+      issues: flat.flatMap(node =>
+        (node.issues || []).map(issue => ({ path: node.path, ...issue }))
+      ),
+      outline: flat.map(node => this.outlineLine(node, baseDepth)).join('\n'),
+    };
+  }
+
+  private outlineLine(node: TagHierarchyNode, baseDepth: number): string {
+    const counts =
+      node.directNoteCount === node.totalNoteCount
+        ? `${node.totalNoteCount} notes`
+        : `${node.totalNoteCount} notes, ${node.directNoteCount} direct`;
+    const issues = (node.issues || []).map(issue => ` [${issue.type}: ${issue.detail}]`).join('');
+    return `${'  '.repeat(node.depth - baseDepth)}- #${node.path} (${counts})${issues}`;
+  }
+
+  /**
+   * Analyze which tags are used together (from the note-tag join table) and which look like duplicates
+   * Pairs where one tag is nested under the other are left out: Bear links a note to every
+   * parent of its tags, so those always co-occur.
+   */
+  async analyzeTagRelationships(
+    options: {
+      minSharedNotes?: number;
+      limit?: number;
+      matrixSize?: number;
+      clusterThreshold?: number;
+    } = {}
+  ): Promise<TagRelationshipAnalysis> {
+    const minShared = options.minSharedNotes ?? 2;
+    const limit = options.limit ?? 50;
+    const matrixSize = options.matrixSize ?? 15;
+    const clusterThreshold = options.clusterThreshold ?? 1;
+
+    await this.database.connect(true);
+
+    let tags: Array<{ Z_PK: number; ZTITLE: string }>;
+    let links: Array<{ tagId: number; noteId: number; title: string }>;
+    let totalNotes: number;
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+      tags = await this.database.query('SELECT Z_PK, ZTITLE FROM ZSFNOTETAG ORDER BY ZTITLE');
+      links = await this.database.query(
+        `
+        SELECT nt.${noteTags.tagColumn} as tagId, nt.${noteTags.noteColumn} as noteId, n.ZTITLE as title
+        FROM ${noteTags.table} nt
+        JOIN ZSFNOTE n ON nt.${noteTags.noteColumn} = n.Z_PK
+        WHERE n.ZTRASHED = 0
+      `
+      );
+      const row = await this.database.queryOne<{ count: number }>(
+        'SELECT COUNT(*) as count FROM ZSFNOTE WHERE ZTRASHED = 0'
+      );
+      totalNotes = row?.count ?? 0;
+    } finally {
+      await this.database.disconnect();
+    }
+
+    const names = new Map(tags.map(tag => [tag.Z_PK, tag.ZTITLE]));
+    const notesByTag = new Map<string, Set<number>>(tags.map(tag => [tag.ZTITLE, new Set()]));
+    const tagsByNote = new Map<number, string[]>();
+    const titles = new Map<number, string>();
+    for (const link of links) {
+      const name = names.get(link.tagId);
+      if (name === undefined) {
+        continue;
+      }
+      notesByTag.get(name)!.add(link.noteId);
+      tagsByNote.set(link.noteId, [...(tagsByNote.get(link.noteId) || []), name]);
+      titles.set(link.noteId, link.title);
+    }
+
+    const count = (tag: string) => notesByTag.get(tag)?.size ?? 0;
+    const nested = (a: string, b: string) =>
+      a.toLowerCase().startsWith(`${b.toLowerCase()}/`) ||
+      b.toLowerCase().startsWith(`${a.toLowerCase()}/`);
+    const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+    const shared = new Map<string, number>();
+    for (const noteTags of tagsByNote.values()) {
+      for (let i = 0; i < noteTags.length; i++) {
+        for (let j = i + 1; j < noteTags.length; j++) {
+          const key = pairKey(noteTags[i], noteTags[j]);
+          shared.set(key, (shared.get(key) || 0) + 1);
+        }
+      }
+    }
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const allPairs: TagPairStats[] = [];
+    for (const [key, together] of shared) {
+      const [a, b] = key.split('\u0000') as [string, string];
+      if (nested(a, b)) {
+        continue;
+      }
+      allPairs.push({
+        tags: [a, b],
+        sharedNotes: together,
+        lift: round((together * totalNotes) / (count(a) * count(b))),
+        jaccard: round(together / (count(a) + count(b) - together)),
+      });
+    }
+    allPairs.sort(
+      (x, y) =>
+        y.sharedNotes - x.sharedNotes || y.jaccard - x.jaccard || x.tags[0].localeCompare(y.tags[0])
+    );
+
+    // Tags joined by pairs at or above the threshold form a cluster (union-find)
+    const parent = new Map<string, string>();
+    const find = (tag: string): string => {
+      const up = parent.get(tag) ?? tag;
+      if (up === tag) {
+        return tag;
+      }
+      const root = find(up);
+      parent.set(tag, root);
+      return root;
+    };
+    for (const pair of allPairs) {
+      if (pair.sharedNotes >= minShared && pair.jaccard >= clusterThreshold) {
+        parent.set(find(pair.tags[0]), find(pair.tags[1]));
+      }
+    }
+    const groups = new Map<string, string[]>();
+    for (const tag of parent.keys()) {
+      const root = find(tag);
+      groups.set(root, [...(groups.get(root) || []), tag]);
+    }
+    const clusters = [...groups.values()]
+      .map(group => {
+        const members = group.sort();
+        const notes = [...notesByTag.get(members[0])!].filter(id =>
+          members.every(tag => notesByTag.get(tag)!.has(id))
+        );
+        return { tags: members, noteCount: notes.length };
+      })
+      .sort((a, b) => b.noteCount - a.noteCount || a.tags[0].localeCompare(b.tags[0]));
+
+    const matrixTags = [...notesByTag.keys()]
+      .filter(tag => count(tag) > 0)
+      .sort((a, b) => count(b) - count(a) || a.localeCompare(b))
+      .slice(0, matrixSize);
+    const matrix = {
+      tags: matrixTags,
+      counts: matrixTags.map(a =>
+        matrixTags.map(b => (a === b ? count(a) : shared.get(pairKey(a, b)) || 0))
+      ),
+    };
+
+    const singleUseTags = [...notesByTag.entries()]
+      .filter(([, notes]) => notes.size === 1)
+      .map(([tag, notes]) => {
+        const noteId = [...notes][0];
+        return { tag, noteId, title: titles.get(noteId) || '' };
+      });
+
+    return {
+      totalNotes,
+      totalTags: tags.length,
+      matrix,
+      pairs: allPairs.filter(pair => pair.sharedNotes >= minShared).slice(0, limit),
+      clusters,
+      mergeSuggestions: this.suggestTagMerges(
+        tags.map(tag => tag.ZTITLE),
+        count
+      ),
+      singleUseTags,
+    };
+  }
+
+  /**
+   * Find pairs of tags that look like the same tag written differently
+   */
+  private suggestTagMerges(tags: string[], count: (tag: string) => number): TagMergeSuggestion[] {
+    const sanitize = (tag: string) => this.validateAndSanitizeTags([tag]).sanitized[0] || tag;
+    const leaf = (tag: string) => tag.slice(tag.lastIndexOf('/') + 1);
+    const parentOf = (tag: string) => tag.slice(0, Math.max(tag.lastIndexOf('/'), 0));
+    const suggestions: TagMergeSuggestion[] = [];
+
+    for (let i = 0; i < tags.length; i++) {
+      for (let j = i + 1; j < tags.length; j++) {
+        const [a, b] = [tags[i], tags[j]];
+        let reason: TagMergeSuggestion['reason'] | null = null;
+
+        if (sanitize(a) === sanitize(b)) {
+          reason = 'same-sanitized';
+        } else if (parentOf(a).toLowerCase() === parentOf(b).toLowerCase()) {
+          // Compare names under the same parent so siblings like a/x and a/y aren't matched
+          const [x, y] = [leaf(a).toLowerCase(), leaf(b).toLowerCase()];
+          const shortest = Math.min(x.length, y.length);
+          if (singularize(x) === singularize(y)) {
+            reason = 'plural';
+          } else if (shortest >= 4) {
+            const allowed = shortest >= 8 ? 2 : 1;
+            if (editDistance(x, y, allowed) <= allowed) {
+              reason = 'edit-distance';
+            }
+          }
+        }
+
+        if (!reason) {
+          continue;
+        }
+
+        // Keep the correctly sanitized spelling, else the more used tag, else the shorter one
+        const sanitized = sanitize(a);
+        let target = [a, b].sort((x, y) => x.length - y.length || x.localeCompare(y))[0];
+        if (reason === 'same-sanitized' && (a === sanitized || b === sanitized)) {
+          target = sanitized;
+        } else if (count(a) !== count(b)) {
+          target = count(a) > count(b) ? a : b;
+        }
+
+        suggestions.push({
+          tags: [a, b],
+          reason,
+          suggestedTarget: target,
+          noteCounts: { [a]: count(a), [b]: count(b) },
+        });
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Monthly counts of notes created and last modified under each tag, with each tag classed as
+   * rising, declining, steady or dormant
+   * ZMODIFICATIONDATE only holds a note's latest edit, so `modified` counts notes whose most
+   * recent change fell in that month.
+   */
+  async getTagUsageTrends(
+    options: { tagName?: string; months?: number; endDate?: Date; dormantMonths?: number } = {}
+  ): Promise<TagUsageTrends> {
+    const monthCount = options.months ?? 6;
+    const dormantMonths = options.dormantMonths ?? 3;
+    const end = options.endDate ?? new Date();
+    const months = Array.from({ length: monthCount }, (_, index) =>
+      new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - monthCount + 1 + index, 1))
+        .toISOString()
+        .slice(0, 7)
+    );
+    const windowStart = CoreDataUtils.fromDate(new Date(`${months[0]}-01T00:00:00Z`));
+    const windowEnd = CoreDataUtils.fromDate(
+      new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 1))
+    );
+    const dormantSince = CoreDataUtils.fromDate(
+      new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - dormantMonths + 1, 1))
+    );
+    // Core Data timestamps count from 2001; strftime needs Unix seconds
+    const epochOffset = -CoreDataUtils.fromDate(new Date(0));
+
+    let tagFilter = '';
+    const tagParams: SqlParameters = [];
+    if (options.tagName) {
+      const tag = this.normalizeTagName(options.tagName);
+      tagFilter =
+        " AND (LOWER(t.ZTITLE) = LOWER(?) OR substr(LOWER(t.ZTITLE), 1, length(?) + 1) = LOWER(?) || '/')";
+      tagParams.push(tag, tag, tag);
+    }
+
+    await this.database.connect(true);
 
-      return rows.map(row => ({
-        ...row,
-        tags: row.tag_names ? row.tag_names.split(',').filter(Boolean) : [],
-      }));
+    let totals: Array<{ tag: string; noteCount: number; lastActivity: number | null }>;
+    let monthly: Array<{
+      tag: string;
+      month: string;
+      field: 'created' | 'modified';
+      count: number;
+    }>;
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+      totals = await this.database.query(
+        `
+        SELECT t.ZTITLE as tag, COUNT(DISTINCT n.Z_PK) as noteCount,
+               MAX(n.ZMODIFICATIONDATE) as lastActivity
+        FROM ZSFNOTETAG t
+        JOIN ${noteTags.table} nt ON nt.${noteTags.tagColumn} = t.Z_PK
+        JOIN ZSFNOTE n ON n.Z_PK = nt.${noteTags.noteColumn} AND n.ZTRASHED = 0
+        WHERE 1=1${tagFilter}
+        GROUP BY t.Z_PK
+      `,
+        tagParams
+      );
+
+      monthly = await this.database.query(
+        ['ZCREATIONDATE', 'ZMODIFICATIONDATE']
+          .map(
+            column => `
+            SELECT t.ZTITLE as tag,
+                   strftime('%Y-%m', n.${column} + ?, 'unixepoch') as month,
+                   '${column === 'ZCREATIONDATE' ? 'created' : 'modified'}' as field,
+                   COUNT(DISTINCT n.Z_PK) as count
+            FROM ZSFNOTETAG t
+            JOIN ${noteTags.table} nt ON nt.${noteTags.tagColumn} = t.Z_PK
+            JOIN ZSFNOTE n ON n.Z_PK = nt.${noteTags.noteColumn} AND n.ZTRASHED = 0
+            WHERE n.${column} >= ? AND n.${column} < ?${tagFilter}
+            GROUP BY t.Z_PK, month
+          `
+          )
+          .join(' UNION ALL '),
+        [
+          epochOffset,
+          windowStart,
+          windowEnd,
+          ...tagParams,
+          epochOffset,
+          windowStart,
+          windowEnd,
+          ...tagParams,
+        ]
+      );
     } finally {
       await this.database.disconnect();
     }
+
+    if (options.tagName && totals.length === 0) {
+      throw new Error(`Tag "${options.tagName}" not found or has no notes`);
+    }
+
+    const half = Math.floor(monthCount / 2);
+    const trends: TagUsageTrend[] = totals.map(({ tag, noteCount, lastActivity }) => {
+      const usage = months.map(month => ({ month, created: 0, modified: 0 }));
+      for (const row of monthly) {
+        const entry = row.tag === tag ? usage.find(item => item.month === row.month) : undefined;
+        if (entry) {
+          entry[row.field] = row.count;
+        }
+      }
+
+      const activity = (items: typeof usage) =>
+        items.reduce((sum, item) => sum + item.created + item.modified, 0);
+      const earlier = activity(usage.slice(0, half));
+      const recent = activity(usage.slice(monthCount - half));
+
+      let trend: TagTrend = 'steady';
+      if (lastActivity === null || lastActivity < dormantSince) {
+        trend = 'dormant';
+      } else if (recent > earlier && recent >= 2) {
+        trend = 'rising';
+      } else if (recent < earlier && earlier >= 2) {
+        trend = 'declining';
+      }
+
+      return {
+        tag,
+        noteCount,
+        months: usage,
+        totalCreated: usage.reduce((sum, item) => sum + item.created, 0),
+        totalModified: usage.reduce((sum, item) => sum + item.modified, 0),
+        lastActivity:
+          lastActivity === null ? null : CoreDataUtils.toDate(lastActivity).toISOString(),
+        trend,
+        change: recent - earlier,
+      };
+    });
+
+    trends.sort(
+      (a, b) =>
+        b.totalCreated + b.totalModified - (a.totalCreated + a.totalModified) ||
+        a.tag.localeCompare(b.tag)
+    );
+
+    return {
+      months,
+      tags: trends,
+      rising: trends.filter(item => item.trend === 'rising').map(item => item.tag),
+      declining: trends.filter(item => item.trend === 'declining').map(item => item.tag),
+      dormant: trends
+        .filter(item => item.trend === 'dormant')
+        .map(item => ({ tag: item.tag, lastActivity: item.lastActivity })),
+    };
   }
 
   /**
@@ -164,14 +764,14 @@ export class TagService implements ITagService {
     }
 
     // Check if Bear is running
-    const isBearRunning = await this.database.isBearRunning();
+    const isBearRunning = await this.bearApi.isBearRunning();
     if (!isBearRunning) {
       return `Bear is not running. Please start Bear first, then the hashtags will be parsed automatically. Alternatively, restart Bear to trigger parsing for all notes.`;
     }
 
-    try {
-      await this.database.connect(true); // Read mode
+    await this.database.connect(true); // Read mode
 
+    try {
       // Find the note
       let query: string;
       let params: SqlParameters;
@@ -201,7 +801,11 @@ export class TagService implements ITagService {
 
       // Most effective approach: Use Bear's API to "update" the note with its own content
       // This forces Bear to reparse all hashtags in the content
-      await this.triggerBearParseEffectively(note.ZUNIQUEIDENTIFIER, note.ZTEXT, note.ZTITLE);
+      await this.bearApi.triggerBearParseEffectively(
+        note.ZUNIQUEIDENTIFIER,
+        note.ZTEXT,
+        note.ZTITLE
+      );
 
       return `Hashtag parsing triggered for note: ${noteId || noteTitle}. Bear should update the sidebar within a few seconds.`;
     } catch (error) {
@@ -217,22 +821,89 @@ export class TagService implements ITagService {
    * Batch trigger hashtag parsing for multiple notes
    * Useful for fixing sidebar display issues for many notes at once
    */
-  async batchTriggerHashtagParsing(options: {
-    tag_filter?: string;
-    title_pattern?: string;
-    limit?: number;
-    created_after?: string;
-  }): Promise<string> {
+  async batchTriggerHashtagParsing(options: HashtagParsingFilter): Promise<string> {
+    try {
+      const notes = await this.findNotesForHashtagParsing(options);
+
+      if (notes.length === 0) {
+        return 'No notes found matching the criteria';
+      }
+
+      // Process each note
+      let successCount = 0;
+      for (const note of notes) {
+        try {
+          if (note.ZTEXT) {
+            await this.bearApi.triggerBearParseEffectively(
+              note.ZUNIQUEIDENTIFIER,
+              note.ZTEXT,
+              note.ZTITLE
+            );
+            successCount++;
+          }
+
+          // Small delay between notes to avoid overwhelming Bear
+          await new Promise(resolve => setTimeout(resolve, 200));
+        } catch {
+          // Silent error handling to avoid JSON-RPC interference
+        }
+      }
+
+      return `Triggered hashtag parsing for ${successCount}/${notes.length} notes. Check Bear's sidebar in a few seconds.`;
+    } catch (error) {
+      throw new Error(
+        `Failed to batch trigger hashtag parsing: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Preview a batch hashtag parse: the calls it would send and how each note's text would change
+   */
+  async previewBatchTriggerHashtagParsing(options: HashtagParsingFilter): Promise<WritePreview> {
     try {
-      await this.database.connect(true); // Read mode
+      const notes = (await this.findNotesForHashtagParsing(options)).filter(note => note.ZTEXT);
+      const urls: string[] = [];
+      const diffs: string[] = [];
+
+      for (const note of notes) {
+        const url = this.bearApi.buildReparseUrl(note.ZUNIQUEIDENTIFIER, note.ZTEXT!, note.ZTITLE);
+        urls.push(url);
+
+        const diff = createUnifiedDiff(
+          note.ZTEXT!,
+          applyAddText(note.ZTEXT!, parseBearUrl(url).params),
+          note.ZTITLE,
+          note.ZTITLE
+        );
+        if (diff) {
+          diffs.push(diff);
+        }
+      }
 
+      return { urls, diff: diffs.join('\n') };
+    } catch (error) {
+      throw new Error(
+        `Failed to preview hashtag parsing: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async findNotesForHashtagParsing(
+    options: HashtagParsingFilter
+  ): Promise<
+    Array<{ Z_PK: number; ZUNIQUEIDENTIFIER: string; ZTITLE: string; ZTEXT: string | null }>
+  > {
+    await this.database.connect(true); // Read mode
+
+    try {
       // Build query to find notes
-      let query = 'SELECT Z_PK, ZUNIQUEIDENTIFIER, ZTITLE FROM ZSFNOTE WHERE ZTRASHED = 0';
+      let query = 'SELECT Z_PK, ZUNIQUEIDENTIFIER, ZTITLE, ZTEXT FROM ZSFNOTE WHERE ZTRASHED = 0';
       const params: SqlParameters = [];
 
       if (options.title_pattern) {
         query += ' AND ZTITLE LIKE ?';
-        params.push(`%${options.title_pattern}%`);
+        params.push(options.title_pattern);
       }
 
       if (options.created_after) {
@@ -248,94 +919,344 @@ export class TagService implements ITagService {
         params.push(options.limit);
       }
 
-      const notes = await this.database.query<{
-        Z_PK: number;
-        ZUNIQUEIDENTIFIER: string;
-        ZTITLE: string;
-      }>(query, params);
+      return await this.database.query(query, params);
+    } finally {
+      await this.database.disconnect();
+    }
+  }
 
-      if (notes.length === 0) {
-        return 'No notes found matching the criteria';
+  /**
+   * Rename a tag and its nested tags
+   * Uses Bear's rename-tag action when the new name is free. Renaming onto an existing tag (or
+   * under the tag itself) is a merge, so those rewrite the hashtags in each note instead.
+   */
+  async renameTag(
+    from: string,
+    to: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<TagChangeResult> {
+    const source = this.normalizeTagName(from);
+    const { target, warnings } = this.sanitizeTarget(to);
+
+    if (source.toLowerCase() === target.toLowerCase()) {
+      throw new Error(`Tag "${source}" already has that name`);
+    }
+
+    const [sourceTag, targetTag] = await this.findTags([source, target]);
+    if (!sourceTag) {
+      throw new Error(`Tag "${source}" not found`);
+    }
+
+    if (targetTag || target.toLowerCase().startsWith(`${source.toLowerCase()}/`)) {
+      return this.rewriteTags([sourceTag], target, warnings, options.dryRun);
+    }
+
+    const notes = await this.findTaggedNotes([sourceTag]);
+    const url = `bear://x-callback-url/rename-tag?name=${encodeURIComponent(sourceTag)}&new_name=${encodeURIComponent(target)}&show_window=no`;
+    const result: TagChangeResult = {
+      method: 'rename-tag',
+      sources: [sourceTag],
+      target,
+      notes: notes.map(note => ({ noteId: note.Z_PK, title: note.ZTITLE, status: 'updated' })),
+      urls: [url],
+      tagWarnings: warnings.length > 0 ? warnings : undefined,
+    };
+
+    if (options.dryRun) {
+      return { ...result, dryRun: true };
+    }
+
+    await this.bearApi.dispatch(url);
+    result.verification = await this.verifyTagChange([sourceTag], target);
+
+    return result;
+  }
+
+  /**
+   * Merge tags into a target tag by rewriting their hashtags (and nested ones) in every note
+   */
+  async mergeTags(
+    sources: string[],
+    target: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<TagChangeResult> {
+    const names = [...new Set(sources.map(source => this.normalizeTagName(source)))];
+    if (names.length === 0) {
+      throw new Error('At least one source tag is required');
+    }
+
+    const sanitized = this.sanitizeTarget(target);
+    if (names.some(name => name.toLowerCase() === sanitized.target.toLowerCase())) {
+      throw new Error(`Tag "${sanitized.target}" cannot be merged into itself`);
+    }
+
+    const found = await this.findTags(names);
+    const missing = names.filter((_name, index) => !found[index]);
+    if (missing.length > 0) {
+      throw new Error(`Tags not found: ${missing.join(', ')}`);
+    }
+
+    return this.rewriteTags(
+      found as string[],
+      sanitized.target,
+      sanitized.warnings,
+      options.dryRun
+    );
+  }
+
+  private normalizeTagName(name: string): string {
+    const normalized = name.trim().replace(/^#/, '').replace(/#$/, '').trim();
+    if (!normalized) {
+      throw new Error('Tag name cannot be empty');
+    }
+    return normalized;
+  }
+
+  private sanitizeTarget(name: string): { target: string; warnings: string[] } {
+    const { sanitized, warnings } = this.validateAndSanitizeTags([this.normalizeTagName(name)]);
+    if (sanitized.length === 0) {
+      throw new Error(`Invalid tag name "${name}": ${warnings.join('; ')}`);
+    }
+    return { target: sanitized[0], warnings };
+  }
+
+  /**
+   * Look up tags by name (case-insensitively), returning Bear's spelling or null for each
+   */
+  private async findTags(names: string[]): Promise<Array<string | null>> {
+    await this.database.connect(true);
+
+    try {
+      const found: Array<string | null> = [];
+      for (const name of names) {
+        const tag = await this.database.queryOne<{ ZTITLE: string }>(
+          'SELECT ZTITLE FROM ZSFNOTETAG WHERE LOWER(ZTITLE) = LOWER(?)',
+          [name]
+        );
+        found.push(tag ? tag.ZTITLE : null);
+      }
+      return found;
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Active and archived notes carrying any of the tags or a tag nested under them
+   */
+  private async findTaggedNotes(tags: string[]): Promise<TaggedNoteRow[]> {
+    await this.database.connect(true);
+
+    try {
+      const { noteTags } = await this.database.getBearSchema();
+
+      // substr() rather than LIKE so underscores in tag names aren't treated as wildcards
+      const conditions = tags
+        .map(
+          () =>
+            "(LOWER(t.ZTITLE) = LOWER(?) OR substr(LOWER(t.ZTITLE), 1, length(?) + 1) = LOWER(?) || '/')"
+        )
+        .join(' OR ');
+
+      return await this.database.query<TaggedNoteRow>(
+        `
+        SELECT DISTINCT n.Z_PK, n.ZTITLE, n.ZTEXT, n.ZUNIQUEIDENTIFIER, n.ZMODIFICATIONDATE,
+          n.ZENCRYPTED
+        FROM ZSFNOTE n
+        JOIN ${noteTags.table} nt ON n.Z_PK = nt.${noteTags.noteColumn}
+        JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+        WHERE n.ZTRASHED = 0 AND (${conditions})
+        ORDER BY n.ZMODIFICATIONDATE DESC
+      `,
+        tags.flatMap(tag => [tag, tag, tag])
+      );
+    } finally {
+      await this.database.disconnect();
+    }
+  }
+
+  /**
+   * Replace the source hashtags in each affected note and send the new text through add-text
+   */
+  private async rewriteTags(
+    sources: string[],
+    target: string,
+    warnings: string[],
+    dryRun: boolean = false
+  ): Promise<TagChangeResult> {
+    const notes = await this.findTaggedNotes(sources);
+    const results: TagChangeNote[] = [];
+    const planned: Array<{ note: TaggedNoteRow; url: string }> = [];
+
+    for (const note of notes) {
+      if (note.ZENCRYPTED === 1 || note.ZTEXT === null) {
+        results.push({
+          noteId: note.Z_PK,
+          title: note.ZTITLE,
+          status: 'skipped',
+          reason: 'Note is encrypted',
+        });
+        continue;
       }
 
-      // Process each note
-      let successCount = 0;
-      for (const note of notes) {
-        try {
-          // Get the full note content for effective parsing trigger
-          const fullNote = await this.database.queryOne<{ ZTEXT: string }>(
-            `
-            SELECT ZTEXT FROM ZSFNOTE WHERE Z_PK = ?
-          `,
-            [note.Z_PK]
-          );
+      let text = note.ZTEXT;
+      let replacements = 0;
+      for (const source of sources) {
+        const renamed = renameTagInText(text, source, target);
+        text = renamed.text;
+        replacements += renamed.replacements;
+      }
 
-          if (fullNote?.ZTEXT) {
-            await this.triggerBearParseEffectively(
-              note.ZUNIQUEIDENTIFIER,
-              fullNote.ZTEXT,
-              note.ZTITLE
-            );
-            successCount++;
-          }
+      if (replacements === 0) {
+        results.push({
+          noteId: note.Z_PK,
+          title: note.ZTITLE,
+          status: 'skipped',
+          reason: 'No inline hashtag found outside code',
+        });
+        continue;
+      }
 
-          // Small delay between notes to avoid overwhelming Bear
-          await new Promise(resolve => setTimeout(resolve, 200));
-        } catch {
-          // Silent error handling to avoid JSON-RPC interference
-        }
+      const url = `bear://x-callback-url/add-text?id=${encodeURIComponent(note.ZUNIQUEIDENTIFIER)}&mode=replace_all&text=${encodeURIComponent(text)}&show_window=no`;
+      planned.push({ note, url });
+      results.push({ noteId: note.Z_PK, title: note.ZTITLE, status: 'updated', replacements });
+    }
+
+    const result: TagChangeResult = {
+      method: 'rewrite',
+      sources,
+      target,
+      notes: results,
+      urls: planned.map(entry => entry.url),
+      tagWarnings: warnings.length > 0 ? warnings : undefined,
+    };
+
+    if (dryRun) {
+      return { ...result, dryRun: true };
+    }
+
+    const sent: number[] = [];
+    for (const { note, url } of planned) {
+      // Don't overwrite edits made since the note was read
+      const changed = await this.hasChangedSince(note.Z_PK, note.ZMODIFICATIONDATE);
+      if (changed) {
+        const entry = results.find(item => item.noteId === note.Z_PK)!;
+        entry.status = 'skipped';
+        entry.reason = 'Note changed while tags were being rewritten; run the tool again';
+        delete entry.replacements;
+        continue;
       }
 
-      return `Triggered hashtag parsing for ${successCount}/${notes.length} notes. Check Bear's sidebar in a few seconds.`;
-    } catch (error) {
-      throw new Error(
-        `Failed to batch trigger hashtag parsing: ${error instanceof Error ? error.message : 'Unknown error'}`
+      await this.bearApi.dispatch(url);
+      sent.push(note.Z_PK);
+    }
+
+    result.urls = planned.filter(entry => sent.includes(entry.note.Z_PK)).map(entry => entry.url);
+    // Nothing was sent when every note was skipped, so there is nothing to wait for
+    if (sent.length > 0) {
+      result.verification = await this.verifyTagChange(sources, target, sent);
+    }
+
+    return result;
+  }
+
+  private async hasChangedSince(noteId: number, modificationDate: number): Promise<boolean> {
+    await this.database.connect(true);
+
+    try {
+      const note = await this.database.queryOne<{ ZMODIFICATIONDATE: number }>(
+        'SELECT ZMODIFICATIONDATE FROM ZSFNOTE WHERE Z_PK = ?',
+        [noteId],
+        { cache: false }
       );
+      return !note || note.ZMODIFICATIONDATE !== modificationDate;
     } finally {
       await this.database.disconnect();
     }
   }
 
   /**
-   * Most effective method to trigger Bear's hashtag parsing
-   * Uses Bear's API to update the note with its own content, forcing a reparse
+   * Wait until the target tag exists, the rewritten notes carry it, and none of the notes still
+   * carry a source tag. Without noteIds (a rename-tag call) every note in the library is checked.
+   * A source the target is nested under (a -> a/b) stays on the notes as the target's ancestor,
+   * so only the target is checked for it.
    */
-  private async triggerBearParseEffectively(
-    noteUUID: string,
-    noteContent: string,
-    noteTitle?: string
-  ): Promise<void> {
+  private async verifyTagChange(
+    sources: string[],
+    target: string,
+    noteIds?: number[]
+  ): Promise<WriteVerification> {
+    const startedAt = Date.now();
+    const replaced = sources.filter(
+      source => !target.toLowerCase().startsWith(`${source.toLowerCase()}/`)
+    );
+
+    await this.database.connect(true);
+
     try {
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
-
-      // CRITICAL FIX: Remove duplicate title headers before triggering reparse
-      // This prevents duplicate titles when hashtag parsing updates notes with existing headers
-      let processedContent = noteContent;
-      if (noteTitle) {
-        const titleHeaderPattern = new RegExp(
-          `^#\\s+${noteTitle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\n+`,
-          'i'
+      const { noteTags } = await this.database.getBearSchema();
+      const verified = await pollUntil(async () => {
+        const targetTag = await this.database.queryOne<{ Z_PK: number }>(
+          'SELECT Z_PK FROM ZSFNOTETAG WHERE LOWER(ZTITLE) = LOWER(?)',
+          [target],
+          { cache: false }
         );
-        if (titleHeaderPattern.test(processedContent)) {
-          processedContent = processedContent.replace(titleHeaderPattern, '');
+        if (!targetTag) {
+          return null;
         }
-      }
 
-      // Use Bear's API to replace the note content with itself
-      // This forces Bear to reparse all hashtags in the content
-      const encodedContent = encodeURIComponent(processedContent);
-      const bearURL = `bear://x-callback-url/add-text?id=${noteUUID}&mode=replace&text=${encodedContent}&show_window=no`;
+        const notePlaceholders = noteIds?.map(() => '?').join(', ');
+        if (noteIds) {
+          const row = await this.database.queryOne<{ missing: number }>(
+            `
+            SELECT COUNT(*) AS missing
+            FROM ZSFNOTE n
+            WHERE n.Z_PK IN (${notePlaceholders})
+              AND NOT EXISTS (
+                SELECT 1 FROM ${noteTags.table} nt
+                WHERE nt.${noteTags.noteColumn} = n.Z_PK AND nt.${noteTags.tagColumn} = ?
+              )
+          `,
+            [...noteIds, targetTag.Z_PK],
+            { cache: false }
+          );
+          if (!row || row.missing > 0) {
+            return null;
+          }
+        }
 
-      await execAsync(`open "${bearURL}"`);
+        if (replaced.length === 0) {
+          return true;
+        }
 
-      // Wait for Bear to process the update and reparse hashtags
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    } catch (error) {
-      throw new Error(
-        `Failed to trigger effective Bear parsing: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+        let sql = `
+          SELECT COUNT(*) AS remaining
+          FROM ${noteTags.table} nt
+          JOIN ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+          JOIN ZSFNOTE n ON nt.${noteTags.noteColumn} = n.Z_PK
+          WHERE n.ZTRASHED = 0 AND LOWER(t.ZTITLE) IN (${replaced.map(() => '?').join(', ')})
+        `;
+        const params: SqlParameters = replaced.map(source => source.toLowerCase());
+        if (noteIds) {
+          sql += ` AND n.Z_PK IN (${notePlaceholders})`;
+          params.push(...noteIds);
+        }
+
+        const row = await this.database.queryOne<{ remaining: number }>(sql, params, {
+          cache: false,
+        });
+        return row && row.remaining === 0 ? true : null;
+      }, this.bearApi.verification);
+
+      return verified
+        ? { status: 'verified', elapsedMs: Date.now() - startedAt }
+        : {
+            status: 'pending',
+            elapsedMs: Date.now() - startedAt,
+            detail: 'Bear has not applied the change yet; it may be closed or busy',
+          };
+    } finally {
+      await this.database.disconnect();
     }
   }
 
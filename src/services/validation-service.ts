@@ -12,6 +12,14 @@ import {
   InvalidRangeError,
   ErrorContext,
 } from '../types/errors.js';
+import {
+  isToolName,
+  parseToolArguments,
+  ToolArguments,
+  ToolName,
+  TOOLS,
+  validationErrors,
+} from '../utils/tool-schemas.js';
 
 export interface ValidationRule<T = unknown> {
   required?: boolean;
@@ -66,6 +74,11 @@ export interface IValidationService {
    */
   validateMcpArgs(method: string, args: Record<string, unknown>): ValidationResult;
 
+  /**
+   * Check a tool call's arguments against its schema, throwing the first ValidationError
+   */
+  parseToolArguments<N extends ToolName>(tool: N, args: Record<string, unknown>): ToolArguments<N>;
+
   /**
    * Validate note data
    */
@@ -86,73 +99,6 @@ export interface IValidationService {
  * Validation Service Implementation
  */
 export class ValidationService implements IValidationService {
-  private readonly mcpSchemas: Record<string, ValidationSchema> = {
-    get_notes: {
-      limit: { type: 'number', min: 1, max: 1000 },
-      offset: { type: 'number', min: 0 },
-      include_trashed: { type: 'boolean' },
-      sort_by: { type: 'string', enum: ['created', 'modified', 'title'] as const },
-    },
-
-    get_note_by_id: {
-      note_id: { required: true, type: 'number', min: 1 },
-    },
-
-    get_note_by_title: {
-      title: { required: true, type: 'string', minLength: 1, maxLength: 1000 },
-      exact_match: { type: 'boolean' },
-    },
-
-    get_recent_notes: {
-      days: { type: 'number', min: 1, max: 365 },
-      limit: { type: 'number', min: 1, max: 1000 },
-    },
-
-    search_notes: {
-      query: { required: true, type: 'string', minLength: 1, maxLength: 1000 },
-      limit: { type: 'number', min: 1, max: 1000 },
-      include_archived: { type: 'boolean' },
-      case_sensitive: { type: 'boolean' },
-    },
-
-    search_notes_full_text: {
-      query: { required: true, type: 'string', minLength: 1, maxLength: 1000 },
-      limit: { type: 'number', min: 1, max: 1000 },
-      highlight: { type: 'boolean' },
-    },
-
-    get_notes_by_tag: {
-      tag: { required: true, type: 'string', minLength: 1, maxLength: 100 },
-      limit: { type: 'number', min: 1, max: 1000 },
-      exact_match: { type: 'boolean' },
-    },
-
-    create_note: {
-      title: { required: true, type: 'string', minLength: 1, maxLength: 1000 },
-      text: { type: 'string', maxLength: 1000000 },
-      tags: { type: 'array' },
-      open_note: { type: 'boolean' },
-    },
-
-    update_note: {
-      note_id: { required: true, type: 'number', min: 1 },
-      title: { type: 'string', minLength: 1, maxLength: 1000 },
-      text: { type: 'string', maxLength: 1000000 },
-      tags: { type: 'array' },
-    },
-
-    duplicate_note: {
-      note_id: { required: true, type: 'number', min: 1 },
-      new_title: { type: 'string', minLength: 1, maxLength: 1000 },
-      open_note: { type: 'boolean' },
-    },
-
-    archive_note: {
-      note_id: { required: true, type: 'number', min: 1 },
-      archived: { required: true, type: 'boolean' },
-    },
-  };
-
   private readonly noteSchema: ValidationSchema = {
     title: {
       required: true,
@@ -373,11 +319,10 @@ export class ValidationService implements IValidationService {
   }
 
   /**
-   * Validate MCP method arguments
+   * Validate MCP method arguments against the tool's schema in utils/tool-schemas
    */
   validateMcpArgs(method: string, args: Record<string, unknown>): ValidationResult {
-    const schema = this.mcpSchemas[method];
-    if (!schema) {
+    if (!isToolName(method)) {
       return {
         isValid: false,
         errors: [
@@ -389,7 +334,17 @@ export class ValidationService implements IValidationService {
       };
     }
 
-    return this.validate(args, schema, { operation: 'validateMcpArgs', method });
+    const result = TOOLS[method].arguments.safeParse(args);
+    return result.success
+      ? { isValid: true, errors: [], sanitizedData: result.data }
+      : { isValid: false, errors: validationErrors(method, result.error, args) };
+  }
+
+  /**
+   * Check a tool call's arguments against its schema, throwing the first ValidationError
+   */
+  parseToolArguments<N extends ToolName>(tool: N, args: Record<string, unknown>): ToolArguments<N> {
+    return parseToolArguments(tool, args);
   }
 
   /**
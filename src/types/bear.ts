@@ -5,6 +5,7 @@
 
 export interface BearNote {
   Z_PK: number; // Primary key
+  ZUNIQUEIDENTIFIER?: string | null; // Bear's note ID, used in bear:// URLs
   ZTITLE: string | null; // Note title
   ZTEXT: string | null; // Note content (markdown)
   ZCREATIONDATE: number; // Creation timestamp (Core Data format)
@@ -16,6 +17,7 @@ export interface BearNote {
   ZORDER: number | null; // Display order
   ZTRASHEDDATE: number | null; // Date when trashed
   ZARCHIVEDDATE: number | null; // Date when archived
+  ZTODOINCOMPLETED?: number | null; // Open "- [ ]" tasks in the note
 }
 
 export interface BearTag {
@@ -84,6 +86,16 @@ export interface NoteSearchOptions {
   offset?: number; // Pagination offset
 }
 
+/**
+ * Which notes a batch hashtag parse covers
+ */
+export interface HashtagParsingFilter {
+  tag_filter?: string;
+  title_pattern?: string;
+  limit?: number;
+  created_after?: string;
+}
+
 export interface NoteCreateOptions {
   title?: string;
   content: string;
@@ -92,6 +104,225 @@ export interface NoteCreateOptions {
   archived?: boolean;
 }
 
+/**
+ * How update text is combined with a note, matching Bear's add-text `mode` parameter
+ */
+export type NoteEditMode = 'append' | 'prepend' | 'replace' | 'replace_all';
+
+/**
+ * What a write would do, returned instead of performing it when dryRun is set
+ */
+export interface WritePreview {
+  urls: string[];
+  sanitizedTags?: string[];
+  tagWarnings?: string[];
+  diff: string;
+}
+
+/**
+ * Outcome of checking a write against the database after it was sent to Bear
+ * - verified: the note changed and has the requested content and tags
+ * - pending: Bear hasn't applied the change yet (it may be closed or busy)
+ * - failed: the note changed but doesn't match the request, or is gone
+ */
+export type WriteVerificationStatus = 'verified' | 'pending' | 'failed';
+
+export interface WriteVerification {
+  status: WriteVerificationStatus;
+  elapsedMs: number;
+  detail?: string;
+}
+
+/**
+ * How long to wait for Bear to apply a write and how often to look
+ * The delay between checks doubles from initialIntervalMs up to maxIntervalMs
+ */
+export interface WriteVerificationOptions {
+  timeoutMs: number;
+  initialIntervalMs: number;
+  maxIntervalMs: number;
+}
+
+/**
+ * A note affected by a tag rename or merge
+ */
+export interface TagChangeNote {
+  noteId: number;
+  title: string;
+  status: 'updated' | 'skipped';
+  replacements?: number;
+  reason?: string;
+}
+
+/**
+ * Outcome of renaming or merging tags
+ * `rename-tag` means Bear renamed the tag itself; `rewrite` means each note's hashtags were
+ * rewritten through add-text
+ */
+export interface TagChangeResult {
+  method: 'rename-tag' | 'rewrite';
+  sources: string[];
+  target: string;
+  notes: TagChangeNote[];
+  urls: string[];
+  tagWarnings?: string[];
+  dryRun?: boolean;
+  verification?: WriteVerification;
+}
+
+/**
+ * Something wrong with a tag's place in the hierarchy
+ * - orphan: the parent named by the tag's path (or its ZPARENT row) doesn't exist
+ * - inconsistent: ZPARENT points at a different tag than the path implies
+ * - missing: no tag row exists for this path; the node only holds its children together
+ */
+export interface TagHierarchyIssue {
+  type: 'orphan' | 'inconsistent' | 'missing';
+  detail: string;
+}
+
+export interface TagHierarchyNode {
+  /** Z_PK of the tag, or null for a missing intermediate tag */
+  id: number | null;
+  name: string;
+  path: string;
+  /** 0 for top-level tags */
+  depth: number;
+  /** Notes carrying this tag but none of its descendants */
+  directNoteCount: number;
+  /** Distinct notes carrying this tag or any descendant */
+  totalNoteCount: number;
+  children: TagHierarchyNode[];
+  issues?: TagHierarchyIssue[];
+}
+
+export interface TagHierarchy {
+  roots: TagHierarchyNode[];
+  totalTags: number;
+  maxDepth: number;
+  issues: Array<TagHierarchyIssue & { path: string }>;
+  /** The tree as an indented outline */
+  outline: string;
+}
+
+/**
+ * How often two tags share notes
+ * lift > 1 means they appear together more often than chance; jaccard is shared / either
+ */
+export interface TagPairStats {
+  tags: [string, string];
+  sharedNotes: number;
+  lift: number;
+  jaccard: number;
+}
+
+export interface TagCluster {
+  tags: string[];
+  noteCount: number;
+}
+
+/**
+ * Two tags that are probably meant to be one
+ * - same-sanitized: they sanitize to the same tag (e.g. "To-Do" and "todo")
+ * - plural: one is the plural of the other
+ * - edit-distance: the names differ by a typo or two
+ */
+export interface TagMergeSuggestion {
+  tags: [string, string];
+  reason: 'same-sanitized' | 'plural' | 'edit-distance';
+  /** The tag to keep: the sanitized form when it exists, otherwise the more used tag */
+  suggestedTarget: string;
+  noteCounts: Record<string, number>;
+}
+
+export interface TagRelationshipAnalysis {
+  totalNotes: number;
+  totalTags: number;
+  /** Co-occurrence counts for the most used tags; counts[i][i] is the tag's own note count */
+  matrix: { tags: string[]; counts: number[][] };
+  pairs: TagPairStats[];
+  clusters: TagCluster[];
+  mergeSuggestions: TagMergeSuggestion[];
+  singleUseTags: Array<{ tag: string; noteId: number; title: string }>;
+}
+
+export interface TagMonthlyUsage {
+  /** YYYY-MM, UTC */
+  month: string;
+  /** Notes created that month */
+  created: number;
+  /** Notes last modified that month */
+  modified: number;
+}
+
+/**
+ * - rising / declining: more or less activity in the second half of the window than the first
+ * - dormant: no note with the tag was touched in the last few months
+ */
+export type TagTrend = 'rising' | 'declining' | 'steady' | 'dormant';
+
+export interface TagUsageTrend {
+  tag: string;
+  noteCount: number;
+  months: TagMonthlyUsage[];
+  totalCreated: number;
+  totalModified: number;
+  lastActivity: string | null;
+  trend: TagTrend;
+  /** Activity in the second half of the window minus the first half */
+  change: number;
+}
+
+export interface TagUsageTrends {
+  months: string[];
+  tags: TagUsageTrend[];
+  rising: string[];
+  declining: string[];
+  dormant: Array<{ tag: string; lastActivity: string | null }>;
+}
+
+/**
+ * One regex match, located by 1-based line and column within the title or note text
+ */
+export interface RegexLineMatch {
+  line: number;
+  column: number;
+  match: string;
+  groups?: Array<string | null>;
+  context?: {
+    before: string[];
+    lines: string[];
+    after: string[];
+  };
+}
+
+export interface RegexNoteMatches {
+  noteId: number;
+  title: string;
+  tags: string[];
+  modifiedAt: string;
+  titleMatches: RegexLineMatch[];
+  contentMatches: RegexLineMatch[];
+  /** More matches exist in this note than were returned */
+  truncated?: boolean;
+}
+
+export interface RegexSearchResult {
+  pattern: string;
+  flags: string;
+  notesScanned: number;
+  results: RegexNoteMatches[];
+  /** Notes skipped because the pattern ran past its per-note time budget */
+  timedOut: Array<{ noteId: number; title: string }>;
+  /** The note limit was reached before every note was scanned */
+  limitReached: boolean;
+  /** The scan ran out of time, or too many notes timed out, before every note was scanned */
+  stoppedEarly?: 'deadline' | 'timeouts';
+  /** Resumes the scan after the last note scanned; null once every note has been scanned */
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
 export interface NoteUpdateOptions {
   title?: string;
   content?: string;
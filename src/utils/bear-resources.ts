@@ -0,0 +1,73 @@
+/**
+ * Bear MCP Server - Bear Resources
+ * The bear:// URIs under which notes, tags and attachments are exposed as MCP resources.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { ValidationError } from '../types/errors.js';
+
+export type BearResource =
+  | { kind: 'note'; uniqueId: string }
+  | { kind: 'tag'; path: string }
+  | { kind: 'attachment'; id: number };
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'bear://note/{uuid}',
+    name: 'Bear note',
+    description: "A note's markdown, by the unique ID Bear uses in its own links",
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'bear://tag/{path}',
+    name: 'Bear tag',
+    description: 'Links to the notes with a tag, e.g. bear://tag/work/projects',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'bear://attachment/{id}',
+    name: 'Bear attachment',
+    description: 'An attached file, by the id get_file_attachments reports',
+  },
+];
+
+export function noteUri(uniqueId: string): string {
+  return `bear://note/${encodeURIComponent(uniqueId)}`;
+}
+
+/**
+ * Tag paths keep their slashes, so nested tags read like bear://tag/work/projects
+ */
+export function tagUri(tagPath: string): string {
+  return `bear://tag/${tagPath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+export function parseResourceUri(uri: string): BearResource {
+  const match = /^bear:\/\/(note|tag|attachment)\/(.+)$/.exec(uri);
+  let value: string | null = null;
+  try {
+    value = match ? decodeURIComponent(match[2]) : null;
+  } catch {
+    value = null;
+  }
+
+  if (!match || !value) {
+    throw new ValidationError(
+      `Unknown resource "${uri}" (use bear://note/{uuid}, bear://tag/{path} or bear://attachment/{id})`,
+      'uri',
+      uri
+    );
+  }
+
+  if (match[1] === 'note') {
+    return { kind: 'note', uniqueId: value };
+  }
+  if (match[1] === 'tag') {
+    return { kind: 'tag', path: value };
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError(`Invalid attachment id "${value}"`, 'uri', uri);
+  }
+  return { kind: 'attachment', id: Number(value) };
+}
@@ -0,0 +1,150 @@
+/**
+ * Bear MCP Server - Bear Schema
+ * Core Data names the table linking notes to tags after the entities' numbers, e.g. Z_5TAGS with
+ * columns Z_5NOTES and Z_13TAGS, and those numbers change between Bear releases. The layout is
+ * read from Z_PRIMARYKEY and sqlite_master when the database is opened, and SQL that touches the
+ * join table or a column older libraries lack is built from it.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { BearDatabaseError } from '../types/bear.js';
+
+export interface NoteTagTable {
+  /** e.g. Z_5TAGS */
+  table: string;
+  /** References ZSFNOTE.Z_PK, e.g. Z_5NOTES */
+  noteColumn: string;
+  /** References ZSFNOTETAG.Z_PK, e.g. Z_13TAGS */
+  tagColumn: string;
+}
+
+export interface BearSchema {
+  noteTags: NoteTagTable;
+  /** Columns of ZSFNOTE */
+  noteColumns: ReadonlySet<string>;
+}
+
+type Query = <T>(sql: string) => Promise<T[]>;
+
+// Columns every query relies on; without one of them the library can't be read at all
+const REQUIRED_COLUMNS: Record<string, string[]> = {
+  ZSFNOTE: [
+    'Z_PK',
+    'ZTITLE',
+    'ZTEXT',
+    'ZUNIQUEIDENTIFIER',
+    'ZCREATIONDATE',
+    'ZMODIFICATIONDATE',
+    'ZTRASHED',
+    'ZTRASHEDDATE',
+    'ZARCHIVED',
+    'ZPINNED',
+    'ZENCRYPTED',
+  ],
+  ZSFNOTETAG: ['Z_PK', 'ZTITLE'],
+};
+
+// Counters Bear keeps per note that not every version has; queries read them as 0 when absent
+export const OPTIONAL_NOTE_COLUMNS = [
+  'ZTODOCOMPLETED',
+  'ZTODOINCOMPLETED',
+  'ZHASIMAGES',
+  'ZHASFILES',
+  'ZHASSOURCECODE',
+] as const;
+
+export type OptionalNoteColumn = (typeof OPTIONAL_NOTE_COLUMNS)[number];
+
+const NOTE_ENTITY = 'SFNote';
+const TAG_ENTITY = 'SFNoteTag';
+
+/**
+ * Read the note-tag join table and ZSFNOTE's columns from an open Bear database
+ */
+export async function discoverBearSchema(query: Query): Promise<BearSchema> {
+  const tables = new Set(
+    (await query<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table'")).map(
+      row => row.name
+    )
+  );
+  const columnsOf = async (table: string): Promise<Set<string>> =>
+    new Set(
+      (await query<{ name: string }>(`PRAGMA table_info(${quoteIdentifier(table)})`)).map(
+        row => row.name
+      )
+    );
+
+  const columns = new Map<string, Set<string>>();
+  for (const [table, required] of Object.entries(REQUIRED_COLUMNS)) {
+    if (!tables.has(table)) {
+      throw new BearDatabaseError(
+        `Unsupported Bear database: table ${table} not found`,
+        'SCHEMA_MISMATCH'
+      );
+    }
+    const present = await columnsOf(table);
+    const missing = required.filter(column => !present.has(column));
+    if (missing.length > 0) {
+      throw new BearDatabaseError(
+        `Unsupported Bear database: ${table} is missing required column${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`,
+        'SCHEMA_MISMATCH'
+      );
+    }
+    columns.set(table, present);
+  }
+
+  const entities = tables.has('Z_PRIMARYKEY')
+    ? new Map(
+        (
+          await query<{ Z_ENT: number; Z_NAME: string }>(
+            `SELECT Z_ENT, Z_NAME FROM Z_PRIMARYKEY
+             WHERE Z_NAME IN ('${NOTE_ENTITY}', '${TAG_ENTITY}')`
+          )
+        ).map(row => [row.Z_NAME, row.Z_ENT])
+      )
+    : new Map<string, number>();
+  const noteEntity = entities.get(NOTE_ENTITY);
+  const tagEntity = entities.get(TAG_ENTITY);
+
+  // Join tables are Z_<entity><RELATIONSHIP>, with one Z_<entity><RELATIONSHIP> column per side.
+  // Without Z_PRIMARYKEY the entity numbers are unknown, so fall back to the relationship names
+  const notePattern = new RegExp(`^Z_${noteEntity ?? '\\d+'}${noteEntity ? '[A-Z]+' : 'NOTES'}$`);
+  const tagPattern = new RegExp(`^Z_${tagEntity ?? '\\d+'}${tagEntity ? '[A-Z]+' : 'TAGS'}$`);
+
+  const candidates = [...tables].filter(table => /^Z_\d+[A-Z]+$/.test(table)).sort();
+  for (const table of candidates) {
+    const joinColumns = [...(await columnsOf(table))];
+    const noteColumn = joinColumns.find(column => notePattern.test(column));
+    const tagColumn = joinColumns.find(column => tagPattern.test(column));
+    if (noteColumn && tagColumn && noteColumn !== tagColumn) {
+      return {
+        noteTags: { table, noteColumn, tagColumn },
+        noteColumns: columns.get('ZSFNOTE')!,
+      };
+    }
+  }
+
+  const entityNote =
+    noteEntity !== undefined && tagEntity !== undefined
+      ? ` between ${NOTE_ENTITY} (entity ${noteEntity}) and ${TAG_ENTITY} (entity ${tagEntity})`
+      : '';
+  throw new BearDatabaseError(
+    `Unsupported Bear database: no note-tag join table${entityNote} found`,
+    'SCHEMA_MISMATCH'
+  );
+}
+
+/**
+ * SQL for an optional ZSFNOTE column, or 0 when this library doesn't have it
+ */
+export function noteColumn(schema: BearSchema, column: OptionalNoteColumn, alias?: string): string {
+  if (!schema.noteColumns.has(column)) {
+    return '0';
+  }
+  return alias ? `${alias}.${column}` : column;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,146 @@
+/**
+ * Bear MCP Server - Bear Text Model
+ * How Bear composes note text from x-callback-url parameters, used to preview writes
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+/**
+ * Bear's title for a note: the first non-empty line without its heading markers
+ */
+export function titleFromText(text: string): string {
+  const firstLine = text.split('\n').find(line => line.trim()) || '';
+  return firstLine.replace(/^#+\s*/, '').trim();
+}
+
+function hashtagLine(tags: string | undefined): string {
+  return (tags || '')
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean)
+    .map(tag => `#${tag}`)
+    .join(' ');
+}
+
+/**
+ * Text of a note created by the `create` action
+ */
+export function composeCreatedText(params: Record<string, string>): string {
+  const parts: string[] = [];
+  if (params.title) {
+    parts.push(`# ${params.title}`);
+  }
+  if (params.text) {
+    parts.push(params.text);
+  }
+  const tags = hashtagLine(params.tags);
+  if (tags) {
+    parts.push(tags);
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Text of a note after an `add-text` action is applied to it
+ */
+export function applyAddText(current: string, params: Record<string, string>): string {
+  const added = [params.text || '', hashtagLine(params.tags)].filter(Boolean).join('\n');
+
+  if (params.header !== undefined) {
+    return applyToSection(current, params.header, params.mode || 'append', added);
+  }
+
+  const [titleLine, ...bodyLines] = current.split('\n');
+  const header = params.title !== undefined ? `# ${params.title}` : titleLine;
+
+  switch (params.mode || 'append') {
+    case 'replace_all':
+      return params.title !== undefined ? `${header}\n${added}` : added;
+    case 'replace':
+      return `${header}\n${added}`;
+    case 'prepend':
+      return [header, added, ...bodyLines].join('\n');
+    case 'append':
+    default:
+      return params.new_line === 'yes' || !current ? `${current}\n${added}` : current + added;
+  }
+}
+
+/**
+ * Apply add-text to the section under a heading; the section runs to the next heading of the
+ * same or a higher level
+ */
+function applyToSection(current: string, header: string, mode: string, added: string): string {
+  const lines = current.split('\n');
+  const level = (line: string) => line.match(/^(#{1,6})\s/)?.[1].length ?? 0;
+  const start = lines.findIndex(
+    line => level(line) > 0 && line.replace(/^#+\s*/, '').trim() === header.trim()
+  );
+  if (start === -1) {
+    return current;
+  }
+
+  let end = start + 1;
+  while (
+    end < lines.length &&
+    (level(lines[end]) === 0 || level(lines[end]) > level(lines[start]))
+  ) {
+    end++;
+  }
+  // Keep blank lines separating this section from the next one outside of it
+  let contentEnd = end;
+  while (contentEnd > start + 1 && !lines[contentEnd - 1].trim()) {
+    contentEnd--;
+  }
+
+  const section = lines.slice(start + 1, contentEnd);
+  const addedLines = added.split('\n');
+  let replaced: string[];
+  switch (mode) {
+    case 'replace':
+      replaced = addedLines;
+      break;
+    case 'prepend':
+      replaced = [...addedLines, ...section];
+      break;
+    case 'append':
+    default:
+      replaced = [...section, ...addedLines];
+      break;
+  }
+
+  return [...lines.slice(0, start + 1), ...replaced, ...lines.slice(contentEnd)].join('\n');
+}
+
+/**
+ * Rewrite inline hashtags for a tag and its nested tags: with `from` "work" and `to` "job",
+ * `#work`, `#work/projects` and `#work#` become `#job`, `#job/projects` and `#job#`.
+ * Code blocks and inline code are left alone since Bear doesn't read tags there.
+ */
+export function renameTagInText(
+  text: string,
+  from: string,
+  to: string
+): { text: string; replacements: number } {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // A tag ends at whitespace, a closing #, a nested tag separator or trailing punctuation
+  const pattern = new RegExp(`(^|\\s)#${escaped}(?=[/#\\s.,;:!?)]|$)`, 'gim');
+  let replacements = 0;
+
+  const rewritten = text
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((segment, index) => {
+      // Odd segments are the code captured by the split
+      if (index % 2 === 1) {
+        return segment;
+      }
+      return segment.replace(pattern, (_match, lead: string) => {
+        replacements++;
+        return `${lead}#${to}`;
+      });
+    })
+    .join('');
+
+  return { text: rewritten, replacements };
+}
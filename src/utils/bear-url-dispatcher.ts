@@ -0,0 +1,72 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A parsed bear://x-callback-url call
+ */
+export interface BearUrlCall {
+  url: string;
+  action: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Delivers Bear x-callback-url calls to Bear
+ * All sync-safe writes go through Bear's URL scheme; the dispatcher decides how a URL reaches Bear
+ */
+export interface BearUrlDispatcher {
+  dispatch(url: string): Promise<void>;
+}
+
+/**
+ * Split a bear://x-callback-url URL into its action and decoded parameters
+ */
+export function parseBearUrl(url: string): BearUrlCall {
+  const match = url.match(/^bear:\/\/x-callback-url\/([\w-]+)(?:\?(.*))?$/);
+  if (!match) {
+    throw new Error(`Not a Bear x-callback-url: ${url}`);
+  }
+
+  const params: Record<string, string> = {};
+  for (const pair of (match[2] || '').split('&').filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    const key = separator === -1 ? pair : pair.slice(0, separator);
+    const value = separator === -1 ? '' : pair.slice(separator + 1);
+    params[decodeURIComponent(key)] = decodeURIComponent(value);
+  }
+
+  return { url, action: match[1], params };
+}
+
+/**
+ * macOS dispatcher: hands the URL to Bear with `open`
+ * Bear applies the call asynchronously; callers confirm the result by polling the database
+ */
+export class OpenCommandDispatcher implements BearUrlDispatcher {
+  async dispatch(url: string): Promise<void> {
+    // Passed as an argument, not through a shell, so nothing in the URL is interpreted
+    await execFileAsync('open', [url]);
+  }
+}
+
+/**
+ * Dispatcher that only records the calls it receives
+ * Useful for inspecting the exact URLs a write would send without touching Bear
+ */
+export class RecordingBearDispatcher implements BearUrlDispatcher {
+  readonly calls: BearUrlCall[] = [];
+
+  async dispatch(url: string): Promise<void> {
+    this.calls.push(parseBearUrl(url));
+  }
+
+  get urls(): string[] {
+    return this.calls.map(call => call.url);
+  }
+
+  clear(): void {
+    this.calls.length = 0;
+  }
+}
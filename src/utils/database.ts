@@ -5,6 +5,7 @@ import { exec } from 'child_process';
 import path from 'path';
 import os from 'os';
 import { BearDatabaseError, BearSafetyError, SQLParameter } from '../types/bear.js';
+import { BearSchema, discoverBearSchema } from './bear-schema.js';
 
 const execAsync = promisify(exec);
 
@@ -13,6 +14,9 @@ const execAsync = promisify(exec);
  */
 export class BearDatabase {
   private db: sqlite3.Database | null = null;
+  private schema: BearSchema | null = null;
+  private opening: Promise<void> | null = null;
+  private users = 0; // connect() calls not yet matched by disconnect()
   private readonly dbPath: string;
   private readonly backupDir: string;
 
@@ -126,50 +130,64 @@ export class BearDatabase {
 
   /**
    * Request permission to access Bear's database directory
+   * Databases outside Bear's group container (e.g. BEAR_DB_PATH copies or test fixtures)
+   * don't need Full Disk Access, so only the file itself is checked for them
    */
   async requestDatabasePermission(): Promise<boolean> {
+    const bearContainerPath = path.join(
+      os.homedir(),
+      'Library/Group Containers/9K33E3U3T4.net.shinyfrog.bear'
+    );
+
+    if (!path.resolve(this.dbPath).startsWith(bearContainerPath)) {
+      try {
+        await access(this.dbPath, constants.R_OK);
+        return true;
+      } catch (error) {
+        throw new BearDatabaseError(
+          `Cannot access Bear database at ${this.dbPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
     try {
-      // Check if we can access the directory structure
-      const bearContainerPath = path.join(
-        os.homedir(),
-        'Library/Group Containers/9K33E3U3T4.net.shinyfrog.bear'
-      );
-      
       // First check if the Bear container directory exists
       await access(bearContainerPath, constants.R_OK);
-      
+
       // Try to access the database file specifically
       await access(this.dbPath, constants.R_OK);
-      
+
       return true; // Access granted
-    } catch (error) {
+    } catch {
       // Open System Preferences to Full Disk Access
       try {
-        await execAsync('open "x-apple.systempreferences:com.apple.preference.security?Privacy_AllFiles"');
-        
+        await execAsync(
+          'open "x-apple.systempreferences:com.apple.preference.security?Privacy_AllFiles"'
+        );
+
         throw new BearDatabaseError(
           '🔒 PERMISSION REQUIRED: Claude needs "Full Disk Access" to read Bear\'s database.\n\n' +
-          '📋 Steps to fix:\n' +
-          '   1. System Preferences → Privacy & Security → Full Disk Access should now be open\n' +
-          '   2. Click the "+" button and add "Claude Desktop" (or find it in the list)\n' +
-          '   3. Enable the checkbox next to Claude Desktop\n' +
-          '   4. Restart Claude Desktop completely\n' +
-          '   5. Try using this extension again\n\n' +
-          '💡 Why this is needed: Bear stores its data in a protected system directory that requires special permission to access.\n' +
-          '🔐 This is safe: The extension only reads your notes, never modifies Bear\'s database directly.'
+            '📋 Steps to fix:\n' +
+            '   1. System Preferences → Privacy & Security → Full Disk Access should now be open\n' +
+            '   2. Click the "+" button and add "Claude Desktop" (or find it in the list)\n' +
+            '   3. Enable the checkbox next to Claude Desktop\n' +
+            '   4. Restart Claude Desktop completely\n' +
+            '   5. Try using this extension again\n\n' +
+            '💡 Why this is needed: Bear stores its data in a protected system directory that requires special permission to access.\n' +
+            "🔐 This is safe: The extension only reads your notes, never modifies Bear's database directly."
         );
-      } catch (systemPrefError) {
+      } catch {
         // Fallback if we can't open system preferences
         throw new BearDatabaseError(
           '🔒 PERMISSION REQUIRED: Claude needs "Full Disk Access" to read Bear\'s database.\n\n' +
-          '📋 Manual steps to fix:\n' +
-          '   1. Open System Preferences → Privacy & Security → Full Disk Access\n' +
-          '   2. Click the "+" button and add "Claude Desktop"\n' +
-          '   3. Enable the checkbox next to Claude Desktop\n' +
-          '   4. Restart Claude Desktop completely\n' +
-          '   5. Try using this extension again\n\n' +
-          '💡 Why this is needed: Bear stores its data in a protected system directory.\n' +
-          '🔐 This is safe: The extension only reads your notes, never modifies them.'
+            '📋 Manual steps to fix:\n' +
+            '   1. Open System Preferences → Privacy & Security → Full Disk Access\n' +
+            '   2. Click the "+" button and add "Claude Desktop"\n' +
+            '   3. Enable the checkbox next to Claude Desktop\n' +
+            '   4. Restart Claude Desktop completely\n' +
+            '   5. Try using this extension again\n\n' +
+            '💡 Why this is needed: Bear stores its data in a protected system directory.\n' +
+            '🔐 This is safe: The extension only reads your notes, never modifies them.'
         );
       }
     }
@@ -179,30 +197,48 @@ export class BearDatabase {
    * Connect to the database with safety checks and permission handling
    */
   async connect(readOnly: boolean = true): Promise<void> {
-    if (this.db) {
-      return; // Already connected
+    // Calls may overlap, e.g. from several sessions; they share one handle
+    this.users++;
+    try {
+      if (!this.db && !this.opening) {
+        this.opening = this.open(readOnly).finally(() => {
+          this.opening = null;
+        });
+      }
+      await this.opening;
+    } catch (error) {
+      this.users--;
+      throw error;
     }
+  }
 
+  private async open(readOnly: boolean): Promise<void> {
     // First, request permission if needed
     await this.requestDatabasePermission();
 
     await this.performSafetyChecks(!readOnly);
 
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       const mode = readOnly ? sqlite3.OPEN_READONLY : sqlite3.OPEN_READWRITE;
 
       this.db = new sqlite3.Database(this.dbPath, mode, err => {
         if (err) {
           // Enhanced error message for permission issues
           let errorMessage = `Failed to connect to database: ${err.message}`;
-          if (err.message.includes('SQLITE_CANTOPEN') || err.message.includes('no such file') || err.message.includes('permission denied')) {
-            errorMessage += '\n\n🔒 PERMISSION ISSUE: Claude Desktop still needs "Full Disk Access" permission.\n' +
+          if (
+            err.message.includes('SQLITE_CANTOPEN') ||
+            err.message.includes('no such file') ||
+            err.message.includes('permission denied')
+          ) {
+            errorMessage +=
+              '\n\n🔒 PERMISSION ISSUE: Claude Desktop still needs "Full Disk Access" permission.\n' +
               '📋 Please ensure you have:\n' +
               '   1. Added Claude Desktop to Full Disk Access in System Preferences\n' +
               '   2. Enabled the checkbox next to Claude Desktop\n' +
               '   3. Completely restarted Claude Desktop\n' +
               '   4. If still having issues, try logging out and back in to macOS';
           }
+          this.db = null;
           reject(new BearDatabaseError(errorMessage));
         } else {
           // Connected to Bear database
@@ -210,29 +246,58 @@ export class BearDatabase {
         }
       });
     });
+
+    // Entity numbers differ between Bear releases, so the layout is read on every open
+    try {
+      this.schema = await discoverBearSchema(this.query.bind(this));
+    } catch (error) {
+      const db = this.db;
+      this.db = null;
+      db?.close();
+      throw error;
+    }
   }
 
   /**
    * Disconnect from the database
    */
   async disconnect(): Promise<void> {
-    if (!this.db) {
-      return;
+    this.users = Math.max(0, this.users - 1);
+    const db = this.db;
+    if (!db || this.users > 0) {
+      return; // Not connected, or still in use by another call
     }
 
+    this.db = null;
     return new Promise((resolve, reject) => {
-      this.db!.close(err => {
+      db.close(err => {
         if (err) {
           reject(new BearDatabaseError(`Failed to close database: ${err.message}`));
         } else {
           // Disconnected from Bear database
-          this.db = null;
           resolve();
         }
       });
     });
   }
 
+  /**
+   * Whether a connection is open, possibly shared with other callers
+   */
+  isConnected(): boolean {
+    return this.db !== null;
+  }
+
+  /**
+   * The join table and optional columns of the open database
+   */
+  getBearSchema(): BearSchema {
+    if (!this.db || !this.schema) {
+      throw new BearDatabaseError('Database not connected');
+    }
+    return this.schema;
+  }
+
   /**
    * Execute a SELECT query
    */
@@ -0,0 +1,386 @@
+/**
+ * Bear MCP Server - Full-Text Index
+ * An SQLite FTS5 index of note titles and text, kept in its own database file next to (never
+ * inside) Bear's. Bear's database is attached read-only so searches can filter and join on it.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import sqlite3 from 'sqlite3';
+import { NoteWithTags, SQLParameter } from '../types/bear.js';
+import { ValidationError } from '../types/errors.js';
+import { NoteTagTable } from './bear-schema.js';
+import { CoreDataUtils } from './database.js';
+import {
+  all,
+  closeIndexDatabase,
+  inTransaction,
+  IndexSchema,
+  openIndexDatabase,
+  run,
+} from './index-database.js';
+import { Page, queryPage, SortKey } from './pagination.js';
+
+const SCHEMA: IndexSchema = {
+  version: '1',
+  tables: ['notes_fts', 'indexed_notes'],
+  create: `
+    CREATE VIRTUAL TABLE notes_fts USING fts5(
+      title, body, tokenize = 'porter unicode61 remove_diacritics 2'
+    );
+    CREATE TABLE indexed_notes (note_id INTEGER PRIMARY KEY, modified REAL NOT NULL);`,
+};
+// Titles count five times as much as body text in BM25 ranking
+const TITLE_WEIGHT = 5.0;
+const SNIPPET_TOKENS = 16;
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+// bm25() is lower-is-better, so the best matches come first in ascending order
+const BY_RANK: SortKey = { name: 'rank', expression: 'page.rank', direction: 'ASC' };
+// Bumped in the meta table whenever a refresh changes the index. bm25 scores depend on every
+// indexed note, so a rank cursor is only valid for the generation that issued it.
+const GENERATION_KEY = 'generation';
+
+export interface FullTextSearchOptions {
+  limit?: number;
+  cursor?: string;
+  includeSnippets?: boolean;
+  searchFields?: ('title' | 'content' | 'both')[];
+  fuzzyMatch?: boolean;
+  caseSensitive?: boolean;
+  includeArchived?: boolean;
+  includeTrashed?: boolean;
+  tags?: string[];
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export type FullTextSearchResult = NoteWithTags & {
+  relevanceScore: number;
+  matchedTerms: string[];
+  snippets: string[];
+  titleMatches: number;
+  contentMatches: number;
+};
+
+interface FullTextRow extends Record<string, unknown> {
+  Z_PK: number;
+  rank: number;
+  tag_names: string | null;
+  content_length: number | null;
+  title_marked: string | null;
+  body_marked: string | null;
+  snippet: string | null;
+}
+
+/**
+ * Turn a user query into an FTS5 expression. Words and "quoted phrases" are matched as
+ * literals, `word*` is a prefix query, and upper-case AND, OR and NOT are passed through as
+ * operators. With fuzzy matching every word becomes a prefix query.
+ */
+export function toFtsQuery(
+  query: string,
+  fields: ('title' | 'content' | 'both')[] = ['both'],
+  fuzzy: boolean = false
+): string {
+  const parts: string[] = [];
+
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const [, phrase, word] = match;
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        parts.push(`"${phrase.replace(/"/g, '""')}"`);
+      }
+      continue;
+    }
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      parts.push(word);
+      continue;
+    }
+
+    const prefix = word.endsWith('*') || fuzzy;
+    const literal = word.replace(/\*+$/, '').replace(/"/g, '""');
+    if (literal) {
+      parts.push(`"${literal}"${prefix ? '*' : ''}`);
+    }
+  }
+
+  if (parts.length === 0) {
+    throw new Error('Search query is empty');
+  }
+
+  const expression = parts.join(' ');
+  const wantsTitle = fields.includes('title') || fields.includes('both');
+  const wantsContent = fields.includes('content') || fields.includes('both');
+  if (wantsTitle && !wantsContent) {
+    return `{title} : (${expression})`;
+  }
+  if (wantsContent && !wantsTitle) {
+    return `{body} : (${expression})`;
+  }
+  return expression;
+}
+
+/**
+ * Full-text index over Bear's notes. Every search first brings the index up to date by
+ * re-indexing notes whose ZMODIFICATIONDATE moved past the indexed one and dropping notes that
+ * were deleted or encrypted. When the index can't be used (FTS5 missing, unwritable path),
+ * search() returns null and callers fall back to LIKE queries.
+ */
+export class FullTextIndex {
+  private db: sqlite3.Database | null = null;
+  private opening: Promise<sqlite3.Database | null> | null = null;
+  private refreshing: Promise<void> | null = null;
+  // Set once opening the index fails; searches then always fall back
+  private unavailableReason: string | null = null;
+
+  constructor(
+    private readonly indexPath: string,
+    private readonly bearDbPath: string
+  ) {}
+
+  async search(
+    query: string,
+    noteTags: NoteTagTable,
+    options: FullTextSearchOptions = {}
+  ): Promise<Page<FullTextSearchResult> | null> {
+    // FTS5 tokens are case-folded, so case-sensitive searches need the LIKE path
+    if (options.caseSensitive) {
+      return null;
+    }
+
+    const db = await this.open();
+    if (!db) {
+      return null;
+    }
+
+    try {
+      await this.refresh();
+    } catch {
+      // A busy or locked database shouldn't fail the search; LIKE still works
+      return null;
+    }
+
+    const match = toFtsQuery(query, options.searchFields, options.fuzzyMatch);
+    const generation = await this.generation(db);
+
+    let sql = `
+      SELECT n.*, bm25(notes_fts, ${TITLE_WEIGHT}, 1.0) AS rank,
+             highlight(notes_fts, 0, '${MATCH_START}', '${MATCH_END}') AS title_marked,
+             highlight(notes_fts, 1, '${MATCH_START}', '${MATCH_END}') AS body_marked,
+             snippet(notes_fts, 1, '**', '**', '…', ${SNIPPET_TOKENS}) AS snippet,
+             (SELECT GROUP_CONCAT(t.ZTITLE)
+              FROM bear.${noteTags.table} nt JOIN bear.ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+              WHERE nt.${noteTags.noteColumn} = n.Z_PK) AS tag_names,
+             LENGTH(n.ZTEXT) AS content_length
+      FROM notes_fts
+      JOIN bear.ZSFNOTE n ON n.Z_PK = notes_fts.rowid
+      WHERE notes_fts MATCH ?
+    `;
+    const params: SQLParameter[] = [match];
+
+    if (!options.includeTrashed) {
+      sql += ' AND n.ZTRASHED = 0';
+    }
+    if (!options.includeArchived) {
+      sql += ' AND n.ZARCHIVED = 0';
+    }
+    for (const tag of options.tags || []) {
+      sql += `
+        AND EXISTS (
+          SELECT 1 FROM bear.${noteTags.table} nt JOIN bear.ZSFNOTETAG t ON nt.${noteTags.tagColumn} = t.Z_PK
+          WHERE nt.${noteTags.noteColumn} = n.Z_PK AND LOWER(t.ZTITLE) = LOWER(?)
+        )`;
+      params.push(tag);
+    }
+    if (options.dateFrom) {
+      sql += ' AND n.ZCREATIONDATE >= ?';
+      params.push(CoreDataUtils.fromDate(options.dateFrom));
+    }
+    if (options.dateTo) {
+      sql += ' AND n.ZCREATIONDATE <= ?';
+      params.push(CoreDataUtils.fromDate(options.dateTo));
+    }
+
+    let page: Page<FullTextRow>;
+    try {
+      page = await queryPage<FullTextRow>(
+        { query: (pageSql, pageParams) => all(db, pageSql, pageParams) },
+        sql,
+        params,
+        BY_RANK,
+        {
+          limit: options.limit || 20,
+          cursor: options.cursor && unwrapCursor(options.cursor, generation),
+          countTotal: true,
+        }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('fts5')) {
+        throw new Error(`Invalid full-text query: ${message.replace(/^SQLITE_ERROR: /, '')}`);
+      }
+      throw error;
+    }
+
+    const items = page.items.map(row => {
+      const {
+        rank,
+        tag_names: tagNames,
+        content_length: contentLength,
+        title_marked: titleMarked,
+        body_marked: bodyMarked,
+        snippet,
+        ...note
+      } = row;
+      const titleTerms = markedTerms(titleMarked);
+      const bodyTerms = markedTerms(bodyMarked);
+
+      return {
+        ...(note as unknown as NoteWithTags),
+        tags: tagNames ? tagNames.split(',').filter(Boolean) : [],
+        contentLength: contentLength ?? 0,
+        // bm25() is lower-is-better; flip it so higher scores rank first like the LIKE search
+        relevanceScore: Number((-rank).toPrecision(4)),
+        matchedTerms: [...new Set([...titleTerms, ...bodyTerms])],
+        snippets: options.includeSnippets !== false && snippet ? [snippet] : [],
+        titleMatches: titleTerms.length,
+        contentMatches: bodyTerms.length,
+      };
+    });
+    return {
+      ...page,
+      items,
+      nextCursor: page.nextCursor && `${generation}.${page.nextCursor}`,
+    };
+  }
+
+  /**
+   * Bring the index up to date with Bear's database
+   */
+  async refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.applyChanges().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    this.opening = null;
+    if (db) {
+      await closeIndexDatabase(db);
+    }
+  }
+
+  private async applyChanges(): Promise<void> {
+    const db = this.db!;
+
+    await inTransaction(db, async () => {
+      const changed = await all<{
+        Z_PK: number;
+        ZTITLE: string | null;
+        ZTEXT: string | null;
+        modified: number;
+      }>(
+        db,
+        `SELECT n.Z_PK, n.ZTITLE, n.ZTEXT, COALESCE(n.ZMODIFICATIONDATE, 0) AS modified
+         FROM bear.ZSFNOTE n
+         LEFT JOIN indexed_notes i ON i.note_id = n.Z_PK
+         WHERE COALESCE(n.ZENCRYPTED, 0) = 0
+           AND (i.note_id IS NULL OR COALESCE(n.ZMODIFICATIONDATE, 0) > i.modified)`
+      );
+
+      for (const note of changed) {
+        await run(db, 'DELETE FROM notes_fts WHERE rowid = ?', [note.Z_PK]);
+        await run(db, 'INSERT INTO notes_fts (rowid, title, body) VALUES (?, ?, ?)', [
+          note.Z_PK,
+          note.ZTITLE || '',
+          note.ZTEXT || '',
+        ]);
+        await run(db, 'INSERT OR REPLACE INTO indexed_notes (note_id, modified) VALUES (?, ?)', [
+          note.Z_PK,
+          note.modified,
+        ]);
+      }
+
+      // Deleted notes, and notes that have since been encrypted
+      const removed = await all<{ note_id: number }>(
+        db,
+        `SELECT note_id FROM indexed_notes WHERE note_id NOT IN (
+           SELECT Z_PK FROM bear.ZSFNOTE WHERE COALESCE(ZENCRYPTED, 0) = 0)`
+      );
+      for (const { note_id: noteId } of removed) {
+        await run(db, 'DELETE FROM notes_fts WHERE rowid = ?', [noteId]);
+        await run(db, 'DELETE FROM indexed_notes WHERE note_id = ?', [noteId]);
+      }
+
+      if (changed.length > 0 || removed.length > 0) {
+        await run(
+          db,
+          `INSERT INTO meta (key, value) VALUES (?, '1')
+           ON CONFLICT (key) DO UPDATE SET value = CAST(value AS INTEGER) + 1`,
+          [GENERATION_KEY]
+        );
+      }
+    });
+  }
+
+  private async generation(db: sqlite3.Database): Promise<string> {
+    const [row] = await all<{ value: string }>(db, 'SELECT value FROM meta WHERE key = ?', [
+      GENERATION_KEY,
+    ]);
+    return row ? String(row.value) : '0';
+  }
+
+  private async open(): Promise<sqlite3.Database | null> {
+    if (this.db || this.unavailableReason) {
+      return this.db;
+    }
+    if (!this.opening) {
+      this.opening = openIndexDatabase(this.indexPath, this.bearDbPath, SCHEMA).catch(error => {
+        this.unavailableReason = error instanceof Error ? error.message : String(error);
+        return null;
+      });
+    }
+    this.db = await this.opening;
+    return this.db;
+  }
+}
+
+/**
+ * Strip the index generation from a rank cursor, rejecting cursors issued before the index last
+ * changed: their rank no longer places the note where it was, so the next page would skip or
+ * repeat matches.
+ */
+function unwrapCursor(cursor: string, generation: string): string {
+  const separator = cursor.indexOf('.');
+  if (separator === -1) {
+    throw new ValidationError(
+      'Invalid cursor; pass the nextCursor from the previous page unchanged',
+      'cursor',
+      cursor
+    );
+  }
+  if (cursor.slice(0, separator) !== generation) {
+    throw new ValidationError(
+      'Notes changed since this cursor was issued, so search results were re-ranked; run the search again without a cursor',
+      'cursor',
+      cursor
+    );
+  }
+  return cursor.slice(separator + 1);
+}
+
+function markedTerms(text: string | null): string[] {
+  if (!text) {
+    return [];
+  }
+  return [...text.matchAll(new RegExp(`${MATCH_START}([^${MATCH_END}]*)${MATCH_END}`, 'g'))].map(
+    match => match[1].toLowerCase()
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Bear MCP Server - Index Database
+ * Opens the SQLite files that hold derived search indexes. Each index lives in its own file,
+ * never in Bear's directory, with Bear's database attached read-only as `bear`.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import sqlite3 from 'sqlite3';
+import { mkdir, realpath } from 'fs/promises';
+import path from 'path';
+import { SQLParameter } from '../types/bear.js';
+
+export interface IndexSchema {
+  /** Bump when the layout changes; indexes with another version are rebuilt from scratch */
+  version: string;
+  /** Tables to drop before rebuilding */
+  tables: string[];
+  /** Statements that create the tables; a `meta (key, value)` table is added automatically */
+  create: string;
+}
+
+/**
+ * Open (creating if needed) an index database and attach Bear's database read-only.
+ * The index is rebuilt empty when its schema version or source database has changed.
+ */
+export async function openIndexDatabase(
+  indexPath: string,
+  bearDbPath: string,
+  schema: IndexSchema
+): Promise<sqlite3.Database> {
+  const resolvedIndexPath = path.resolve(indexPath);
+  const resolvedBearDbPath = path.resolve(bearDbPath);
+
+  await mkdir(path.dirname(resolvedIndexPath), { recursive: true });
+
+  // Compare real paths so a symlinked directory can't slip the index into Bear's directory
+  const bearDirectory = await realDirectory(resolvedBearDbPath);
+  if ((await realDirectory(resolvedIndexPath)) === bearDirectory) {
+    throw new Error(
+      `Search indexes must not be stored in Bear's database directory (${bearDirectory})`
+    );
+  }
+
+  const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+    const handle = new sqlite3.Database(
+      resolvedIndexPath,
+      sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE | sqlite3.OPEN_URI,
+      error => (error ? reject(error) : resolve(handle))
+    );
+  });
+
+  try {
+    db.configure('busyTimeout', 5000);
+    await run(db, 'ATTACH DATABASE ? AS bear', [readOnlyUri(resolvedBearDbPath)]);
+
+    const [meta] = await all<{ version: string | null; source: string | null }>(
+      db,
+      `SELECT
+         (SELECT value FROM meta WHERE key = 'schema_version') AS version,
+         (SELECT value FROM meta WHERE key = 'source') AS source`
+    ).catch(() => [{ version: null, source: null }]);
+
+    if (meta.version !== schema.version || meta.source !== resolvedBearDbPath) {
+      await exec(
+        db,
+        `${[...schema.tables, 'meta'].map(table => `DROP TABLE IF EXISTS ${table};`).join('\n')}
+         ${schema.create}
+         CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT);`
+      );
+      await run(db, "INSERT INTO meta (key, value) VALUES ('schema_version', ?), ('source', ?)", [
+        schema.version,
+        resolvedBearDbPath,
+      ]);
+    }
+  } catch (error) {
+    await closeIndexDatabase(db);
+    throw error;
+  }
+
+  return db;
+}
+
+export function closeIndexDatabase(db: sqlite3.Database): Promise<void> {
+  return new Promise(resolve => db.close(() => resolve()));
+}
+
+/**
+ * Run `work` in an immediate transaction, rolling back if it throws
+ */
+export async function inTransaction(
+  db: sqlite3.Database,
+  work: () => Promise<void>
+): Promise<void> {
+  await exec(db, 'BEGIN IMMEDIATE');
+  try {
+    await work();
+    await exec(db, 'COMMIT');
+  } catch (error) {
+    await exec(db, 'ROLLBACK').catch(() => undefined);
+    throw error;
+  }
+}
+
+export function all<T>(
+  db: sqlite3.Database,
+  sql: string,
+  params: SQLParameter[] = []
+): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows as T[])));
+  });
+}
+
+export function run(db: sqlite3.Database, sql: string, params: SQLParameter[] = []): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, error => (error ? reject(error) : resolve()));
+  });
+}
+
+function exec(db: sqlite3.Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.exec(sql, error => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * The real path of a file's directory, or its resolved path when the directory doesn't exist
+ */
+async function realDirectory(filePath: string): Promise<string> {
+  const directory = path.dirname(filePath);
+  return realpath(directory).catch(() => directory);
+}
+
+function readOnlyUri(filePath: string): string {
+  const encoded = encodeURI(filePath).replace(/\?/g, '%3F').replace(/#/g, '%23');
+  return `file:${encoded}?mode=ro`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Bear MCP Server - Note Prompts
+ * MCP prompt templates for common note workflows. The server fetches the notes a prompt needs
+ * and these helpers lay them out as the prompt's message.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { NoteWithTags } from '../types/bear.js';
+import { RequiredFieldError, ValidationError } from '../types/errors.js';
+import { noteUri } from './bear-resources.js';
+import { CoreDataUtils } from './database.js';
+
+// Most notes a prompt includes, newest first
+export const PROMPT_NOTE_LIMIT = 50;
+
+// Longer notes are cut so one note can't crowd out the rest
+const PROMPT_NOTE_LENGTH = 4000;
+
+const DAYS_ARGUMENT = {
+  name: 'days',
+  description: 'How many days back to look (default 7)',
+  required: false,
+};
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'summarize_tag',
+    description: 'Summarize the notes with a tag that changed this week',
+    arguments: [
+      { name: 'tag', description: 'Tag without the #, e.g. work/projects', required: true },
+      DAYS_ARGUMENT,
+    ],
+  },
+  {
+    name: 'meeting_action_items',
+    description: 'Turn a meeting note into a list of action items',
+    arguments: [
+      {
+        name: 'note',
+        description: "The meeting note's ID, Bear unique ID or exact title",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: 'weekly_review',
+    description: 'Review the notes changed this week and the tasks still open in them',
+    arguments: [DAYS_ARGUMENT],
+  },
+];
+
+export function requiredArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new RequiredFieldError(name);
+  }
+  return value;
+}
+
+export function parseDays(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') {
+    return 7;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new ValidationError(
+      `Invalid days "${value}" (use a whole number of days)`,
+      'days',
+      value
+    );
+  }
+  return days;
+}
+
+/**
+ * Notes as markdown sections: a heading, then tags, dates, open tasks and the text
+ */
+export function renderNotes(notes: NoteWithTags[]): string {
+  return notes
+    .map(note => {
+      const details = [
+        note.tags.length > 0 ? note.tags.map(tag => `#${tag}`).join(' ') : null,
+        note.ZMODIFICATIONDATE
+          ? `modified ${CoreDataUtils.toDate(note.ZMODIFICATIONDATE).toISOString().slice(0, 10)}`
+          : null,
+        note.ZTODOINCOMPLETED ? `${note.ZTODOINCOMPLETED} open tasks` : null,
+        note.ZUNIQUEIDENTIFIER ? noteUri(note.ZUNIQUEIDENTIFIER) : null,
+      ].filter(Boolean);
+
+      const text = note.ZTEXT || '';
+      const body =
+        text.length > PROMPT_NOTE_LENGTH
+          ? `${text.substring(0, PROMPT_NOTE_LENGTH)}\n\n[… ${text.length - PROMPT_NOTE_LENGTH} more characters]`
+          : text;
+
+      return `## ${note.ZTITLE || 'Untitled'}\n${details.join(' · ')}\n\n${body}`;
+    })
+    .join('\n\n---\n\n');
+}
@@ -0,0 +1,361 @@
+/**
+ * Bear MCP Server - Note Query Language
+ * Parses search queries such as `tag:work "project plan" (draft OR review) -is:archived`
+ * and compiles them to a parameterized WHERE fragment over ZSFNOTE aliased as `n`.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { SQLParameter } from '../types/bear.js';
+import { ValidationError } from '../types/errors.js';
+import { BearSchema, noteColumn } from './bear-schema.js';
+import { CoreDataUtils } from './database.js';
+
+const FIELDS = ['title', 'tag', 'created', 'modified', 'is', 'has'] as const;
+type Field = (typeof FIELDS)[number];
+
+const STATES = new Map([
+  ['pinned', 'n.ZPINNED = 1'],
+  ['archived', 'n.ZARCHIVED = 1'],
+  ['trashed', 'n.ZTRASHED = 1'],
+]);
+
+// Bear counts todos per note; `todo` follows Bear's own @todo (open items only)
+const CONTENT = new Map<string, (schema: BearSchema) => string>([
+  ['todo', schema => `COALESCE(${noteColumn(schema, 'ZTODOINCOMPLETED', 'n')}, 0) > 0`],
+  ['done', schema => `COALESCE(${noteColumn(schema, 'ZTODOCOMPLETED', 'n')}, 0) > 0`],
+  ['attachment', () => 'EXISTS (SELECT 1 FROM ZSFNOTEFILE qf WHERE qf.ZNOTE = n.Z_PK)'],
+  ['code', schema => `${noteColumn(schema, 'ZHASSOURCECODE', 'n')} = 1`],
+]);
+
+const DAY_MS = 86400000;
+
+export type NoteQueryNode =
+  | { type: 'and' | 'or'; children: NoteQueryNode[] }
+  | { type: 'not'; child: NoteQueryNode }
+  | { type: 'term'; field: Field | null; value: string; raw: string; position: number };
+
+export interface CompiledNoteQuery {
+  /** Condition over `ZSFNOTE n`, parenthesized so it can be ANDed onto a WHERE clause */
+  sql: string;
+  params: SQLParameter[];
+  /** The query filters on is:archived, so archived notes must not be excluded up front */
+  mentionsArchived: boolean;
+  /** The query filters on is:trashed, so trashed notes must not be excluded up front */
+  mentionsTrashed: boolean;
+}
+
+/**
+ * Thrown for queries that can't be parsed; `position` is the 0-based offset of the problem
+ */
+export class QuerySyntaxError extends ValidationError {
+  constructor(
+    message: string,
+    query: string,
+    public readonly position: number
+  ) {
+    super(`Invalid query: ${message}`, 'query', query, { position });
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type Token =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT' | '-'; position: number }
+  | { type: 'term'; field: Field | null; value: string; raw: string; position: number };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readQuoted = (start: number): [string, number] => {
+    const end = query.indexOf('"', start + 1);
+    if (end === -1) {
+      throw new QuerySyntaxError(`unterminated quote at position ${start}`, query, start);
+    }
+    return [query.slice(start + 1, end), end + 1];
+  };
+
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char, position: index });
+      index++;
+      continue;
+    }
+    if (char === '-' && index + 1 < query.length && /[^\s()]/.test(query[index + 1])) {
+      tokens.push({ type: '-', position: index });
+      index++;
+      continue;
+    }
+    if (char === '"') {
+      const [value, next] = readQuoted(index);
+      if (!value.trim()) {
+        throw new QuerySyntaxError(`empty quotes at position ${index}`, query, index);
+      }
+      tokens.push({
+        type: 'term',
+        field: null,
+        value,
+        raw: query.slice(index, next),
+        position: index,
+      });
+      index = next;
+      continue;
+    }
+
+    const start = index;
+    while (index < query.length && !/[\s()"]/.test(query[index])) {
+      index++;
+    }
+    const word = query.slice(start, index);
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ type: word, position: start });
+      continue;
+    }
+
+    const separator = word.indexOf(':');
+    const field = word.slice(0, separator).toLowerCase() as Field;
+    if (separator > 0 && FIELDS.includes(field)) {
+      let value = word.slice(separator + 1);
+      if (!value && query[index] === '"') {
+        [value, index] = readQuoted(index);
+      }
+      if (!value.trim()) {
+        throw new QuerySyntaxError(`missing value for "${field}:"`, query, start);
+      }
+      tokens.push({ type: 'term', field, value, raw: query.slice(start, index), position: start });
+      continue;
+    }
+
+    tokens.push({ type: 'term', field: null, value: word, raw: word, position: start });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query. Terms next to each other are ANDed; AND binds tighter than OR, and NOT
+ * (or a leading `-`) applies to the term or parenthesized group that follows it.
+ */
+export function parseNoteQuery(query: string): NoteQueryNode {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    throw new QuerySyntaxError('query is empty', query, 0);
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) =>
+    token
+      ? `"${token.type === 'term' ? token.raw : token.type}" at position ${token.position}`
+      : 'end of query';
+
+  const parseOr = (): NoteQueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'OR') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): NoteQueryNode => {
+    const children = [parseUnary()];
+    for (;;) {
+      const token = peek();
+      if (token?.type === 'AND') {
+        index++;
+      } else if (!token || token.type === 'OR' || token.type === ')') {
+        break;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): NoteQueryNode => {
+    const token = peek();
+    if (token?.type === 'NOT' || token?.type === '-') {
+      index++;
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): NoteQueryNode => {
+    const token = peek();
+    const previous = tokens[index - 1];
+
+    if (token?.type === 'term') {
+      index++;
+      return token;
+    }
+    if (token?.type === '(') {
+      index++;
+      const node = parseOr();
+      if (peek()?.type !== ')') {
+        throw new QuerySyntaxError(
+          `missing ")" for the "(" at position ${token.position}`,
+          query,
+          token.position
+        );
+      }
+      index++;
+      return node;
+    }
+
+    const position = token ? token.position : query.length;
+    const after = previous ? ` after ${describe(previous)}` : '';
+    throw new QuerySyntaxError(
+      `expected a search term${after}, found ${describe(token)}`,
+      query,
+      position
+    );
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new QuerySyntaxError(`unexpected ${describe(token)}`, query, token.position);
+  }
+  return node;
+}
+
+/**
+ * Parse a query and compile it to SQL. Text terms match titles and note text as substrings,
+ * case-insensitively; see docs/api-reference.md for the field syntax.
+ */
+export function compileNoteQuery(query: string, schema: BearSchema): CompiledNoteQuery {
+  const params: SQLParameter[] = [];
+  const compiled: CompiledNoteQuery = {
+    sql: '',
+    params,
+    mentionsArchived: false,
+    mentionsTrashed: false,
+  };
+
+  const compile = (node: NoteQueryNode): string => {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        return `(${node.children.map(compile).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+      case 'not':
+        return `NOT (${compile(node.child)})`;
+      case 'term':
+        return compileTerm(node);
+    }
+  };
+
+  const compileTerm = (term: Extract<NoteQueryNode, { type: 'term' }>): string => {
+    const value = term.value.trim();
+    switch (term.field) {
+      case null:
+        params.push(likePattern(value), likePattern(value));
+        return "(n.ZTITLE LIKE ? ESCAPE '\\' OR n.ZTEXT LIKE ? ESCAPE '\\')";
+
+      case 'title':
+        params.push(likePattern(value));
+        return "n.ZTITLE LIKE ? ESCAPE '\\'";
+
+      case 'tag': {
+        const tag = value.replace(/^#/, '').replace(/\/+$/, '');
+        params.push(tag, `${escapeLike(tag)}/%`);
+        // Nested tags count, so tag:work also finds notes tagged only #work/projects
+        const { noteTags } = schema;
+        return `EXISTS (
+          SELECT 1 FROM ${noteTags.table} qnt JOIN ZSFNOTETAG qt ON qnt.${noteTags.tagColumn} = qt.Z_PK
+          WHERE qnt.${noteTags.noteColumn} = n.Z_PK
+            AND (LOWER(qt.ZTITLE) = LOWER(?) OR LOWER(qt.ZTITLE) LIKE LOWER(?) ESCAPE '\\')
+        )`;
+      }
+
+      case 'created':
+      case 'modified':
+        return compileDate(
+          term,
+          term.field === 'created' ? 'n.ZCREATIONDATE' : 'n.ZMODIFICATIONDATE'
+        );
+
+      case 'is': {
+        const state = value.toLowerCase();
+        const condition = STATES.get(state);
+        if (!condition) {
+          throw new QuerySyntaxError(
+            `unknown "${term.raw}" (use ${optionList('is', STATES)})`,
+            query,
+            term.position
+          );
+        }
+        compiled.mentionsArchived ||= state === 'archived';
+        compiled.mentionsTrashed ||= state === 'trashed';
+        return condition;
+      }
+
+      case 'has': {
+        const condition = CONTENT.get(value.toLowerCase());
+        if (!condition) {
+          throw new QuerySyntaxError(
+            `unknown "${term.raw}" (use ${optionList('has', CONTENT)})`,
+            query,
+            term.position
+          );
+        }
+        return condition(schema);
+      }
+    }
+  };
+
+  const compileDate = (term: Extract<NoteQueryNode, { type: 'term' }>, column: string): string => {
+    const [, operator = '=', dateText] = /^(>=|<=|>|<|=)?(.*)$/.exec(term.value.trim())!;
+    const day = /^\d{4}-\d{2}-\d{2}$/.test(dateText) ? new Date(`${dateText}T00:00:00Z`) : null;
+    if (!day || isNaN(day.getTime())) {
+      throw new QuerySyntaxError(
+        `invalid date "${dateText}" in "${term.raw}" (use YYYY-MM-DD)`,
+        query,
+        term.position
+      );
+    }
+
+    // Dates name whole UTC days: >2025-01-01 starts on the 2nd, <=2025-01-01 includes the 1st
+    const start = CoreDataUtils.fromDate(day);
+    const end = CoreDataUtils.fromDate(new Date(day.getTime() + DAY_MS));
+    switch (operator) {
+      case '>':
+        params.push(end);
+        return `${column} >= ?`;
+      case '>=':
+        params.push(start);
+        return `${column} >= ?`;
+      case '<':
+        params.push(start);
+        return `${column} < ?`;
+      case '<=':
+        params.push(end);
+        return `${column} < ?`;
+      default:
+        params.push(start, end);
+        return `(${column} >= ? AND ${column} < ?)`;
+    }
+  };
+
+  compiled.sql = `(${compile(parseNoteQuery(query))})`;
+  return compiled;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function likePattern(value: string): string {
+  return `%${escapeLike(value)}%`;
+}
+
+function optionList(field: string, options: Map<string, unknown>): string {
+  const names = [...options.keys()].map(name => `${field}:${name}`);
+  return `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
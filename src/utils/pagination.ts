@@ -0,0 +1,195 @@
+/**
+ * Bear MCP Server - Pagination
+ * Keyset pagination with opaque cursors. A cursor records the list's sort key and the Z_PK of
+ * the last item returned, so the next page starts strictly after that item even when notes
+ * are added, edited or removed in between.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { SQLParameter } from '../types/bear.js';
+import { ValidationError } from '../types/errors.js';
+
+export interface Page<T> {
+  items: T[];
+  /** Pass back as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
+  /** Items across all pages, when counting them is cheap */
+  total?: number;
+}
+
+export interface PageOptions {
+  /** Page size; without one every remaining item is returned */
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SortKey {
+  /** Names the order, so a cursor can't be replayed against a list sorted differently */
+  name: string;
+  /** SQL expression for the key over the paged query's columns, which are aliased `page` */
+  expression: string;
+  direction: 'ASC' | 'DESC';
+}
+
+export interface CursorPosition {
+  key: number | string;
+  id: number;
+}
+
+export interface Queryable {
+  query<T>(sql: string, params?: SQLParameter[]): Promise<T[]>;
+}
+
+/** Notes by modification date, newest first */
+export const BY_MODIFIED: SortKey = {
+  name: 'modified',
+  expression: 'COALESCE(page.ZMODIFICATIONDATE, 0)',
+  direction: 'DESC',
+};
+
+export function encodeCursor(sort: SortKey, position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([sort.name, position.key, position.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: SortKey): CursorPosition {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 3 ||
+    typeof decoded[0] !== 'string' ||
+    !['number', 'string'].includes(typeof decoded[1]) ||
+    !Number.isInteger(decoded[2])
+  ) {
+    throw new ValidationError(
+      'Invalid cursor; pass the nextCursor from the previous page unchanged',
+      'cursor',
+      cursor
+    );
+  }
+  if (decoded[0] !== sort.name) {
+    throw new ValidationError(
+      `This cursor belongs to a list sorted by ${decoded[0]}, not ${sort.name}`,
+      'cursor',
+      cursor
+    );
+  }
+
+  return { key: decoded[1], id: decoded[2] };
+}
+
+/**
+ * Condition selecting the rows after a position, for rows ordered by the key then `idExpression`
+ */
+export function afterPosition(
+  sort: SortKey,
+  position: CursorPosition,
+  idExpression: string = 'page.Z_PK'
+): { sql: string; params: SQLParameter[] } {
+  const operator = sort.direction === 'DESC' ? '<' : '>';
+  return {
+    sql: `(${sort.expression} ${operator} ? OR (${sort.expression} = ? AND ${idExpression} ${operator} ?))`,
+    params: [position.key, position.key, position.id],
+  };
+}
+
+/**
+ * Run `sql` as one page: rows after the cursor, ordered by the sort key with Z_PK breaking
+ * ties. `sql` must select a Z_PK column and must not have its own ORDER BY or LIMIT.
+ */
+export async function queryPage<T extends { Z_PK: number }>(
+  db: Queryable,
+  sql: string,
+  params: SQLParameter[],
+  sort: SortKey,
+  options: PageOptions & { countTotal?: boolean } = {}
+): Promise<Page<T>> {
+  let pageSql = `SELECT page.*, ${sort.expression} AS page_key FROM (${sql}) page`;
+  const pageParams = [...params];
+
+  if (options.cursor) {
+    const after = afterPosition(sort, decodeCursor(options.cursor, sort));
+    pageSql += ` WHERE ${after.sql}`;
+    pageParams.push(...after.params);
+  }
+
+  pageSql += ` ORDER BY page_key ${sort.direction}, page.Z_PK ${sort.direction}`;
+  if (options.limit) {
+    pageSql += ' LIMIT ?';
+    pageParams.push(options.limit + 1);
+  }
+
+  const rows = await db.query<T & { page_key: number | string }>(pageSql, pageParams);
+  const keyed = toPage(rows, options.limit, sort, row => ({ key: row.page_key, id: row.Z_PK }));
+  for (const row of keyed.items as Array<{ page_key?: number | string }>) {
+    delete row.page_key;
+  }
+  const page: Page<T> = keyed;
+
+  if (options.countTotal) {
+    const [{ total }] = await db.query<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM (${sql})`,
+      params
+    );
+    page.total = total;
+  }
+
+  return page;
+}
+
+/**
+ * Turn rows fetched with one extra row (limit + 1) into a page
+ */
+export function toPage<T>(
+  rows: T[],
+  limit: number | undefined,
+  sort: SortKey,
+  positionOf: (row: T) => CursorPosition
+): Page<T> {
+  const hasMore = limit !== undefined && rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(sort, positionOf(items[items.length - 1])) : null,
+  };
+}
+
+/**
+ * Page through items already sorted in memory, for lists ranked outside SQL
+ */
+export function pageArray<T>(
+  items: T[],
+  sort: SortKey,
+  positionOf: (item: T) => CursorPosition,
+  options: PageOptions = {}
+): Page<T> {
+  let remaining = items;
+  if (options.cursor) {
+    const after = decodeCursor(options.cursor, sort);
+    const order = sort.direction === 'DESC' ? -1 : 1;
+    remaining = items.filter(item => {
+      const { key, id } = positionOf(item);
+      if (key !== after.key) {
+        return (key > after.key ? 1 : -1) * order > 0;
+      }
+      return (id - after.id) * order > 0;
+    });
+  }
+
+  const page = toPage(
+    options.limit ? remaining.slice(0, options.limit + 1) : remaining,
+    options.limit,
+    sort,
+    positionOf
+  );
+  page.total = items.length;
+  return page;
+}
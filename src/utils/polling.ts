@@ -0,0 +1,37 @@
+/**
+ * Bear MCP Server - Polling
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { WriteVerificationOptions } from '../types/bear.js';
+
+/**
+ * Run a check until it returns a value or the timeout passes, returning null on timeout
+ * The delay between checks doubles from the initial interval up to the maximum interval
+ */
+export async function pollUntil<T>(
+  check: () => Promise<T | null>,
+  options: WriteVerificationOptions
+): Promise<T | null> {
+  const { timeoutMs, initialIntervalMs, maxIntervalMs } = options;
+  const deadline = Date.now() + timeoutMs;
+  let interval = initialIntervalMs;
+
+  for (;;) {
+    const result = await check();
+
+    if (result !== null) {
+      return result;
+    }
+
+    if (Date.now() >= deadline) {
+      return null;
+    }
+
+    await new Promise(resolve =>
+      setTimeout(resolve, Math.min(interval, Math.max(0, deadline - Date.now())))
+    );
+    interval = Math.min(interval * 2, maxIntervalMs);
+  }
+}
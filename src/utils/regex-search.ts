@@ -0,0 +1,145 @@
+/**
+ * Bear MCP Server - Regex Search
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import vm from 'vm';
+import { RegexLineMatch } from '../types/bear.js';
+
+const SUPPORTED_FLAGS = 'imsu';
+
+// Runs inside the sandbox so a runaway pattern can be stopped by the script timeout
+const MATCH_SCRIPT = new vm.Script(`(() => {
+  const re = new RegExp(pattern, flags);
+  const found = [];
+  let match;
+  while (found.length < maxMatches && (match = re.exec(text)) !== null) {
+    found.push([match.index, match[0], match.slice(1)]);
+    if (match[0] === '') {
+      re.lastIndex++;
+    }
+  }
+  return found;
+})()`);
+
+/**
+ * Thrown when a pattern runs past its time budget on one text
+ */
+export class RegexTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Pattern took longer than ${timeoutMs}ms`);
+    this.name = 'RegexTimeoutError';
+  }
+}
+
+export interface RegexMatcherOptions {
+  /** Time allowed per text before giving up on it */
+  timeoutMs: number;
+  /** Matches collected per text before stopping */
+  maxMatches: number;
+  /** Lines of context before and after each match; 0 for none */
+  contextLines: number;
+}
+
+/**
+ * Validate the pattern and flags, returning flags usable for a global search.
+ * `g` is implied; flags that change how matches are iterated are refused.
+ */
+export function normalizeRegexFlags(pattern: string, flags: string = ''): string {
+  const unsupported = [...flags].filter(flag => flag !== 'g' && !SUPPORTED_FLAGS.includes(flag));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported regex flag "${unsupported[0]}" (use i, m, s or u)`);
+  }
+
+  const normalized = `g${[...new Set(flags.replace(/g/g, ''))].join('')}`;
+  try {
+    new RegExp(pattern, normalized);
+  } catch (error) {
+    throw new Error(
+      `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Build a matcher that reports every match in a text with its line, column and context.
+ * A shorter timeout can be passed per text, e.g. to stay within an overall deadline.
+ */
+export function createRegexMatcher(
+  pattern: string,
+  flags: string,
+  options: RegexMatcherOptions
+): (text: string, timeoutMs?: number) => RegexLineMatch[] {
+  const normalizedFlags = normalizeRegexFlags(pattern, flags);
+  const context = vm.createContext({
+    pattern,
+    flags: normalizedFlags,
+    maxMatches: options.maxMatches,
+    text: '',
+  });
+
+  return (text: string, timeoutMs: number = options.timeoutMs) => {
+    context.text = text;
+
+    let found: Array<[number, string, Array<string | undefined>]>;
+    try {
+      found = MATCH_SCRIPT.runInContext(context, { timeout: timeoutMs });
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new RegexTimeoutError(timeoutMs);
+      }
+      throw error;
+    }
+
+    const lines = text.split('\n');
+    const lineStarts = lineOffsets(lines);
+
+    return found.map(([index, match, groups]) => {
+      const lineIndex = findLine(lineStarts, index);
+      const result: RegexLineMatch = {
+        line: lineIndex + 1,
+        column: index - lineStarts[lineIndex] + 1,
+        match,
+      };
+      if (groups.length > 0) {
+        result.groups = groups.map(group => group ?? null);
+      }
+      if (options.contextLines > 0) {
+        const lastLine = findLine(lineStarts, index + Math.max(match.length - 1, 0));
+        result.context = {
+          before: lines.slice(Math.max(0, lineIndex - options.contextLines), lineIndex),
+          lines: lines.slice(lineIndex, lastLine + 1),
+          after: lines.slice(lastLine + 1, lastLine + 1 + options.contextLines),
+        };
+      }
+      return result;
+    });
+  };
+}
+
+function lineOffsets(lines: string[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+  return offsets;
+}
+
+function findLine(lineStarts: number[], index: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= index) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,328 @@
+/**
+ * Bear MCP Server - Text Patching
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+/**
+ * An exact-match find/replace edit
+ */
+export interface TextReplacement {
+  find: string;
+  replace: string;
+}
+
+interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+/**
+ * Apply find/replace hunks in order. Every `find` must occur exactly once in the text as it
+ * stands when that hunk is applied; otherwise the whole patch is refused.
+ */
+export function applyReplacements(text: string, replacements: TextReplacement[]): string {
+  if (replacements.length === 0) {
+    throw new Error('At least one edit is required');
+  }
+
+  return replacements.reduce((current, { find, replace }, index) => {
+    const label = `Edit ${index + 1}`;
+    if (typeof find !== 'string' || find.length === 0) {
+      throw new Error(`${label}: find text must be a non-empty string`);
+    }
+    if (typeof replace !== 'string') {
+      throw new Error(`${label}: replace text must be a string`);
+    }
+
+    const occurrences = countOccurrences(current, find);
+    if (occurrences === 0) {
+      throw new Error(`${label}: find text not found in note`);
+    }
+    if (occurrences > 1) {
+      throw new Error(
+        `${label}: find text matches ${occurrences} times; include more surrounding text to make it unique`
+      );
+    }
+
+    const position = current.indexOf(find);
+    return current.slice(0, position) + replace + current.slice(position + find.length);
+  }, text);
+}
+
+/**
+ * Apply a unified diff. A hunk is placed at the line its header names when its context and
+ * removed lines match there; otherwise it must match exactly one other place in the note.
+ */
+export function applyUnifiedDiff(text: string, diff: string): string {
+  const hunks = parseUnifiedDiff(diff);
+  const lines = text === '' ? [] : text.split('\n');
+  let offset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const label = `Hunk ${index + 1} (${hunk.header})`;
+    const expected = hunk.oldStart - 1 + offset;
+    let position: number;
+
+    if (hunk.oldLines.length === 0) {
+      // Pure insertion after line oldStart: nothing to match, so trust the header
+      position = Math.min(hunk.oldStart + offset, lines.length);
+      lines.splice(position, 0, ...hunk.newLines);
+      offset += hunk.newLines.length;
+      return;
+    }
+
+    if (matchesAt(lines, hunk.oldLines, expected)) {
+      position = expected;
+    } else {
+      const candidates = findBlock(lines, hunk.oldLines);
+      if (candidates.length === 0) {
+        throw new Error(`${label}: context does not match the note`);
+      }
+      if (candidates.length > 1) {
+        throw new Error(
+          `${label}: context matches ${candidates.length} places in the note; include more context lines`
+        );
+      }
+      position = candidates[0];
+    }
+
+    lines.splice(position, hunk.oldLines.length, ...hunk.newLines);
+    offset += position - expected + hunk.newLines.length - hunk.oldLines.length;
+  });
+
+  return lines.join('\n');
+}
+
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  let position = text.indexOf(search);
+  while (position !== -1) {
+    count++;
+    position = text.indexOf(search, position + 1);
+  }
+  return count;
+}
+
+function matchesAt(lines: string[], block: string[], position: number): boolean {
+  if (position < 0 || position + block.length > lines.length) {
+    return false;
+  }
+  return block.every((line, index) => lines[position + index] === line);
+}
+
+function findBlock(lines: string[], block: string[]): number[] {
+  const positions: number[] = [];
+  for (let position = 0; position + block.length <= lines.length; position++) {
+    if (matchesAt(lines, block, position)) {
+      positions.push(position);
+    }
+  }
+  return positions;
+}
+
+function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = { header: header[0], oldStart: Number(header[1]), oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+
+    if (!current) {
+      // File headers (---/+++, diff, index) before the first hunk carry nothing we need
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue;
+    }
+
+    const marker = line[0];
+    const content = line.slice(1);
+    if (marker === ' ') {
+      current.oldLines.push(content);
+      current.newLines.push(content);
+    } else if (marker === '-') {
+      current.oldLines.push(content);
+    } else if (marker === '+') {
+      current.newLines.push(content);
+    } else if (line === '') {
+      // Some tools strip the leading space from blank context lines
+      current.oldLines.push('');
+      current.newLines.push('');
+    } else {
+      throw new Error(`Invalid line in unified diff: "${line}"`);
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new Error('Unified diff contains no hunks (expected "@@ -start,count +start,count @@")');
+  }
+
+  // A trailing newline in the diff shows up as one empty line after the last hunk
+  const last = hunks[hunks.length - 1];
+  if (
+    diff.endsWith('\n') &&
+    last.oldLines[last.oldLines.length - 1] === '' &&
+    last.newLines[last.newLines.length - 1] === ''
+  ) {
+    last.oldLines.pop();
+    last.newLines.pop();
+  }
+
+  return hunks;
+}
+
+interface DiffLine {
+  marker: ' ' | '-' | '+';
+  text: string;
+}
+
+// Above this many line pairs the changed region is shown as one block instead of a minimal diff
+const MAX_DIFF_CELLS = 4_000_000;
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Render a unified diff between two versions of a note; empty when they are identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string = 'before',
+  newLabel: string = 'after'
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const oldLines = oldText === '' ? [] : oldText.split('\n');
+  const newLines = newText === '' ? [] : newText.split('\n');
+  const lines = diffLines(oldLines, newLines);
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and open a hunk a few context lines before it
+    while (index < lines.length && lines[index].marker === ' ') {
+      index++;
+    }
+    if (index === lines.length) {
+      break;
+    }
+
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    let end = index;
+    let unchangedRun = 0;
+    while (end < lines.length && unchangedRun <= DIFF_CONTEXT_LINES * 2) {
+      unchangedRun = lines[end].marker === ' ' ? unchangedRun + 1 : 0;
+      end++;
+    }
+    end -= Math.max(0, unchangedRun - DIFF_CONTEXT_LINES);
+
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldStart = before.filter(line => line.marker !== '+').length;
+    const newStart = before.filter(line => line.marker !== '-').length;
+    const oldCount = hunk.filter(line => line.marker !== '+').length;
+    const newCount = hunk.filter(line => line.marker !== '-').length;
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`
+    );
+    output.push(...hunk.map(line => line.marker + line.text));
+    index = end;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Line-level diff using the longest common subsequence of the region between the shared
+ * prefix and suffix
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const context = (text: string): DiffLine => ({ marker: ' ', text });
+
+  let middle: DiffLine[];
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    middle = [
+      ...oldMiddle.map((text): DiffLine => ({ marker: '-', text })),
+      ...newMiddle.map((text): DiffLine => ({ marker: '+', text })),
+    ];
+  } else {
+    middle = lcsDiff(oldMiddle, newMiddle);
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map(context),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(context),
+  ];
+}
+
+function lcsDiff(oldLines: string[], newLines: string[]): DiffLine[] {
+  const rows = oldLines.length;
+  const columns = newLines.length;
+  // lengths[i][j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: rows + 1 }, () => new Array<number>(columns + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ marker: ' ', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ marker: '-', text: oldLines[i++] });
+    } else {
+      result.push({ marker: '+', text: newLines[j++] });
+    }
+  }
+  while (i < rows) {
+    result.push({ marker: '-', text: oldLines[i++] });
+  }
+  while (j < columns) {
+    result.push({ marker: '+', text: newLines[j++] });
+  }
+
+  return result;
+}
@@ -0,0 +1,157 @@
+/**
+ * Bear MCP Server - Tool Output
+ * Every tool produces text for people and a JSON payload for programs. The `format` argument
+ * picks which of the two go back to the client; docs/api-reference.md documents each payload.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import { NoteWithTags } from '../types/bear.js';
+import { ValidationError } from '../types/errors.js';
+import { CoreDataUtils } from './database.js';
+import { Page } from './pagination.js';
+
+const PREVIEW_LENGTH = 200;
+
+export const OUTPUT_FORMATS = ['text', 'json', 'both'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type ToolPayload =
+  | { success: true; data: unknown }
+  | { success: false; error: string; [detail: string]: unknown };
+
+export interface ToolOutput {
+  /** Text for people; left out by tools whose text is the JSON payload itself */
+  text?: string;
+  payload: ToolPayload;
+}
+
+/** A note as it appears in list payloads */
+export interface NoteSummary {
+  id: number;
+  uniqueId: string | null;
+  title: string;
+  tags: string[];
+  createdAt: string | null;
+  modifiedAt: string | null;
+  pinned: boolean;
+  archived: boolean;
+  trashed: boolean;
+  encrypted: boolean;
+}
+
+export interface NoteListItem extends NoteSummary {
+  /** The start of the note text */
+  preview: string;
+}
+
+/** Paging fields shared by every list payload */
+export interface PageInfo {
+  nextCursor: string | null;
+  hasMore: boolean;
+  total: number | null;
+}
+
+export function toolResult(text: string | undefined, data: unknown): ToolOutput {
+  return { text, payload: { success: true, data } };
+}
+
+/**
+ * A failed call. `prefix` starts the text form, e.g. "❌ Error getting notes"; without one the
+ * text form is the JSON payload. Invalid arguments also carry the error code, the field and
+ * every problem found, so a client can correct the call
+ */
+export function toolError(
+  prefix: string | undefined,
+  error: unknown,
+  fallback: string = 'Unknown error'
+): ToolOutput {
+  const message = error instanceof Error ? error.message : fallback;
+  const details =
+    error instanceof ValidationError
+      ? {
+          code: error.code,
+          field: error.context.field,
+          ...(error.context.issues ? { issues: error.context.issues } : {}),
+        }
+      : {};
+  return {
+    text: prefix === undefined ? undefined : `${prefix}: ${message}`,
+    payload: { success: false, error: message, ...details },
+  };
+}
+
+/**
+ * A call that ran but didn't do what was asked, with details for the caller to act on
+ */
+export function toolFailure(error: string, details: Record<string, unknown> = {}): ToolOutput {
+  return { payload: { success: false, error, ...details } };
+}
+
+export function parseOutputFormat(value: unknown): OutputFormat {
+  if (value === undefined || value === null) {
+    return 'text';
+  }
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new ValidationError(
+      `Invalid format "${String(value)}" (use text, json or both)`,
+      'format',
+      value
+    );
+  }
+  return value as OutputFormat;
+}
+
+/**
+ * The MCP result for a tool call: the text block, the JSON block, or the text followed by JSON
+ */
+export function formatToolOutput(
+  output: ToolOutput,
+  format: OutputFormat
+): { content: Array<{ type: 'text'; text: string }> } {
+  const json = JSON.stringify(output.payload, null, 2);
+  if (output.text === undefined || format === 'json') {
+    return { content: [{ type: 'text', text: json }] };
+  }
+  if (format === 'both') {
+    return {
+      content: [
+        { type: 'text', text: output.text },
+        { type: 'text', text: json },
+      ],
+    };
+  }
+  return { content: [{ type: 'text', text: output.text }] };
+}
+
+export function isoDate(timestamp: number | null | undefined): string | null {
+  return timestamp === null || timestamp === undefined
+    ? null
+    : CoreDataUtils.toDate(timestamp).toISOString();
+}
+
+export function noteSummary(note: NoteWithTags): NoteSummary {
+  return {
+    id: note.Z_PK,
+    uniqueId: note.ZUNIQUEIDENTIFIER ?? null,
+    title: note.ZTITLE || 'Untitled',
+    tags: note.tags,
+    createdAt: isoDate(note.ZCREATIONDATE),
+    modifiedAt: isoDate(note.ZMODIFICATIONDATE),
+    pinned: note.ZPINNED === 1,
+    archived: note.ZARCHIVED === 1,
+    trashed: note.ZTRASHED === 1,
+    encrypted: note.ZENCRYPTED === 1,
+  };
+}
+
+export function noteListItem(note: NoteWithTags): NoteListItem {
+  return {
+    ...noteSummary(note),
+    preview: note.ZTEXT ? note.ZTEXT.substring(0, PREVIEW_LENGTH) : '',
+  };
+}
+
+export function pageInfo(page: Page<unknown>): PageInfo {
+  return { nextCursor: page.nextCursor, hasMore: page.hasMore, total: page.total ?? null };
+}
@@ -0,0 +1,637 @@
+/**
+ * Bear MCP Server - Tool Schemas
+ * One Zod schema per tool. It generates the inputSchema the tool advertises and validates the
+ * arguments of every call, so a bad limit or date fails with a ValidationError naming the field
+ * instead of reaching the SQL.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import {
+  AnyZodObject,
+  z,
+  ZodArray,
+  ZodBoolean,
+  ZodDefault,
+  ZodEffects,
+  ZodEnum,
+  ZodError,
+  ZodIssue,
+  ZodNumber,
+  ZodObject,
+  ZodOptional,
+  ZodString,
+  ZodTypeAny,
+} from 'zod';
+import {
+  InvalidRangeError,
+  InvalidTypeError,
+  RequiredFieldError,
+  ValidationError,
+} from '../types/errors.js';
+
+export interface ToolSchema {
+  description: string;
+  arguments: AnyZodObject;
+}
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+// Shared by every tool that returns a list one page at a time
+const cursor = z
+  .string()
+  .describe(
+    'nextCursor from the previous response, to get the next page. Pass the other arguments unchanged'
+  )
+  .optional();
+
+const NO_ARGUMENTS = z.object({});
+
+const DRY_RUN_WRITE =
+  'Preview only: return the Bear URLs, sanitized tags and a diff of the note text without sending anything to Bear';
+const DRY_RUN_TAGS =
+  'Preview only: return the affected notes and Bear URLs without sending anything to Bear';
+const TAG_RULES =
+  'Tags are automatically sanitized: lowercase only, no spaces/hyphens (underscores allowed, use forward slashes for nested tags like "work/project")';
+
+function limit(description: string, max?: number) {
+  const schema = z.number().int().min(1);
+  return (max === undefined ? schema : schema.max(max)).describe(description).optional();
+}
+
+function noteId(description: string) {
+  return z.number().int().min(1).describe(description);
+}
+
+function strings(description: string) {
+  return z.array(z.string()).describe(description).optional();
+}
+
+function flag(description: string) {
+  return z.boolean().describe(description).optional();
+}
+
+// new Date() accepts these, so they're checked up front rather than becoming Invalid Date
+function isoDate(description: string) {
+  return z
+    .string()
+    .refine(value => !isNaN(new Date(value).getTime()), {
+      message: 'is not a valid date (use an ISO date such as 2024-01-31)',
+    })
+    .describe(description)
+    .optional();
+}
+
+export const TOOLS = {
+  get_database_stats: {
+    description:
+      'Get comprehensive statistics about the Bear database including note counts, tags, and database health',
+    arguments: NO_ARGUMENTS,
+  },
+  get_database_schema: {
+    description: 'Retrieve the complete database schema showing all tables and their structure',
+    arguments: NO_ARGUMENTS,
+  },
+  check_bear_status: {
+    description:
+      'Check if Bear app is currently running (informational - write operations now use sync-safe Bear API)',
+    arguments: NO_ARGUMENTS,
+  },
+  check_server_health: {
+    description:
+      'Check the health of the database, Bear app and cache services with response times, plus server uptime and memory use',
+    arguments: NO_ARGUMENTS,
+  },
+  verify_database_access: {
+    description: 'Verify that the Bear database is accessible and readable',
+    arguments: NO_ARGUMENTS,
+  },
+  create_backup: {
+    description: 'Create a timestamped backup of the Bear database',
+    arguments: NO_ARGUMENTS,
+  },
+  get_recent_notes: {
+    description: 'Get the most recently modified notes',
+    arguments: z.object({
+      limit: limit('Number of notes to retrieve (default: 10)', 100),
+      cursor,
+    }),
+  },
+  search_notes: {
+    description:
+      'Search notes with a query language: words and "phrases" (matched in titles and text), AND/OR/NOT, parentheses, and filters title:, tag:, -tag:, created:>YYYY-MM-DD, modified:<YYYY-MM-DD, is:pinned|archived|trashed, has:todo|done|attachment|code',
+    arguments: z.object({
+      query: z
+        .string()
+        .describe(
+          'Search query, e.g. tag:work "launch plan" (draft OR review) -is:archived created:>2025-01-01'
+        ),
+      limit: limit('Maximum number of results (default: 20)', 100),
+      cursor,
+    }),
+  },
+  get_note_by_id: {
+    description: 'Get a specific note by its database ID',
+    arguments: z.object({
+      id: noteId('The database ID of the note'),
+    }),
+  },
+  get_note_by_title: {
+    description: 'Get a specific note by its title',
+    arguments: z.object({
+      title: z.string().describe('The exact title of the note'),
+    }),
+  },
+  get_all_tags: {
+    description: 'Get all tags with their usage counts',
+    arguments: NO_ARGUMENTS,
+  },
+  get_notes_by_tag: {
+    description: 'Get all notes that have a specific tag',
+    arguments: z.object({
+      tag: z.string().describe('The tag name to search for'),
+      limit: limit('Maximum number of notes to return (default: 50)', 100),
+      cursor,
+    }),
+  },
+  get_notes_advanced: {
+    description: 'Advanced note search with filtering, sorting, and pagination',
+    arguments: z.object({
+      query: z
+        .string()
+        .describe('Search query for title and content, in the search_notes query language')
+        .optional(),
+      tags: strings('Tags that notes must have (AND logic)'),
+      excludeTags: strings('Tags to exclude from results'),
+      sortBy: z
+        .enum(['created', 'modified', 'title', 'size'])
+        .describe('Sort notes by field')
+        .optional(),
+      sortOrder: z.enum(['asc', 'desc']).describe('Sort order').optional(),
+      limit: limit('Maximum number of results', 100),
+      cursor,
+    }),
+  },
+  get_notes_with_criteria: {
+    description: 'Find notes using complex criteria with AND/OR logic',
+    arguments: z.object({
+      titleContains: strings('Terms that must appear in title (OR logic)'),
+      contentContains: strings('Terms that must appear in content (OR logic)'),
+      hasAllTags: strings('Tags that notes must have (AND logic)'),
+      hasAnyTags: strings('Tags that notes can have (OR logic)'),
+      isPinned: flag('Filter by pinned status'),
+      isArchived: flag('Filter by archived status'),
+      minLength: z.number().int().min(0).describe('Minimum content length').optional(),
+      maxLength: z.number().int().min(0).describe('Maximum content length').optional(),
+      limit: limit('Maximum number of notes to return (default: 50)', 100),
+      cursor,
+    }),
+  },
+  get_note_analytics: {
+    description: 'Get comprehensive analytics and statistics about notes',
+    arguments: NO_ARGUMENTS,
+  },
+  get_related_notes: {
+    description: 'Find notes related to a specific note by tags and content',
+    arguments: z.object({
+      noteId: noteId('The ID of the note to find related notes for'),
+      limit: limit('Maximum number of related notes to return', 20),
+    }),
+  },
+  search_notes_fulltext: {
+    description: 'Advanced full-text search with relevance scoring and snippets',
+    arguments: z.object({
+      query: z.string().describe('Search query string'),
+      limit: limit('Maximum number of results', 50),
+      cursor,
+      includeSnippets: flag('Include content snippets around matches'),
+      searchFields: z
+        .array(z.enum(['title', 'content', 'both']))
+        .describe('Fields to search in')
+        .optional(),
+      fuzzyMatch: flag('Enable fuzzy matching for typos'),
+      caseSensitive: flag('Case sensitive search'),
+    }),
+  },
+  get_search_suggestions: {
+    description: 'Get auto-complete suggestions for search queries',
+    arguments: z.object({
+      partialQuery: z.string().describe('Partial search query for suggestions'),
+      limit: limit('Maximum number of suggestions', 20),
+    }),
+  },
+  find_similar_notes: {
+    description:
+      'Find notes similar to given text by cosine similarity of TF-IDF vectors from the local index',
+    arguments: z.object({
+      referenceText: z.string().describe('Text to find similar notes for'),
+      limit: limit('Maximum number of similar notes', 20),
+      minSimilarity: z
+        .number()
+        .min(0)
+        .max(1)
+        .describe('Minimum similarity score (0.0 to 1.0)')
+        .optional(),
+      excludeNoteId: noteId('Note ID to exclude from results').optional(),
+    }),
+  },
+  semantic_search: {
+    description:
+      'Rank notes by similarity to a natural-language query using a local TF-IDF vector index (no network access)',
+    arguments: z.object({
+      query: z.string().describe('Text describing what to look for'),
+      limit: limit('Maximum number of notes (default: 10)', 50),
+      minScore: z
+        .number()
+        .min(0)
+        .max(1)
+        .describe('Minimum cosine similarity, 0.0 to 1.0 (default: 0.05)')
+        .optional(),
+      includeArchived: flag('Also search archived notes (default: false)'),
+    }),
+  },
+  search_notes_regex: {
+    description:
+      'Search notes with a JavaScript regular expression. Returns every match with its line, column and surrounding lines; useful for ticket IDs and URLs',
+    arguments: z.object({
+      pattern: z.string().describe('Regular expression pattern'),
+      flags: z
+        .string()
+        .describe(
+          'Regex flags: i (case-insensitive), m (multiline anchors), s (dot matches newlines), u (unicode). Matching is always global'
+        )
+        .optional(),
+      searchIn: z
+        .enum(['title', 'content', 'both'])
+        .describe('Where to search for the pattern')
+        .optional(),
+      limit: limit('Maximum number of results', 50),
+      cursor,
+      includeContext: flag('Include the lines around each match (default: true)'),
+      contextLines: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .describe('Lines of context before and after each match (default: 2)')
+        .optional(),
+      includeArchived: flag('Also search archived notes'),
+    }),
+  },
+  get_tag_hierarchy: {
+    description:
+      'Get the nested tag tree with direct and rolled-up note counts per tag, as JSON and as an indented outline. Orphaned tags and tags whose ZPARENT disagrees with their path are flagged',
+    arguments: z.object({
+      root: z.string().describe('Only return the subtree under this tag (e.g. "work")').optional(),
+      maxDepth: z
+        .number()
+        .int()
+        .min(0)
+        .describe('Levels below the top (or root) tag to include; 0 for just the top')
+        .optional(),
+    }),
+  },
+  analyze_tag_relationships: {
+    description:
+      'Analyze how tags are used together: co-occurrence counts with lift and Jaccard scores, clusters of tags that always appear together, merge suggestions for near-duplicate tags (same sanitized form, singular/plural, typos) and tags used on only one note',
+    arguments: z.object({
+      minSharedNotes: limit(
+        'Minimum notes two tags must share to be reported as a pair (default: 2)'
+      ),
+      limit: limit('Maximum number of tag pairs to return (default: 50)'),
+      matrixSize: limit('Number of most used tags in the co-occurrence matrix (default: 15)', 50),
+      clusterThreshold: z
+        .number()
+        .min(0)
+        .max(1)
+        .describe(
+          'Jaccard score at which tags are clustered together; 1 (default) means they always appear together'
+        )
+        .optional(),
+    }),
+  },
+  get_tag_usage_trends: {
+    description:
+      'Per-month counts of notes created and modified under each tag, with rising, declining and dormant tags. Useful for seeing which projects (tags) are still active',
+    arguments: z.object({
+      tagName: z.string().describe('Specific tag to analyze (optional)').optional(),
+      months: limit('Number of months to analyze (default: 6)', 24),
+      endDate: isoDate('Last month of the window (ISO date; default: now)'),
+      dormantMonths: limit(
+        'A tag is dormant when none of its notes changed in this many months (default: 3)'
+      ),
+    }),
+  },
+  get_file_attachments: {
+    description: 'Get comprehensive file attachment information',
+    arguments: z.object({
+      noteId: noteId('Specific note ID to get attachments for').optional(),
+      fileType: z.string().describe('Filter by file extension (e.g., "jpg", "pdf")').optional(),
+      includeMetadata: flag('Include detailed file metadata'),
+      limit: limit('Maximum number of attachments to return', 100),
+      cursor,
+    }),
+  },
+  analyze_note_metadata: {
+    description: 'Analyze note metadata and content patterns',
+    arguments: z.object({
+      includeContentAnalysis: flag('Include markdown and content pattern analysis'),
+      includeLinkAnalysis: flag('Include link analysis and domain statistics'),
+      includeStructureAnalysis: flag('Include note structure and title pattern analysis'),
+    }),
+  },
+  get_notes_with_metadata: {
+    description: 'Get notes filtered by metadata characteristics',
+    arguments: z.object({
+      hasAttachments: flag('Filter notes with/without attachments'),
+      hasLinks: flag('Filter notes with/without external links'),
+      hasImages: flag('Filter notes with/without images'),
+      hasTodos: flag('Filter notes with/without todo items'),
+      hasCodeBlocks: flag('Filter notes with/without code blocks'),
+      hasTables: flag('Filter notes with/without tables'),
+      minWordCount: limit('Minimum word count'),
+      maxWordCount: limit('Maximum word count'),
+      limit: limit('Maximum number of results', 100),
+      cursor,
+    }),
+  },
+  create_note: {
+    description:
+      'Create a new note with title, content, and tags using sync-safe Bear API. Returns the new note ID (Z_PK) and unique identifier once Bear has saved it',
+    arguments: z.object({
+      title: z.string().describe('Title of the new note'),
+      content: z.string().describe('Content/body of the note (optional)').optional(),
+      tags: strings(`Array of tag names to apply to the note. ${TAG_RULES}`),
+      isArchived: flag('Whether the note should be archived'),
+      isPinned: flag('Whether the note should be pinned'),
+      dryRun: flag(DRY_RUN_WRITE),
+    }),
+  },
+  update_note: {
+    description: 'Update an existing note using sync-safe Bear API',
+    arguments: z.object({
+      noteId: noteId('ID of the note to update'),
+      title: z.string().describe('New title for the note').optional(),
+      content: z
+        .string()
+        .describe(
+          'Text to write. Replaces the note body by default; see mode for appending or prepending'
+        )
+        .optional(),
+      mode: z
+        .enum(['append', 'prepend', 'replace', 'replace_all'])
+        .describe(
+          'How content is combined with the note (default: replace). append/prepend add content without resending the body; replace keeps the title; replace_all replaces the whole note including its title'
+        )
+        .optional(),
+      header: z
+        .string()
+        .describe(
+          'Heading to target (without #). With append/prepend the content goes at the end/start of that section; with replace it replaces the section'
+        )
+        .optional(),
+      tags: strings(`New array of tag names (replaces existing tags). ${TAG_RULES}`),
+      isArchived: flag(
+        "True to archive the note. Bear's URL scheme can't unarchive, so false fails for archived notes"
+      ),
+      isPinned: flag('Whether the note should be pinned'),
+      expectedModificationDate: isoDate(
+        'ISO date the note was last read at; the update is refused if the note has changed since'
+      ),
+      dryRun: flag(DRY_RUN_WRITE),
+    }),
+  },
+  edit_note: {
+    description:
+      'Edit part of a note without resending it: apply exact find/replace edits or a unified diff to the current text using sync-safe Bear API',
+    arguments: z.object({
+      noteId: noteId('ID of the note to edit'),
+      edits: z
+        .array(
+          z.object({
+            find: z.string().describe('Exact text to find; must occur exactly once in the note'),
+            replace: z.string().describe('Replacement text'),
+          })
+        )
+        .describe('Find/replace edits applied in order (use this or diff)')
+        .optional(),
+      diff: z
+        .string()
+        .describe(
+          'Unified diff against the current note text, including the title line (use this or edits)'
+        )
+        .optional(),
+      expectedModificationDate: isoDate(
+        'ISO date the note was last read at; the edit is refused if the note has changed since'
+      ),
+      dryRun: flag(DRY_RUN_WRITE),
+    }),
+  },
+  duplicate_note: {
+    description: 'Create a duplicate of an existing note using sync-safe Bear API',
+    arguments: z.object({
+      noteId: noteId('ID of the note to duplicate'),
+      titleSuffix: z
+        .string()
+        .describe('Suffix to add to the duplicated note title (default: " (Copy)")')
+        .optional(),
+      copyTags: flag('Whether to copy tags from the original note (default: true)'),
+      dryRun: flag(DRY_RUN_WRITE),
+    }),
+  },
+  archive_note: {
+    description:
+      "Archive a note using Bear's archive action. The new state is verified before success is reported. Bear's URL scheme has no unarchive action, so archived notes must be unarchived in Bear",
+    arguments: z.object({
+      noteId: noteId('ID of the note to archive'),
+      archived: z
+        .boolean()
+        .describe('True to archive; false only succeeds for notes that are not archived'),
+    }),
+  },
+  trash_note: {
+    description:
+      "Move a note to Bear's trash using sync-safe Bear API. The new state is verified before success is reported",
+    arguments: z.object({
+      noteId: noteId('ID of the note to trash'),
+    }),
+  },
+  get_trashed_notes: {
+    description: "List notes in Bear's trash, most recently trashed first",
+    arguments: z.object({
+      limit: limit('Maximum number of notes to return (default: 20)'),
+      cursor,
+    }),
+  },
+  trigger_hashtag_parsing: {
+    description:
+      'Trigger Bear to reparse hashtags in a note using sync-safe API. Provide either note_id or note_title.',
+    arguments: z.object({
+      note_id: z.string().describe('Note ID to trigger parsing for').optional(),
+      note_title: z
+        .string()
+        .describe('Note title to trigger parsing for (alternative to note_id)')
+        .optional(),
+    }),
+  },
+  batch_trigger_hashtag_parsing: {
+    description: 'Trigger hashtag parsing for multiple notes using sync-safe API',
+    arguments: z.object({
+      tag_filter: z.string().describe('Filter notes by tag name').optional(),
+      title_pattern: z.string().describe('Filter notes by title pattern').optional(),
+      limit: limit('Maximum number of notes to process'),
+      created_after: isoDate('Filter notes created after this date (ISO string)'),
+      dryRun: flag(DRY_RUN_WRITE),
+    }),
+  },
+  rename_tag: {
+    description:
+      "Rename a tag and its nested tags (e.g. work -> job also renames work/projects). Uses Bear's rename-tag action; renaming onto an existing tag merges by rewriting the hashtags in each note. Reports every note touched",
+    arguments: z.object({
+      from: z.string().describe('Current tag name, without the leading #'),
+      to: z.string().describe('New tag name (sanitized like other tags)'),
+      dryRun: flag(DRY_RUN_TAGS),
+    }),
+  },
+  merge_tags: {
+    description:
+      'Merge one or more tags (and their nested tags) into a target tag by rewriting the hashtags in every affected note. Encrypted notes and notes edited mid-merge are skipped and reported',
+    arguments: z.object({
+      sources: z.array(z.string()).describe('Tags to merge away'),
+      target: z.string().describe('Tag to merge into; created if it does not exist'),
+      dryRun: flag(DRY_RUN_TAGS),
+    }),
+  },
+} satisfies Record<string, ToolSchema>;
+
+export type ToolName = keyof typeof TOOLS;
+
+export type ToolArguments<N extends ToolName> = z.infer<(typeof TOOLS)[N]['arguments']>;
+
+export function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(TOOLS, name);
+}
+
+/**
+ * Check a call's arguments against its tool's schema. Arguments the tool doesn't declare,
+ * such as `format`, are dropped. The first problem is thrown; all of them are in its context.
+ */
+export function parseToolArguments<N extends ToolName>(
+  name: N,
+  args: Record<string, unknown>
+): ToolArguments<N> {
+  const result = TOOLS[name].arguments.safeParse(args);
+  if (!result.success) {
+    throw validationErrors(name, result.error, args)[0];
+  }
+  return result.data as ToolArguments<N>;
+}
+
+/**
+ * One ValidationError per problem with a call's arguments, in the order Zod found them
+ */
+export function validationErrors(
+  tool: string,
+  error: ZodError,
+  args: Record<string, unknown>
+): ValidationError[] {
+  const issues = error.issues.map(issue => ({ field: fieldName(issue), message: issue.message }));
+  return error.issues.map(issue => {
+    const field = fieldName(issue);
+    const value = issue.path.reduce<unknown>(
+      (parent, key) => (parent as Record<string | number, unknown> | undefined)?.[key],
+      args
+    );
+    const context = { operation: tool, issues };
+
+    switch (issue.code) {
+      case 'invalid_type':
+        return issue.received === 'undefined'
+          ? new RequiredFieldError(field, context)
+          : new InvalidTypeError(field, issue.expected, issue.received, context);
+      case 'too_small':
+      case 'too_big':
+        if (issue.type === 'number' && typeof value === 'number') {
+          const bound = Number(issue.code === 'too_small' ? issue.minimum : issue.maximum);
+          return issue.code === 'too_small'
+            ? new InvalidRangeError(field, value, bound, undefined, context)
+            : new InvalidRangeError(field, value, undefined, bound, context);
+        }
+        break;
+      case 'invalid_enum_value':
+        return new ValidationError(
+          `Field '${field}' must be one of ${issue.options.join(', ')}, got "${String(value)}"`,
+          field,
+          value,
+          context
+        );
+    }
+    return new ValidationError(`Field '${field}' ${issue.message}`, field, value, context);
+  });
+}
+
+/**
+ * The JSON Schema advertised as a tool's inputSchema
+ */
+export function toInputSchema(schema: AnyZodObject): {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+} {
+  return toJsonSchema(schema) as { type: 'object' };
+}
+
+/**
+ * JSON Schema for the Zod types the tool schemas use
+ */
+export function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof ZodOptional || schema instanceof ZodDefault) {
+    return { ...toJsonSchema(schema._def.innerType), ...description };
+  }
+  if (schema instanceof ZodEffects) {
+    return { ...toJsonSchema(schema.innerType()), ...description };
+  }
+  if (schema instanceof ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+      ),
+      ...(required.length > 0 ? { required } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof ZodArray) {
+    return { type: 'array', items: toJsonSchema(schema.element), ...description };
+  }
+  if (schema instanceof ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description };
+  }
+  if (schema instanceof ZodString) {
+    return { type: 'string', ...description };
+  }
+  if (schema instanceof ZodBoolean) {
+    return { type: 'boolean', ...description };
+  }
+  if (schema instanceof ZodNumber) {
+    return {
+      type: schema.isInt ? 'integer' : 'number',
+      ...(schema.minValue !== null ? { minimum: schema.minValue } : {}),
+      ...(schema.maxValue !== null ? { maximum: schema.maxValue } : {}),
+      ...description,
+    };
+  }
+  throw new Error(`No JSON Schema for ${schema._def.typeName}`);
+}
+
+function fieldName(issue: ZodIssue): string {
+  return issue.path.length > 0 ? issue.path.join('.') : 'arguments';
+}
@@ -0,0 +1,405 @@
+/**
+ * Bear MCP Server - Vector Index
+ * TF-IDF vectors of note titles and text, kept in their own SQLite file and compared by cosine
+ * similarity. Everything runs locally; nothing is sent over the network.
+ * Copyright (c) 2024 Bear MCP Server
+ * MIT License - see LICENSE file for details
+ */
+
+import sqlite3 from 'sqlite3';
+import { SQLParameter } from '../types/bear.js';
+import {
+  all,
+  closeIndexDatabase,
+  inTransaction,
+  IndexSchema,
+  openIndexDatabase,
+  run,
+} from './index-database.js';
+import { singularize } from './tag-similarity.js';
+
+const SCHEMA: IndexSchema = {
+  version: '1',
+  tables: ['note_terms', 'indexed_notes'],
+  create: `
+    CREATE TABLE note_terms (
+      term TEXT NOT NULL, note_id INTEGER NOT NULL, tf REAL NOT NULL,
+      PRIMARY KEY (term, note_id)
+    ) WITHOUT ROWID;
+    CREATE INDEX note_terms_note_id ON note_terms (note_id);
+    CREATE TABLE indexed_notes (note_id INTEGER PRIMARY KEY, modified REAL NOT NULL);`,
+};
+
+// Title words are counted this many times, so a note's title weighs more than one mention
+const TITLE_REPEAT = 2;
+// Only the strongest terms of a long query are compared; SQLite caps bound parameters
+const MAX_QUERY_TERMS = 200;
+const MAX_SHARED_TERMS = 5;
+
+const STOP_WORDS = new Set(
+  `about above after again against all also and any are because been before being below
+   between both but can could did does doing down during each few for from further had has
+   have having her here hers him his how into its itself just more most not now off once only
+   other our ours out over own same she should some such than that the their theirs them then
+   there these they this those through too under until very was were what when where which
+   while who whom why will with would you your yours`.split(/\s+/)
+);
+
+export interface VectorSearchOptions {
+  limit?: number;
+  /** Lowest cosine similarity to return, 0-1 */
+  minScore?: number;
+  excludeNoteIds?: number[];
+  includeArchived?: boolean;
+}
+
+export interface VectorMatch {
+  noteId: number;
+  /** Cosine similarity of the TF-IDF vectors, 0-1 */
+  score: number;
+  /** The shared terms that contributed most, strongest first */
+  sharedTerms: string[];
+}
+
+interface CorpusStats {
+  documents: number;
+  documentFrequency: Map<string, number>;
+  norms: Map<number, number>;
+}
+
+/**
+ * Reduce a word to a rough stem so that "plans", "planned" and "planning" share a vector
+ * dimension: plurals are singularized and -ing/-ed endings and a final e dropped.
+ */
+export function stemTerm(word: string): string {
+  let stem = singularize(word);
+  const suffix = /(?:ing|ed)$/.exec(stem);
+  if (suffix && stem.length - suffix[0].length >= 4) {
+    stem = stem.slice(0, -suffix[0].length);
+    if (/([^aeiouls])\1$/.test(stem)) {
+      stem = stem.slice(0, -1);
+    }
+  }
+  // "archive" and "archived" both become "archiv"
+  if (stem.length > 4 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+  }
+  return stem;
+}
+
+/**
+ * Split text into stemmed terms, skipping code blocks, links, numbers and common words
+ */
+export function vectorTerms(text: string): string[] {
+  const words =
+    text
+      .toLowerCase()
+      .replace(/```[\s\S]*?```/g, ' ')
+      .replace(/https?:\/\/\S+/g, ' ')
+      .match(/[\p{L}\p{N}]+/gu) || [];
+
+  return words
+    .filter(word => word.length >= 3 && !/^\d+$/.test(word) && !STOP_WORDS.has(word))
+    .map(stemTerm);
+}
+
+/**
+ * Local semantic index. Like the full-text index, every query first re-vectorizes notes whose
+ * ZMODIFICATIONDATE moved and drops deleted or encrypted notes. Methods return null when the
+ * index can't be used, so callers can fall back to keyword matching.
+ */
+export class VectorIndex {
+  private db: sqlite3.Database | null = null;
+  private opening: Promise<sqlite3.Database | null> | null = null;
+  private refreshing: Promise<boolean> | null = null;
+  // Document frequencies and note norms, recomputed after the index changes
+  private stats: CorpusStats | null = null;
+  private unavailableReason: string | null = null;
+
+  constructor(
+    private readonly indexPath: string,
+    private readonly bearDbPath: string
+  ) {}
+
+  /**
+   * Why the index can't be used, or null if it is (or hasn't been tried yet)
+   */
+  get unavailable(): string | null {
+    return this.unavailableReason;
+  }
+
+  /**
+   * Notes most similar to a piece of text
+   */
+  async search(text: string, options: VectorSearchOptions = {}): Promise<VectorMatch[] | null> {
+    const stats = await this.prepare();
+    if (!stats) {
+      return null;
+    }
+
+    const counts = new Map<string, number>();
+    for (const term of vectorTerms(text)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return this.rank(
+      [...counts].map(([term, count]) => ({ term, tf: 1 + Math.log(count) })),
+      stats,
+      options
+    );
+  }
+
+  /**
+   * Notes most similar to an indexed note; empty when the note isn't indexed (e.g. encrypted)
+   */
+  async similarToNote(
+    noteId: number,
+    options: VectorSearchOptions = {}
+  ): Promise<VectorMatch[] | null> {
+    const stats = await this.prepare();
+    if (!stats) {
+      return null;
+    }
+
+    const terms = await all<{ term: string; tf: number }>(
+      this.db!,
+      'SELECT term, tf FROM note_terms WHERE note_id = ?',
+      [noteId]
+    );
+    return this.rank(terms, stats, {
+      ...options,
+      excludeNoteIds: [...(options.excludeNoteIds || []), noteId],
+    });
+  }
+
+  /**
+   * Bring the index up to date with Bear's database
+   */
+  async refresh(): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.applyChanges(db).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    if (await this.refreshing) {
+      this.stats = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    this.opening = null;
+    this.stats = null;
+    if (db) {
+      await closeIndexDatabase(db);
+    }
+  }
+
+  private async prepare(): Promise<CorpusStats | null> {
+    const db = await this.open();
+    if (!db) {
+      return null;
+    }
+
+    try {
+      await this.refresh();
+    } catch {
+      // A busy or locked database shouldn't fail the request; keyword matching still works
+      return null;
+    }
+
+    if (!this.stats) {
+      this.stats = await this.loadStats(db);
+    }
+    return this.stats;
+  }
+
+  private async rank(
+    query: Array<{ term: string; tf: number }>,
+    stats: CorpusStats,
+    options: VectorSearchOptions
+  ): Promise<VectorMatch[]> {
+    const weights = new Map<string, number>();
+    for (const { term, tf } of query) {
+      const df = stats.documentFrequency.get(term);
+      // Terms no note contains can't contribute to any dot product
+      if (df) {
+        weights.set(term, tf * idf(stats.documents, df));
+      }
+    }
+
+    const terms = [...weights]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_QUERY_TERMS)
+      .map(([term]) => term);
+    if (terms.length === 0) {
+      return [];
+    }
+    const queryNorm = Math.sqrt(terms.reduce((sum, term) => sum + weights.get(term)! ** 2, 0));
+
+    let sql = `
+      SELECT v.note_id, v.term, v.tf
+      FROM note_terms v
+      JOIN bear.ZSFNOTE n ON n.Z_PK = v.note_id
+      WHERE v.term IN (${terms.map(() => '?').join(', ')}) AND n.ZTRASHED = 0
+    `;
+    const params: SQLParameter[] = [...terms];
+    if (!options.includeArchived) {
+      sql += ' AND n.ZARCHIVED = 0';
+    }
+    if (options.excludeNoteIds?.length) {
+      sql += ` AND v.note_id NOT IN (${options.excludeNoteIds.map(() => '?').join(', ')})`;
+      params.push(...options.excludeNoteIds);
+    }
+
+    const contributions = new Map<number, Array<[string, number]>>();
+    for (const row of await all<{ note_id: number; term: string; tf: number }>(
+      this.db!,
+      sql,
+      params
+    )) {
+      const weight = row.tf * idf(stats.documents, stats.documentFrequency.get(row.term)!);
+      const list = contributions.get(row.note_id) || [];
+      list.push([row.term, weights.get(row.term)! * weight]);
+      contributions.set(row.note_id, list);
+    }
+
+    const minScore = options.minScore ?? 0;
+    return [...contributions]
+      .map(([noteId, shared]) => {
+        const dot = shared.reduce((sum, [, value]) => sum + value, 0);
+        return {
+          noteId,
+          score: Math.round((dot / (queryNorm * stats.norms.get(noteId)!)) * 1000) / 1000,
+          sharedTerms: shared
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_SHARED_TERMS)
+            .map(([term]) => term),
+        };
+      })
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score || a.noteId - b.noteId)
+      .slice(0, options.limit || 10);
+  }
+
+  private async loadStats(db: sqlite3.Database): Promise<CorpusStats> {
+    const [{ documents }] = await all<{ documents: number }>(
+      db,
+      'SELECT COUNT(*) AS documents FROM indexed_notes'
+    );
+    const documentFrequency = new Map(
+      (
+        await all<{ term: string; df: number }>(
+          db,
+          'SELECT term, COUNT(*) AS df FROM note_terms GROUP BY term'
+        )
+      ).map(row => [row.term, row.df])
+    );
+
+    const squares = new Map<number, number>();
+    for (const row of await all<{ note_id: number; term: string; tf: number }>(
+      db,
+      'SELECT note_id, term, tf FROM note_terms'
+    )) {
+      const weight = row.tf * idf(documents, documentFrequency.get(row.term)!);
+      squares.set(row.note_id, (squares.get(row.note_id) || 0) + weight ** 2);
+    }
+
+    return {
+      documents,
+      documentFrequency,
+      norms: new Map([...squares].map(([noteId, sum]) => [noteId, Math.sqrt(sum)])),
+    };
+  }
+
+  /**
+   * Re-vectorize changed notes and drop removed ones; resolves true if anything changed
+   */
+  private async applyChanges(db: sqlite3.Database): Promise<boolean> {
+    let changedAny = false;
+
+    await inTransaction(db, async () => {
+      const changed = await all<{
+        Z_PK: number;
+        ZTITLE: string | null;
+        ZTEXT: string | null;
+        modified: number;
+      }>(
+        db,
+        `SELECT n.Z_PK, n.ZTITLE, n.ZTEXT, COALESCE(n.ZMODIFICATIONDATE, 0) AS modified
+         FROM bear.ZSFNOTE n
+         LEFT JOIN indexed_notes i ON i.note_id = n.Z_PK
+         WHERE COALESCE(n.ZENCRYPTED, 0) = 0
+           AND (i.note_id IS NULL OR COALESCE(n.ZMODIFICATIONDATE, 0) > i.modified)`
+      );
+
+      for (const note of changed) {
+        const counts = new Map<string, number>();
+        const title = vectorTerms(note.ZTITLE || '');
+        const terms = [...Array(TITLE_REPEAT).fill(title).flat(), ...vectorTerms(note.ZTEXT || '')];
+        for (const term of terms) {
+          counts.set(term, (counts.get(term) || 0) + 1);
+        }
+
+        await run(db, 'DELETE FROM note_terms WHERE note_id = ?', [note.Z_PK]);
+        for (const [term, count] of counts) {
+          await run(db, 'INSERT INTO note_terms (term, note_id, tf) VALUES (?, ?, ?)', [
+            term,
+            note.Z_PK,
+            1 + Math.log(count),
+          ]);
+        }
+        await run(db, 'INSERT OR REPLACE INTO indexed_notes (note_id, modified) VALUES (?, ?)', [
+          note.Z_PK,
+          note.modified,
+        ]);
+      }
+
+      const [{ removed }] = await all<{ removed: number }>(
+        db,
+        `SELECT COUNT(*) AS removed FROM indexed_notes WHERE note_id NOT IN (
+           SELECT Z_PK FROM bear.ZSFNOTE WHERE COALESCE(ZENCRYPTED, 0) = 0)`
+      );
+      if (removed > 0) {
+        await run(
+          db,
+          `DELETE FROM note_terms WHERE note_id IN (
+             SELECT note_id FROM indexed_notes WHERE note_id NOT IN (
+               SELECT Z_PK FROM bear.ZSFNOTE WHERE COALESCE(ZENCRYPTED, 0) = 0))`
+        );
+        await run(
+          db,
+          `DELETE FROM indexed_notes WHERE note_id NOT IN (
+             SELECT Z_PK FROM bear.ZSFNOTE WHERE COALESCE(ZENCRYPTED, 0) = 0)`
+        );
+      }
+
+      changedAny = changed.length > 0 || removed > 0;
+    });
+
+    return changedAny;
+  }
+
+  private async open(): Promise<sqlite3.Database | null> {
+    if (this.db || this.unavailableReason) {
+      return this.db;
+    }
+    if (!this.opening) {
+      this.opening = openIndexDatabase(this.indexPath, this.bearDbPath, SCHEMA).catch(error => {
+        this.unavailableReason = error instanceof Error ? error.message : String(error);
+        return null;
+      });
+    }
+    this.db = await this.opening;
+    return this.db;
+  }
+}
+
+// Smoothed inverse document frequency; stays positive for terms every note contains
+function idf(documents: number, documentFrequency: number): number {
+  return Math.log((1 + documents) / (1 + documentFrequency)) + 1;
+}
@@ -3,17 +3,31 @@
  * Simple smoke tests to ensure core functionality works
  */
 
+import { CacheService } from '../src/services/cache-service.js';
 import { DatabaseService } from '../src/services/database-service.js';
 import { config } from '../src/config/index.js';
+import { bootstrapServices } from '../src/services/bootstrap.js';
+import { ServiceContainer } from '../src/services/container/service-container.js';
+import { ILoggingService, SERVICE_TOKENS } from '../src/services/interfaces/index.js';
+import { createBearFixture, BearFixture } from './fixtures/bear-database.js';
 import fs from 'fs';
-import path from 'path';
-import os from 'os';
+import { Console } from 'console';
+import { Writable } from 'stream';
 
 describe('Bear MCP Server - Basic Tests', () => {
-  const bearDbPath = path.join(
-    os.homedir(),
-    'Library/Group Containers/9K33E3U3T4.net.shinyfrog.bear/Application Data/database.sqlite'
-  );
+  let fixture: BearFixture;
+  let bearDbPath: string;
+
+  beforeAll(async () => {
+    fixture = await createBearFixture({
+      notes: [{ title: 'Welcome', tags: ['inbox'] }],
+    });
+    bearDbPath = fixture.dbPath;
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
 
   describe('Environment Check', () => {
     test('should have Bear database file', () => {
@@ -50,7 +64,7 @@ describe('Bear MCP Server - Basic Tests', () => {
       expect(stats).toBeDefined();
       expect(typeof stats.totalNotes).toBe('number');
       expect(typeof stats.totalTags).toBe('number');
-      expect(stats.totalNotes).toBeGreaterThanOrEqual(0);
+      expect(stats.totalNotes).toBe(1);
     });
 
     test('should verify database integrity', async () => {
@@ -67,4 +81,55 @@ describe('Bear MCP Server - Basic Tests', () => {
       expect(config.database.bearDbPath).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('Service Container', () => {
+    test('logs to stderr only, leaving stdout to JSON-RPC', async () => {
+      const container = new ServiceContainer();
+      bootstrapServices({}, container);
+      const stdout: string[] = [];
+      const stderr: string[] = [];
+      const sink = (lines: string[]) =>
+        new Writable({
+          write(chunk, _encoding, done) {
+            lines.push(String(chunk));
+            done();
+          },
+        });
+
+      // A console like Node's, whose streams the test can read
+      const original = global.console;
+      global.console = new Console({ stdout: sink(stdout), stderr: sink(stderr) });
+      try {
+        const logger = container.resolve<ILoggingService>(SERVICE_TOKENS.LOGGING_SERVICE);
+        logger.info('hello from the logger');
+        logger.error('something failed', new Error('boom'));
+      } finally {
+        global.console = original;
+        await container.dispose();
+      }
+
+      expect(stdout).toEqual([]);
+      expect(stderr.join('')).toContain('hello from the logger');
+      expect(stderr.join('')).toContain('something failed');
+      expect(fs.existsSync('logs')).toBe(false);
+    });
+  });
+
+  describe('Cache Service', () => {
+    test('evicts by bytes and never stores entries too large for the budget', async () => {
+      const cache = new CacheService({ maxBytes: 16 * 1024 });
+      const row = 'x'.repeat(1000);
+
+      for (let i = 0; i < 20; i++) {
+        await cache.set(`row:${i}`, row);
+      }
+      await cache.set('scan', 'x'.repeat(10 * 1024));
+
+      const stats = await cache.getStats();
+      expect(stats.memoryUsage).toBeLessThanOrEqual(16 * 1024);
+      expect(await cache.get('row:0')).toBeNull();
+      expect(await cache.get('row:19')).toBe(row);
+      expect(await cache.get('scan')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Synthetic Bear database fixture
+ * Builds a throwaway SQLite file with Bear's Core Data layout so tools can be exercised
+ * through BEAR_DB_PATH on machines without Bear installed
+ */
+
+import sqlite3 from 'sqlite3';
+import { mkdtemp, rm } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { CoreDataUtils } from '../../src/utils/database.js';
+
+export interface FixtureAttachment {
+  filename: string;
+  size?: number;
+  createdAt?: Date;
+  modifiedAt?: Date;
+  filePath?: string;
+}
+
+export interface FixtureNote {
+  title: string;
+  /** Raw markdown stored in ZTEXT. Defaults to a title header followed by the note's hashtags */
+  text?: string;
+  tags?: string[];
+  uuid?: string;
+  createdAt?: Date;
+  modifiedAt?: Date;
+  trashed?: boolean;
+  trashedAt?: Date;
+  archived?: boolean;
+  archivedAt?: Date;
+  pinned?: boolean;
+  encrypted?: boolean;
+  attachments?: FixtureAttachment[];
+}
+
+export interface BearFixtureSpec {
+  notes?: FixtureNote[];
+  /** Tags that exist in the sidebar without being attached to any note */
+  tags?: string[];
+  /** Core Data entity numbers, which name the note-tag join table and its columns */
+  entities?: { note: number; tag: number };
+  /** ZSFNOTE columns to leave out, like a Bear version that doesn't have them */
+  omitNoteColumns?: string[];
+}
+
+export interface FixtureNoteRecord {
+  id: number;
+  uuid: string;
+  title: string;
+}
+
+export interface BearFixture {
+  dbPath: string;
+  notes: FixtureNoteRecord[];
+  tagIds: Map<string, number>;
+  noteId(title: string): number;
+  noteUuid(title: string): string;
+  cleanup(): Promise<void>;
+}
+
+// Core Data entity numbers used by Bear 1.x/2.x for the note-tag relationship columns
+export const NOTE_ENTITY = 5;
+const FILE_ENTITY = 9;
+const TAG_ENTITY = 13;
+
+const SCHEMA = `
+  CREATE TABLE Z_PRIMARYKEY (
+    Z_ENT INTEGER PRIMARY KEY, Z_NAME VARCHAR, Z_SUPER INTEGER, Z_MAX INTEGER
+  );
+  CREATE TABLE ZSFNOTE (
+    Z_PK INTEGER PRIMARY KEY, Z_ENT INTEGER, Z_OPT INTEGER,
+    ZARCHIVED INTEGER, ZENCRYPTED INTEGER, ZHASFILES INTEGER, ZHASIMAGES INTEGER,
+    ZHASSOURCECODE INTEGER, ZLOCKED INTEGER, ZORDER INTEGER, ZPERMANENTLYDELETED INTEGER,
+    ZPINNED INTEGER, ZSKIPSYNC INTEGER, ZTODOCOMPLETED INTEGER, ZTODOINCOMPLETED INTEGER,
+    ZTRASHED INTEGER, ZVERSION INTEGER,
+    ZARCHIVEDDATE TIMESTAMP, ZCREATIONDATE TIMESTAMP, ZMODIFICATIONDATE TIMESTAMP,
+    ZORDERDATE TIMESTAMP, ZPINNEDDATE TIMESTAMP, ZTRASHEDDATE TIMESTAMP,
+    ZLASTEDITINGDEVICE VARCHAR, ZSUBTITLE VARCHAR, ZTEXT VARCHAR, ZTITLE VARCHAR,
+    ZUNIQUEIDENTIFIER VARCHAR, ZENCRYPTEDDATA BLOB
+  );
+  CREATE TABLE ZSFNOTETAG (
+    Z_PK INTEGER PRIMARY KEY, Z_ENT INTEGER, Z_OPT INTEGER,
+    ZPARENT INTEGER, ZORDER INTEGER, ZPINNED INTEGER,
+    ZCREATIONDATE TIMESTAMP, ZMODIFICATIONDATE TIMESTAMP,
+    ZTITLE VARCHAR, ZUNIQUEIDENTIFIER VARCHAR
+  );
+  CREATE TABLE Z_5TAGS (
+    Z_5NOTES INTEGER, Z_13TAGS INTEGER, PRIMARY KEY (Z_5NOTES, Z_13TAGS)
+  );
+  CREATE TABLE ZSFNOTEFILE (
+    Z_PK INTEGER PRIMARY KEY, Z_ENT INTEGER, Z_OPT INTEGER,
+    ZNOTE INTEGER, ZFILESIZE INTEGER,
+    ZCREATIONDATE TIMESTAMP, ZMODIFICATIONDATE TIMESTAMP,
+    ZFILENAME VARCHAR, ZFILEPATH VARCHAR, ZNORMALIZEDFILEEXTENSION VARCHAR,
+    ZUNIQUEIDENTIFIER VARCHAR
+  );
+  CREATE INDEX Z_5TAGS_Z_13TAGS_INDEX ON Z_5TAGS (Z_13TAGS, Z_5NOTES);
+  CREATE INDEX ZSFNOTEFILE_ZNOTE_INDEX ON ZSFNOTEFILE (ZNOTE);
+`;
+
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'heic', 'webp', 'tiff']);
+
+// Fixed base date so fixtures are deterministic unless a note overrides its timestamps
+const BASE_DATE = new Date('2024-01-01T09:00:00Z');
+
+export function run(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<number> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(this.lastID);
+      }
+    });
+  });
+}
+
+export function all<T>(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+  });
+}
+
+function exec(db: sqlite3.Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.exec(sql, err => (err ? reject(err) : resolve()));
+  });
+}
+
+export function close(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.close(err => (err ? reject(err) : resolve()));
+  });
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+/**
+ * Find or create a tag row. Nested tags (work/projects) also create their ancestors,
+ * and the ids of the whole chain are returned so notes can be attached to each, like Bear does
+ */
+export async function ensureTag(db: sqlite3.Database, tagPath: string): Promise<number[]> {
+  const segments = tagPath.split('/').filter(Boolean);
+  const ids: number[] = [];
+  let parentId: number | null = null;
+
+  for (let i = 0; i < segments.length; i++) {
+    const title = segments.slice(0, i + 1).join('/');
+    const [existing] = await all<{ Z_PK: number }>(
+      db,
+      'SELECT Z_PK FROM ZSFNOTETAG WHERE ZTITLE = ?',
+      [title]
+    );
+    let id = existing?.Z_PK;
+
+    if (id === undefined) {
+      const now = CoreDataUtils.fromDate(BASE_DATE);
+      id = await run(
+        db,
+        `INSERT INTO ZSFNOTETAG (Z_ENT, Z_OPT, ZPARENT, ZORDER, ZPINNED, ZCREATIONDATE,
+           ZMODIFICATIONDATE, ZTITLE, ZUNIQUEIDENTIFIER)
+         VALUES (?, 1, ?, 0, 0, ?, ?, ?, ?)`,
+        [TAG_ENTITY, parentId, now, now, title, randomUUID().toUpperCase()]
+      );
+    }
+
+    ids.push(id);
+    parentId = id;
+  }
+
+  return ids;
+}
+
+/**
+ * Attach a note to a tag and its ancestors
+ */
+export async function attachTag(
+  db: sqlite3.Database,
+  noteId: number,
+  tagPath: string
+): Promise<void> {
+  for (const tagId of await ensureTag(db, tagPath)) {
+    await run(db, 'INSERT OR IGNORE INTO Z_5TAGS (Z_5NOTES, Z_13TAGS) VALUES (?, ?)', [
+      noteId,
+      tagId,
+    ]);
+  }
+}
+
+/**
+ * Give notes and tags other entity numbers, renaming the join table the way Core Data would
+ */
+async function renumberEntities(db: sqlite3.Database, note: number, tag: number): Promise<void> {
+  await run(
+    db,
+    `ALTER TABLE Z_${NOTE_ENTITY}TAGS RENAME COLUMN Z_${NOTE_ENTITY}NOTES TO Z_${note}NOTES`
+  );
+  await run(
+    db,
+    `ALTER TABLE Z_${NOTE_ENTITY}TAGS RENAME COLUMN Z_${TAG_ENTITY}TAGS TO Z_${tag}TAGS`
+  );
+  await run(db, `ALTER TABLE Z_${NOTE_ENTITY}TAGS RENAME TO Z_${note}TAGS`);
+  for (const [from, to, table] of [
+    [NOTE_ENTITY, note, 'ZSFNOTE'],
+    [TAG_ENTITY, tag, 'ZSFNOTETAG'],
+  ] as const) {
+    await run(db, 'UPDATE Z_PRIMARYKEY SET Z_ENT = ? WHERE Z_ENT = ?', [to, from]);
+    await run(db, `UPDATE ${table} SET Z_ENT = ?`, [to]);
+  }
+}
+
+function defaultText(note: FixtureNote): string {
+  const hashtags = (note.tags || []).map(tag => `#${tag}`).join(' ');
+  return hashtags ? `# ${note.title}\n\n${hashtags}` : `# ${note.title}`;
+}
+
+/**
+ * Create a Bear database in a temporary directory, seeded from a declarative spec
+ */
+export async function createBearFixture(spec: BearFixtureSpec = {}): Promise<BearFixture> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'bear-fixture-'));
+  const dbPath = path.join(dir, 'database.sqlite');
+  const db = new sqlite3.Database(dbPath);
+
+  const notes: FixtureNoteRecord[] = [];
+  const tagIds = new Map<string, number>();
+
+  try {
+    await exec(db, SCHEMA);
+
+    for (const [index, note] of (spec.notes || []).entries()) {
+      const createdAt = note.createdAt || new Date(BASE_DATE.getTime() + index * 86400000);
+      const modifiedAt = note.modifiedAt || createdAt;
+      const uuid = note.uuid || randomUUID().toUpperCase();
+      const text = note.encrypted ? null : (note.text ?? defaultText(note));
+      const body = text || '';
+      const attachments = note.attachments || [];
+      const extensions = attachments.map(a => path.extname(a.filename).slice(1).toLowerCase());
+      const subtitle = body
+        .split('\n')
+        .slice(1)
+        .find(line => line.trim())
+        ?.trim()
+        .slice(0, 80);
+
+      const id = await run(
+        db,
+        `INSERT INTO ZSFNOTE (Z_ENT, Z_OPT, ZARCHIVED, ZENCRYPTED, ZHASFILES, ZHASIMAGES,
+           ZHASSOURCECODE, ZLOCKED, ZORDER, ZPERMANENTLYDELETED, ZPINNED, ZSKIPSYNC,
+           ZTODOCOMPLETED, ZTODOINCOMPLETED, ZTRASHED, ZVERSION, ZARCHIVEDDATE, ZCREATIONDATE,
+           ZMODIFICATIONDATE, ZORDERDATE, ZPINNEDDATE, ZTRASHEDDATE, ZLASTEDITINGDEVICE,
+           ZSUBTITLE, ZTEXT, ZTITLE, ZUNIQUEIDENTIFIER, ZENCRYPTEDDATA)
+         VALUES (?, 1, ?, ?, ?, ?, ?, 0, 0, 0, ?, 0, ?, ?, ?, 3, ?, ?, ?, ?, ?, ?, 'fixture',
+           ?, ?, ?, ?, ?)`,
+        [
+          NOTE_ENTITY,
+          note.archived ? 1 : 0,
+          note.encrypted ? 1 : 0,
+          extensions.some(ext => !IMAGE_EXTENSIONS.has(ext)) ? 1 : 0,
+          extensions.some(ext => IMAGE_EXTENSIONS.has(ext)) ? 1 : 0,
+          body.includes('```') ? 1 : 0,
+          note.pinned ? 1 : 0,
+          countMatches(body, /^\s*[-*] \[x\]/gim),
+          countMatches(body, /^\s*[-*] \[ \]/gm),
+          note.trashed ? 1 : 0,
+          note.archived ? CoreDataUtils.fromDate(note.archivedAt || modifiedAt) : null,
+          CoreDataUtils.fromDate(createdAt),
+          CoreDataUtils.fromDate(modifiedAt),
+          CoreDataUtils.fromDate(modifiedAt),
+          note.pinned ? CoreDataUtils.fromDate(modifiedAt) : null,
+          note.trashed ? CoreDataUtils.fromDate(note.trashedAt || modifiedAt) : null,
+          subtitle || null,
+          text,
+          note.title,
+          uuid,
+          note.encrypted ? Buffer.from(`encrypted:${note.title}`) : null,
+        ]
+      );
+      notes.push({ id, uuid, title: note.title });
+
+      for (const tag of note.tags || []) {
+        await attachTag(db, id, tag);
+      }
+
+      for (const attachment of attachments) {
+        const fileCreated = attachment.createdAt || createdAt;
+        await run(
+          db,
+          `INSERT INTO ZSFNOTEFILE (Z_ENT, Z_OPT, ZNOTE, ZFILESIZE, ZCREATIONDATE,
+             ZMODIFICATIONDATE, ZFILENAME, ZFILEPATH, ZNORMALIZEDFILEEXTENSION, ZUNIQUEIDENTIFIER)
+           VALUES (?, 1, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            FILE_ENTITY,
+            id,
+            attachment.size ?? 1024,
+            CoreDataUtils.fromDate(fileCreated),
+            CoreDataUtils.fromDate(attachment.modifiedAt || fileCreated),
+            attachment.filename,
+            attachment.filePath ?? `Local Files/${uuid}/${attachment.filename}`,
+            path.extname(attachment.filename).slice(1).toLowerCase(),
+            randomUUID().toUpperCase(),
+          ]
+        );
+      }
+    }
+
+    for (const tag of spec.tags || []) {
+      await ensureTag(db, tag);
+    }
+
+    const tags = await all<{ Z_PK: number; ZTITLE: string }>(
+      db,
+      'SELECT Z_PK, ZTITLE FROM ZSFNOTETAG'
+    );
+    tags.forEach(tag => tagIds.set(tag.ZTITLE, tag.Z_PK));
+
+    // Core Data keeps the next primary key per entity in Z_PRIMARYKEY
+    const entities: Array<[number, string, string]> = [
+      [NOTE_ENTITY, 'SFNote', 'ZSFNOTE'],
+      [FILE_ENTITY, 'SFNoteFile', 'ZSFNOTEFILE'],
+      [TAG_ENTITY, 'SFNoteTag', 'ZSFNOTETAG'],
+    ];
+    for (const [entity, name, table] of entities) {
+      await run(
+        db,
+        `INSERT INTO Z_PRIMARYKEY (Z_ENT, Z_NAME, Z_SUPER, Z_MAX)
+         VALUES (?, ?, 0, (SELECT COALESCE(MAX(Z_PK), 0) FROM ${table}))`,
+        [entity, name]
+      );
+    }
+
+    if (spec.entities) {
+      await renumberEntities(db, spec.entities.note, spec.entities.tag);
+    }
+    for (const column of spec.omitNoteColumns || []) {
+      await run(db, `ALTER TABLE ZSFNOTE DROP COLUMN ${column}`);
+    }
+  } finally {
+    await close(db);
+  }
+
+  const find = (title: string): FixtureNoteRecord => {
+    const record = notes.find(note => note.title === title);
+    if (!record) {
+      throw new Error(`Fixture has no note titled "${title}"`);
+    }
+    return record;
+  };
+
+  return {
+    dbPath,
+    notes,
+    tagIds,
+    noteId: title => find(title).id,
+    noteUuid: title => find(title).uuid,
+    cleanup: () => rm(dir, { recursive: true, force: true }),
+  };
+}
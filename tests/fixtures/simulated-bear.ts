@@ -0,0 +1,183 @@
+/**
+ * Simulated Bear
+ * A dispatcher that records every x-callback-url and applies it to a fixture database the way
+ * Bear would, so write tools can be exercised end to end without the app
+ */
+
+import sqlite3 from 'sqlite3';
+import { randomUUID } from 'crypto';
+import { BearUrlCall, RecordingBearDispatcher } from '../../src/utils/bear-url-dispatcher.js';
+import { CoreDataUtils } from '../../src/utils/database.js';
+import {
+  applyAddText,
+  composeCreatedText,
+  renameTagInText,
+  titleFromText,
+} from '../../src/utils/bear-text.js';
+import { all, attachTag, close, run, NOTE_ENTITY } from './bear-database.js';
+
+interface NoteRow {
+  Z_PK: number;
+  ZTEXT: string | null;
+}
+
+/**
+ * Extract hashtags the way Bear's parser sees them (headers and code spans excluded)
+ */
+export function parseHashtags(text: string): string[] {
+  const withoutCode = text.replace(/```[\s\S]*?```/g, '').replace(/`[^`]*`/g, '');
+  const tags = new Set<string>();
+
+  for (const match of withoutCode.matchAll(/(?:^|\s)#([^\s#]+)/g)) {
+    const tag = match[1].replace(/[.,;:!?)]+$/, '').replace(/\/+$/, '');
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+
+  return [...tags];
+}
+
+export class SimulatedBear extends RecordingBearDispatcher {
+  constructor(private readonly dbPath: string) {
+    super();
+  }
+
+  get lastCall(): BearUrlCall | undefined {
+    return this.calls[this.calls.length - 1];
+  }
+
+  async dispatch(url: string): Promise<void> {
+    await super.dispatch(url);
+    const call = this.lastCall!;
+
+    const db = new sqlite3.Database(this.dbPath);
+    try {
+      switch (call.action) {
+        case 'create':
+          await this.create(db, call.params);
+          break;
+        case 'add-text':
+          await this.addText(db, call.params);
+          break;
+        case 'archive':
+          await this.archive(db, call.params.id);
+          break;
+        case 'trash':
+          await this.trash(db, call.params.id);
+          break;
+        case 'rename-tag':
+          await this.renameTag(db, call.params.name, call.params.new_name);
+          break;
+        default:
+          throw new Error(`SimulatedBear does not support the "${call.action}" action`);
+      }
+    } finally {
+      await close(db);
+    }
+  }
+
+  private async create(db: sqlite3.Database, params: Record<string, string>): Promise<void> {
+    const text = composeCreatedText(params);
+    const now = CoreDataUtils.now();
+    const id = await run(
+      db,
+      `INSERT INTO ZSFNOTE (Z_ENT, Z_OPT, ZARCHIVED, ZENCRYPTED, ZHASFILES, ZHASIMAGES,
+         ZHASSOURCECODE, ZLOCKED, ZORDER, ZPERMANENTLYDELETED, ZPINNED, ZSKIPSYNC,
+         ZTODOCOMPLETED, ZTODOINCOMPLETED, ZTRASHED, ZVERSION, ZCREATIONDATE, ZMODIFICATIONDATE,
+         ZORDERDATE, ZLASTEDITINGDEVICE, ZTEXT, ZTITLE, ZUNIQUEIDENTIFIER)
+       VALUES (?, 1, 0, 0, 0, 0, 0, 0, 0, 0, ?, 0, 0, 0, 0, 1, ?, ?, ?, 'simulator', ?, ?, ?)`,
+      [
+        NOTE_ENTITY,
+        params.pin === 'yes' ? 1 : 0,
+        now,
+        now,
+        now,
+        text,
+        titleFromText(text),
+        randomUUID().toUpperCase(),
+      ]
+    );
+
+    await this.syncTags(db, id, text);
+  }
+
+  private async addText(db: sqlite3.Database, params: Record<string, string>): Promise<void> {
+    const [note] = await all<NoteRow>(
+      db,
+      'SELECT Z_PK, ZTEXT FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER = ?',
+      [params.id]
+    );
+    if (!note) {
+      // Bear shows an error in the app but the URL call itself gives no feedback
+      return;
+    }
+
+    const text = applyAddText(note.ZTEXT || '', params);
+
+    const updates = ['ZTEXT = ?', 'ZTITLE = ?', 'ZMODIFICATIONDATE = ?', 'ZVERSION = ZVERSION + 1'];
+    const values: unknown[] = [text, titleFromText(text), CoreDataUtils.now()];
+    if (params.pin === 'yes' || params.pin === 'no') {
+      updates.push('ZPINNED = ?');
+      values.push(params.pin === 'yes' ? 1 : 0);
+    }
+
+    await run(db, `UPDATE ZSFNOTE SET ${updates.join(', ')} WHERE Z_PK = ?`, [
+      ...values,
+      note.Z_PK,
+    ]);
+    await this.syncTags(db, note.Z_PK, text);
+  }
+
+  private async archive(db: sqlite3.Database, uuid: string): Promise<void> {
+    await run(
+      db,
+      'UPDATE ZSFNOTE SET ZARCHIVED = 1, ZARCHIVEDDATE = ? WHERE ZUNIQUEIDENTIFIER = ?',
+      [CoreDataUtils.now(), uuid]
+    );
+  }
+
+  private async trash(db: sqlite3.Database, uuid: string): Promise<void> {
+    await run(db, 'UPDATE ZSFNOTE SET ZTRASHED = 1, ZTRASHEDDATE = ? WHERE ZUNIQUEIDENTIFIER = ?', [
+      CoreDataUtils.now(),
+      uuid,
+    ]);
+  }
+
+  /**
+   * Rewrite the tag (and tags nested under it) in every note that carries it
+   */
+  private async renameTag(db: sqlite3.Database, name: string, newName: string): Promise<void> {
+    const notes = await all<NoteRow>(
+      db,
+      `SELECT DISTINCT n.Z_PK, n.ZTEXT
+       FROM ZSFNOTE n
+       JOIN Z_5TAGS nt ON nt.Z_5NOTES = n.Z_PK
+       JOIN ZSFNOTETAG t ON t.Z_PK = nt.Z_13TAGS
+       WHERE LOWER(t.ZTITLE) = LOWER(?) OR LOWER(t.ZTITLE) LIKE LOWER(?) || '/%'`,
+      [name, name]
+    );
+
+    for (const note of notes) {
+      const { text } = renameTagInText(note.ZTEXT || '', name, newName);
+      await run(
+        db,
+        'UPDATE ZSFNOTE SET ZTEXT = ?, ZMODIFICATIONDATE = ?, ZVERSION = ZVERSION + 1 WHERE Z_PK = ?',
+        [text, CoreDataUtils.now(), note.Z_PK]
+      );
+      await this.syncTags(db, note.Z_PK, text);
+    }
+  }
+
+  /**
+   * Bear derives a note's tags from the hashtags in its text
+   */
+  private async syncTags(db: sqlite3.Database, noteId: number, text: string): Promise<void> {
+    await run(db, 'DELETE FROM Z_5TAGS WHERE Z_5NOTES = ?', [noteId]);
+    for (const tag of parseHashtags(text)) {
+      await attachTag(db, noteId, tag);
+    }
+    // Tags no note uses any more disappear from the sidebar
+    await run(db, 'DELETE FROM ZSFNOTETAG WHERE Z_PK NOT IN (SELECT Z_13TAGS FROM Z_5TAGS)');
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Schema discovery tests: a Bear library whose Core Data entities are numbered differently
+ */
+
+import sqlite3 from 'sqlite3';
+import { createBearFixture, BearFixture, close, run } from '../fixtures/bear-database.js';
+import { connectBearServer, BearTestClient } from '../utils/test-helpers.js';
+
+describe('Bear schema discovery', () => {
+  let fixture: BearFixture;
+  let bear: BearTestClient;
+
+  beforeAll(async () => {
+    fixture = await createBearFixture({
+      notes: [
+        {
+          title: 'Sprint Plan',
+          text: '# Sprint Plan\n\n- [ ] Estimate stories\n\n#work/sprints',
+          tags: ['work/sprints'],
+        },
+        { title: 'Groceries', text: '# Groceries\n\nApples\n\n#home', tags: ['home'] },
+      ],
+      entities: { note: 7, tag: 14 },
+      omitNoteColumns: ['ZTODOCOMPLETED', 'ZTODOINCOMPLETED', 'ZHASSOURCECODE'],
+    });
+    bear = await connectBearServer(fixture.dbPath);
+  });
+
+  afterAll(async () => {
+    await bear.close();
+    await fixture.cleanup();
+  });
+
+  test('finds the join table from Z_PRIMARYKEY', async () => {
+    const schema = await bear.callTool('get_database_schema');
+    expect(schema.text).toContain('Table: Z_7TAGS');
+    expect(schema.text).not.toContain('Table: Z_5TAGS');
+
+    const tags = await bear.callTool('get_all_tags');
+    expect(tags.text).toContain('**work** (1 notes)');
+    expect(tags.text).toContain('**home** (1 notes)');
+
+    const tagged = await bear.callTool('get_notes_by_tag', { tag: 'work/sprints' });
+    expect(tagged.text).toContain('Sprint Plan');
+
+    const search = await bear.callTool('search_notes', { query: 'tag:work' });
+    expect(search.text).toContain('Sprint Plan');
+    expect(search.text).not.toContain('Groceries');
+
+    const fulltext = await bear.callTool('search_notes_fulltext', { query: 'stories' });
+    expect(fulltext.text).toContain('Sprint Plan');
+    expect(fulltext.text).toContain('work/sprints');
+  });
+
+  test('reads missing optional columns as zero', async () => {
+    const todos = await bear.callTool('search_notes', { query: 'has:todo' });
+    expect(todos.text).toBe('No notes found matching "has:todo".');
+
+    const analytics = await bear.callTool('get_note_analytics');
+    expect(analytics.text).toContain('Notes with TODOs: 0');
+    expect(analytics.text).toContain('Notes with Code: 0');
+  });
+
+  test('names a missing required column', async () => {
+    const db = new sqlite3.Database(fixture.dbPath);
+    try {
+      await run(db, 'ALTER TABLE ZSFNOTETAG DROP COLUMN ZTITLE');
+    } finally {
+      await close(db);
+    }
+
+    const { text } = await bear.callTool('get_all_tags');
+    expect(text).toContain(
+      'Unsupported Bear database: ZSFNOTETAG is missing required column ZTITLE'
+    );
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * HTTP transport tests: several clients sharing one server over server-sent events
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { createBearFixture, BearFixture } from '../fixtures/bear-database.js';
+import { connectHttpClient, createBearServer } from '../utils/test-helpers.js';
+import type { BearHttpServer } from '../../src/http-server.js';
+
+const TOKEN = 'test-token';
+
+describe('HTTP transport', () => {
+  let fixture: BearFixture;
+  let http: BearHttpServer;
+
+  beforeAll(async () => {
+    fixture = await createBearFixture({
+      notes: [
+        {
+          title: 'Shared Note',
+          text: '# Shared Note\n\nSeen by every session\n\n#team',
+          tags: ['team'],
+        },
+      ],
+    });
+    const server = await createBearServer(fixture.dbPath);
+    http = await server.listen({ host: '127.0.0.1', port: 0, token: TOKEN });
+  });
+
+  afterAll(async () => {
+    await http.close();
+    await fixture.cleanup();
+  });
+
+  test('binds to localhost by default', async () => {
+    const { config } = await import('../../src/config/index.js');
+    expect(config.server.transport).toBe('stdio');
+    expect(config.server.http.host).toBe('127.0.0.1');
+    expect(http.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+  });
+
+  test('rejects requests without the bearer token', async () => {
+    expect((await fetch(`${http.url}/sse`)).status).toBe(401);
+
+    const wrongToken = await fetch(`${http.url}/sse`, {
+      headers: { Authorization: 'Bearer not-the-token' },
+    });
+    expect(wrongToken.status).toBe(401);
+    expect(wrongToken.headers.get('www-authenticate')).toBe('Bearer');
+
+    await expect(connectHttpClient(http.url, 'not-the-token')).rejects.toThrow('status 401');
+
+    const unknownSession = await fetch(`${http.url}/messages?sessionId=nope`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    expect(unknownSession.status).toBe(404);
+  });
+
+  test('serves tools, resources and prompts to concurrent sessions', async () => {
+    const clients: Client[] = await Promise.all([
+      connectHttpClient(http.url, TOKEN),
+      connectHttpClient(http.url, TOKEN),
+    ]);
+    try {
+      expect(http.sessionCount()).toBe(2);
+
+      const results = await Promise.all(
+        clients.map(client =>
+          client.callTool({ name: 'get_notes_by_tag', arguments: { tag: 'team', format: 'json' } })
+        )
+      );
+      for (const result of results) {
+        const [content] = result.content as Array<{ text: string }>;
+        const payload = JSON.parse(content.text);
+        expect(payload.data.notes.map((note: { title: string }) => note.title)).toEqual([
+          'Shared Note',
+        ]);
+      }
+
+      const [resources, prompts] = await Promise.all([
+        clients[0].listResources(),
+        clients[1].listPrompts(),
+      ]);
+      expect(resources.resources.map(resource => resource.name)).toContain('Shared Note');
+      expect(prompts.prompts.map(prompt => prompt.name)).toContain('weekly_review');
+
+      await clients[0].close();
+      for (let attempt = 0; attempt < 50 && http.sessionCount() > 1; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(http.sessionCount()).toBe(1);
+
+      const stillOpen = await clients[1].listTools();
+      expect(stillOpen.tools.length).toBeGreaterThan(0);
+    } finally {
+      await Promise.all(clients.map(client => client.close()));
+    }
+  });
+});
@@ -0,0 +1,1182 @@
+/**
+ * Read tool tests against a synthetic Bear database
+ */
+
+import { mkdir, symlink, writeFile } from 'fs/promises';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { createBearFixture, BearFixture, all, close, run } from '../fixtures/bear-database.js';
+import { connectBearServer, BearTestClient } from '../utils/test-helpers.js';
+import { CoreDataUtils } from '../../src/utils/database.js';
+import { openIndexDatabase } from '../../src/utils/index-database.js';
+
+describe('Read tools', () => {
+  let fixture: BearFixture;
+  let bear: BearTestClient;
+
+  beforeAll(async () => {
+    fixture = await createBearFixture({
+      notes: [
+        {
+          title: 'Project Kickoff',
+          text: '# Project Kickoff\n\nAgenda for the kickoff meeting\n- [ ] Draft roadmap\n- [x] Book room\n\n#work/projects #meetings',
+          tags: ['work/projects', 'meetings'],
+          createdAt: new Date('2024-03-01T10:00:00Z'),
+          modifiedAt: new Date('2024-03-05T10:00:00Z'),
+          pinned: true,
+          attachments: [{ filename: 'roadmap.pdf', size: 2048 }],
+        },
+        {
+          title: 'Weekly Meeting Notes',
+          text: '# Weekly Meeting Notes\n\nDiscussed the project roadmap and meeting cadence\n\n```js\nconsole.log(1)\n```\n\n#meetings',
+          tags: ['meetings'],
+          createdAt: new Date('2024-03-02T10:00:00Z'),
+          modifiedAt: new Date('2024-03-06T10:00:00Z'),
+          attachments: [{ filename: 'whiteboard.png', size: 4096 }],
+        },
+        {
+          title: 'Recipe Ideas',
+          text: '# Recipe Ideas\n\nPasta with tomatoes and basil\n\n#cooking',
+          tags: ['cooking'],
+          createdAt: new Date('2024-02-01T10:00:00Z'),
+          modifiedAt: new Date('2024-02-01T10:00:00Z'),
+        },
+        {
+          title: 'Old Archive',
+          text: '# Old Archive\n\nArchived project notes',
+          archived: true,
+          createdAt: new Date('2023-01-01T10:00:00Z'),
+        },
+        {
+          title: 'Deleted Draft',
+          text: '# Deleted Draft\n\nThis project draft was trashed',
+          tags: ['work'],
+          trashed: true,
+        },
+        { title: 'Secret', encrypted: true },
+      ],
+      tags: ['unused'],
+    });
+    bear = await connectBearServer(fixture.dbPath);
+  });
+
+  afterAll(async () => {
+    await bear.close();
+    await fixture.cleanup();
+  });
+
+  test('lists every tool', async () => {
+    const { tools } = await bear.client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(
+      expect.arrayContaining(['get_database_stats', 'search_notes', 'get_note_by_id'])
+    );
+  });
+
+  test('get_database_stats counts notes by state', async () => {
+    const { text } = await bear.callTool('get_database_stats');
+    expect(text).toContain('Notes: 6 total (5 active, 1 trashed, 1 archived)');
+    expect(text).toContain('Encrypted Notes: 1');
+    expect(text).toContain('Tags: 5');
+    expect(text).toContain('Attachments: 2');
+    expect(text).toContain('Database Integrity: OK');
+  });
+
+  test('get_database_schema lists Bear tables', async () => {
+    const { text } = await bear.callTool('get_database_schema');
+    expect(text).toContain('Table: ZSFNOTE');
+    expect(text).toContain('Table: Z_5TAGS');
+  });
+
+  test('check_bear_status and verify_database_access succeed off macOS', async () => {
+    expect((await bear.callTool('check_bear_status')).text).toContain('Bear App Status');
+    expect((await bear.callTool('verify_database_access')).text).toContain(
+      'Database access verified successfully'
+    );
+  });
+
+  test('check_server_health reports each service through the health service', async () => {
+    const { text } = await bear.callTool('check_server_health');
+    expect(text).toMatch(/^Server Health: /);
+    expect(text).toContain('bear: degraded');
+    expect(text).toContain('Bear application is not running');
+
+    const health = await bear.callToolJson<{
+      success: boolean;
+      data: {
+        status: string;
+        services: Record<string, { status: string; error?: string }>;
+        system: { memory: { percentage: number } };
+      };
+    }>('check_server_health', { format: 'json' });
+    expect(health.success).toBe(true);
+    // Off macOS Bear never runs, so the server is degraded at best
+    expect(health.data.status).toBe('degraded');
+    expect(['healthy', 'degraded']).toContain(health.data.services.database.status);
+    expect(health.data.services.database.error).toBeUndefined();
+    expect(health.data.services.cache).toMatchObject({ status: 'healthy' });
+    expect(health.data.system.memory.percentage).toBeGreaterThan(0);
+  });
+
+  test('get_recent_notes orders by modification date and skips trashed notes', async () => {
+    const { text } = await bear.callTool('get_recent_notes', { limit: 2 });
+    expect(text).toContain('Recent Notes (2)');
+    expect(text.indexOf('Weekly Meeting Notes')).toBeLessThan(text.indexOf('Project Kickoff'));
+    expect(text).not.toContain('Deleted Draft');
+  });
+
+  test('list tools walk notes with cursors without repeats when notes change', async () => {
+    const listPage = async (cursor?: string) => {
+      const { text } = await bear.callTool('get_recent_notes', { limit: 1, cursor });
+      return {
+        text,
+        titles: [...text.matchAll(/📝 \*\*(.+?)\*\*/g)].map(match => match[1]),
+        cursor: /cursor "([^"]+)"/.exec(text)?.[1],
+      };
+    };
+    const everything = await bear.callTool('get_recent_notes', { limit: 100 });
+    const allTitles = [...everything.text.matchAll(/📝 \*\*(.+?)\*\*/g)].map(match => match[1]);
+    expect(everything.text).not.toContain('cursor');
+
+    const first = await listPage();
+    expect(first.text).toContain(`Showing 1 of ${allTitles.length}`);
+    expect(first.titles).toEqual([allTitles[0]]);
+
+    // Editing a note not yet listed moves it ahead of the cursor. An offset would then repeat
+    // the first note; the cursor carries on after it and leaves the edited note for a new walk
+    const db = new sqlite3.Database(fixture.dbPath);
+    const edited = allTitles[allTitles.length - 1];
+    const id = fixture.noteId(edited);
+    const [original] = await all<{ ZMODIFICATIONDATE: number }>(
+      db,
+      'SELECT ZMODIFICATIONDATE FROM ZSFNOTE WHERE Z_PK = ?',
+      [id]
+    );
+    const seen = [...first.titles];
+    try {
+      await run(db, 'UPDATE ZSFNOTE SET ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        original.ZMODIFICATIONDATE + 10 ** 9,
+        id,
+      ]);
+      let cursor = first.cursor;
+      while (cursor) {
+        const page = await listPage(cursor);
+        seen.push(...page.titles);
+        cursor = page.cursor;
+      }
+    } finally {
+      await run(db, 'UPDATE ZSFNOTE SET ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        original.ZMODIFICATIONDATE,
+        id,
+      ]);
+      await close(db);
+    }
+    expect(seen).toEqual(allTitles.slice(0, -1));
+  });
+
+  test('JSON list tools report nextCursor, hasMore and totals', async () => {
+    type AttachmentPage = {
+      data: {
+        totalAttachments: number;
+        nextCursor: string | null;
+        hasMore: boolean;
+        attachments: Array<{ filename: string }>;
+      };
+    };
+    const first = await bear.callToolJson<AttachmentPage>('get_file_attachments', { limit: 1 });
+    expect(first.data).toMatchObject({ totalAttachments: 2, hasMore: true });
+    const second = await bear.callToolJson<AttachmentPage>('get_file_attachments', {
+      limit: 1,
+      cursor: first.data.nextCursor,
+    });
+    expect(second.data).toMatchObject({ hasMore: false, nextCursor: null });
+    expect([...first.data.attachments, ...second.data.attachments].map(a => a.filename)).toEqual([
+      'whiteboard.png',
+      'roadmap.pdf',
+    ]);
+
+    type FullTextPage = {
+      data: {
+        totalFound: number;
+        nextCursor: string | null;
+        hasMore: boolean;
+        results: Array<{ title: string }>;
+      };
+    };
+    const ranked = await bear.callToolJson<FullTextPage>('search_notes_fulltext', {
+      query: 'roadmap',
+      limit: 1,
+    });
+    expect(ranked.data).toMatchObject({ totalFound: 2, hasMore: true });
+    const rest = await bear.callToolJson<FullTextPage>('search_notes_fulltext', {
+      query: 'roadmap',
+      limit: 1,
+      cursor: ranked.data.nextCursor,
+    });
+    expect(rest.data.hasMore).toBe(false);
+    expect([...ranked.data.results, ...rest.data.results].map(r => r.title).sort()).toEqual([
+      'Project Kickoff',
+      'Weekly Meeting Notes',
+    ]);
+  });
+
+  test('list tools reject cursors that are malformed or from another listing', async () => {
+    const garbage = await bear.callTool('get_notes_by_tag', { tag: 'meetings', cursor: 'nope' });
+    expect(garbage.text).toBe(
+      '❌ Error getting notes by tag: Invalid cursor; pass the nextCursor from the previous page unchanged'
+    );
+
+    const { text } = await bear.callTool('get_notes_by_tag', { tag: 'meetings', limit: 1 });
+    const cursor = /cursor "([^"]+)"/.exec(text)![1];
+    const advanced = await bear.callTool('get_notes_advanced', { sortBy: 'title', cursor });
+    expect(advanced.text).toBe(
+      '❌ Error in advanced search: This cursor belongs to a list sorted by modified, not title-desc'
+    );
+  });
+
+  test('search_notes matches title and content', async () => {
+    const { text } = await bear.callTool('search_notes', { query: 'roadmap' });
+    expect(text).toContain('Project Kickoff');
+    expect(text).toContain('Weekly Meeting Notes');
+    expect(text).not.toContain('Recipe Ideas');
+
+    const empty = await bear.callTool('search_notes', { query: 'nonexistent' });
+    expect(empty.text).toBe('No notes found matching "nonexistent".');
+  });
+
+  test('search_notes supports boolean queries with field filters', async () => {
+    const titles = async (query: string) => {
+      const { text } = await bear.callTool('search_notes', { query });
+      return [...text.matchAll(/\*\*(.+?)\*\* \(ID/g)].map(match => match[1]).sort();
+    };
+
+    expect(await titles('tag:meetings roadmap -is:pinned')).toEqual(['Weekly Meeting Notes']);
+    expect(await titles('(pasta OR kickoff) created:<2024-03-01')).toEqual(['Recipe Ideas']);
+    expect(await titles('title:"meeting notes" OR has:todo')).toEqual([
+      'Project Kickoff',
+      'Weekly Meeting Notes',
+    ]);
+    expect(await titles('tag:work')).toEqual(['Project Kickoff']);
+    expect(await titles('is:archived project')).toEqual(['Old Archive']);
+    expect(await titles('has:attachment NOT (tag:cooking OR is:pinned)')).toEqual([
+      'Weekly Meeting Notes',
+    ]);
+  });
+
+  test('search_notes explains malformed queries', async () => {
+    const error = async (query: string) => (await bear.callTool('search_notes', { query })).text;
+
+    expect(await error('(roadmap OR')).toBe(
+      '❌ Error searching notes: Invalid query: expected a search term after "OR" at position 9, found end of query'
+    );
+    expect(await error('roadmap)')).toBe(
+      '❌ Error searching notes: Invalid query: unexpected ")" at position 7'
+    );
+    expect(await error('"project plan')).toContain('unterminated quote at position 0');
+    expect(await error('is:starred')).toContain(
+      'unknown "is:starred" (use is:pinned, is:archived or is:trashed)'
+    );
+    expect(await error('created:>2024-13-01')).toContain(
+      'invalid date "2024-13-01" in "created:>2024-13-01" (use YYYY-MM-DD)'
+    );
+  });
+
+  test('get_note_by_id and get_note_by_title return content with tags', async () => {
+    const id = fixture.noteId('Recipe Ideas');
+    const byId = await bear.callTool('get_note_by_id', { id });
+    expect(byId.text).toContain(`**Recipe Ideas** (ID: ${id})`);
+    expect(byId.text).toContain('Tags: cooking');
+
+    const byTitle = await bear.callTool('get_note_by_title', { title: 'Recipe Ideas' });
+    expect(byTitle.text).toContain('Pasta with tomatoes and basil');
+
+    const missing = await bear.callTool('get_note_by_id', { id: 9999 });
+    expect(missing.text).toBe('No note found with ID 9999.');
+  });
+
+  test('get_all_tags and get_notes_by_tag resolve nested tags', async () => {
+    const tags = await bear.callTool('get_all_tags');
+    expect(tags.text).toContain('**meetings** (2 notes)');
+    expect(tags.text).toContain('**work/projects**');
+    expect(tags.text).toContain('**unused** (0 notes)');
+
+    const tagged = await bear.callTool('get_notes_by_tag', { tag: 'work/projects' });
+    expect(tagged.text).toContain('Notes with tag "work/projects" (1)');
+    expect(tagged.text).toContain('Project Kickoff');
+  });
+
+  test('get_tag_hierarchy nests tags with direct and rolled-up counts', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: {
+        roots: Array<{
+          path: string;
+          depth: number;
+          directNoteCount: number;
+          totalNoteCount: number;
+          children: Array<{ path: string; depth: number; totalNoteCount: number }>;
+        }>;
+        totalTags: number;
+        maxDepth: number;
+        issues: unknown[];
+        outline: string;
+      };
+    }>('get_tag_hierarchy');
+
+    expect(result.success).toBe(true);
+    expect(result.data.roots.map(node => node.path)).toEqual([
+      'cooking',
+      'meetings',
+      'unused',
+      'work',
+    ]);
+    const work = result.data.roots[3];
+    expect(work).toMatchObject({ depth: 0, directNoteCount: 0, totalNoteCount: 1 });
+    expect(work.children).toEqual([
+      expect.objectContaining({ path: 'work/projects', depth: 1, totalNoteCount: 1 }),
+    ]);
+    expect(result.data).toMatchObject({ totalTags: 5, maxDepth: 1, issues: [] });
+    expect(result.data.outline).toBe(
+      [
+        '- #cooking (1 notes)',
+        '- #meetings (2 notes)',
+        '- #unused (0 notes)',
+        '- #work (1 notes, 0 direct)',
+        '  - #work/projects (1 notes)',
+      ].join('\n')
+    );
+
+    const subtree = await bear.callToolJson<{ data: { outline: string } }>('get_tag_hierarchy', {
+      root: 'work',
+      maxDepth: 0,
+    });
+    expect(subtree.data.outline).toBe('- #work (1 notes, 0 direct)');
+  });
+
+  test('get_tag_hierarchy flags orphaned and inconsistent tags', async () => {
+    const db = new sqlite3.Database(fixture.dbPath);
+    try {
+      const [meetings] = await all<{ Z_PK: number }>(
+        db,
+        "SELECT Z_PK FROM ZSFNOTETAG WHERE ZTITLE = 'meetings'"
+      );
+      await run(db, "INSERT INTO ZSFNOTETAG (ZTITLE, ZPARENT) VALUES ('archive/2023', NULL)");
+      await run(db, "UPDATE ZSFNOTETAG SET ZPARENT = ? WHERE ZTITLE = 'cooking'", [meetings.Z_PK]);
+
+      const result = await bear.callToolJson<{
+        data: { issues: Array<{ path: string; type: string; detail: string }>; outline: string };
+      }>('get_tag_hierarchy');
+
+      expect(result.data.issues).toEqual([
+        {
+          path: 'archive',
+          type: 'missing',
+          detail: 'No tag exists for "archive"; it only appears in the paths of nested tags',
+        },
+        {
+          path: 'archive/2023',
+          type: 'orphan',
+          detail: 'Parent tag "archive" does not exist',
+        },
+        {
+          path: 'cooking',
+          type: 'inconsistent',
+          detail: 'ZPARENT is "meetings" but the tag path implies a top-level tag',
+        },
+      ]);
+      expect(result.data.outline).toContain(
+        '  - #archive/2023 (0 notes) [orphan: Parent tag "archive" does not exist]'
+      );
+    } finally {
+      await run(db, "DELETE FROM ZSFNOTETAG WHERE ZTITLE = 'archive/2023'");
+      await run(db, "UPDATE ZSFNOTETAG SET ZPARENT = NULL WHERE ZTITLE = 'cooking'");
+      await close(db);
+    }
+  });
+
+  test('analyze_tag_relationships scores co-occurring tags and single-use tags', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: {
+        totalNotes: number;
+        matrix: { tags: string[]; counts: number[][] };
+        pairs: Array<{ tags: string[]; sharedNotes: number; lift: number; jaccard: number }>;
+        clusters: Array<{ tags: string[]; noteCount: number }>;
+        singleUseTags: Array<{ tag: string; title: string }>;
+      };
+    }>('analyze_tag_relationships', { minSharedNotes: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.data.totalNotes).toBe(5);
+    // work and work/projects always co-occur because Bear links parent tags, so they're skipped
+    expect(result.data.pairs).toEqual([
+      { tags: ['meetings', 'work'], sharedNotes: 1, lift: 2.5, jaccard: 0.5 },
+      { tags: ['meetings', 'work/projects'], sharedNotes: 1, lift: 2.5, jaccard: 0.5 },
+    ]);
+    expect(result.data.clusters).toEqual([]);
+    expect(result.data.matrix.tags[0]).toBe('meetings');
+    expect(result.data.matrix.counts[0][0]).toBe(2);
+    expect(result.data.singleUseTags.map(entry => entry.tag)).toEqual([
+      'cooking',
+      'work',
+      'work/projects',
+    ]);
+    expect(result.data.singleUseTags[0].title).toBe('Recipe Ideas');
+  });
+
+  test('analyze_tag_relationships suggests merging near-duplicate tags', async () => {
+    const db = new sqlite3.Database(fixture.dbPath);
+    const extra = ['meeting', 'To-Do', 'todo', 'cookng'];
+    try {
+      for (const tag of extra) {
+        await run(db, 'INSERT INTO ZSFNOTETAG (ZTITLE) VALUES (?)', [tag]);
+      }
+
+      const result = await bear.callToolJson<{
+        data: {
+          mergeSuggestions: Array<{ tags: string[]; reason: string; suggestedTarget: string }>;
+        };
+      }>('analyze_tag_relationships');
+
+      expect(
+        result.data.mergeSuggestions.map(({ tags, reason, suggestedTarget }) => ({
+          tags,
+          reason,
+          suggestedTarget,
+        }))
+      ).toEqual([
+        { tags: ['To-Do', 'todo'], reason: 'same-sanitized', suggestedTarget: 'todo' },
+        { tags: ['cooking', 'cookng'], reason: 'edit-distance', suggestedTarget: 'cooking' },
+        { tags: ['meeting', 'meetings'], reason: 'plural', suggestedTarget: 'meetings' },
+      ]);
+    } finally {
+      for (const tag of extra) {
+        await run(db, 'DELETE FROM ZSFNOTETAG WHERE ZTITLE = ?', [tag]);
+      }
+      await close(db);
+    }
+  });
+
+  test('get_tag_usage_trends counts notes per month and classifies tags', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: {
+        months: string[];
+        tags: Array<{ tag: string; months: Array<{ month: string; created: number }> }>;
+        rising: string[];
+        declining: string[];
+        dormant: Array<{ tag: string; lastActivity: string }>;
+      };
+    }>('get_tag_usage_trends', { months: 4, endDate: '2024-03-31', dormantMonths: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.data.months).toEqual(['2023-12', '2024-01', '2024-02', '2024-03']);
+    expect(result.data.rising).toEqual(['meetings', 'work', 'work/projects']);
+    expect(result.data.dormant).toEqual([
+      { tag: 'cooking', lastActivity: '2024-02-01T10:00:00.000Z' },
+    ]);
+    const meetings = result.data.tags.find(item => item.tag === 'meetings')!;
+    expect(meetings.months[3]).toEqual({ month: '2024-03', created: 2, modified: 2 });
+
+    const later = await bear.callToolJson<{
+      data: { tags: Array<{ tag: string; trend: string; change: number }>; declining: string[] };
+    }>('get_tag_usage_trends', {
+      tagName: 'meetings',
+      months: 6,
+      endDate: '2024-06-15',
+      dormantMonths: 6,
+    });
+    expect(later.data.tags).toEqual([
+      expect.objectContaining({ tag: 'meetings', trend: 'declining', change: -4 }),
+    ]);
+
+    const missing = await bear.callToolJson<{ success: boolean; error: string }>(
+      'get_tag_usage_trends',
+      { tagName: 'nosuchtag' }
+    );
+    expect(missing.error).toBe('Tag "nosuchtag" not found or has no notes');
+  });
+
+  test('get_notes_advanced filters by tags', async () => {
+    const { text } = await bear.callTool('get_notes_advanced', {
+      tags: ['meetings'],
+      excludeTags: ['work/projects'],
+    });
+    expect(text).toContain('Weekly Meeting Notes');
+    expect(text).not.toContain('Project Kickoff');
+  });
+
+  test('get_notes_with_criteria honours pinned and archived flags', async () => {
+    const pinned = await bear.callTool('get_notes_with_criteria', { isPinned: true });
+    expect(pinned.text).toContain('Criteria Search Results (1)');
+    expect(pinned.text).toContain('Project Kickoff');
+
+    const archived = await bear.callTool('get_notes_with_criteria', { isArchived: true });
+    expect(archived.text).toContain('Old Archive');
+  });
+
+  test('get_note_analytics reports content statistics', async () => {
+    const { text } = await bear.callTool('get_note_analytics');
+    expect(text).toContain('Bear Notes Analytics');
+    expect(text).toContain('Notes with Images: 1');
+    expect(text).toContain('Notes with Code: 1');
+  });
+
+  test('get_related_notes finds notes sharing tags', async () => {
+    const { text } = await bear.callTool('get_related_notes', {
+      noteId: fixture.noteId('Project Kickoff'),
+    });
+    expect(text).toContain('Related by Tags');
+    expect(text).toContain('Weekly Meeting Notes');
+    expect(text).toMatch(
+      /Related by Content \(1\):\*\*\n• \*\*Weekly Meeting Notes\*\* .* - similarity 0\.\d+/
+    );
+  });
+
+  test('semantic_search ranks notes by TF-IDF cosine similarity', async () => {
+    type SemanticResult = {
+      success: boolean;
+      data: { results: Array<{ title: string; score: number; matchedTerms: string[] }> };
+    };
+
+    const result = await bear.callToolJson<SemanticResult>('semantic_search', {
+      query: 'roadmaps discussed in meetings',
+    });
+    expect(result.success).toBe(true);
+    expect(result.data.results.map(r => r.title)).toEqual([
+      'Weekly Meeting Notes',
+      'Project Kickoff',
+    ]);
+    expect(result.data.results[0].matchedTerms).toEqual(
+      expect.arrayContaining(['meet', 'roadmap', 'discuss'])
+    );
+    expect(result.data.results[0].score).toBeGreaterThan(result.data.results[1].score);
+    expect(result.data.results[0].score).toBeLessThanOrEqual(1);
+
+    const archived = await bear.callToolJson<SemanticResult>('semantic_search', {
+      query: 'archived',
+      includeArchived: true,
+    });
+    expect(archived.data.results.map(r => r.title)).toEqual(['Old Archive']);
+    const active = await bear.callToolJson<SemanticResult>('semantic_search', {
+      query: 'archived',
+    });
+    expect(active.data.results).toEqual([]);
+
+    const unrelated = await bear.callToolJson<SemanticResult>('semantic_search', {
+      query: 'quantum chromodynamics',
+    });
+    expect(unrelated.data.results).toEqual([]);
+  });
+
+  test('search_notes_fulltext scores matches', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: { totalFound: number; results: Array<{ title: string; relevanceScore: number }> };
+    }>('search_notes_fulltext', { query: 'meeting' });
+    expect(result.success).toBe(true);
+    expect(result.data.results.map(r => r.title)).toContain('Weekly Meeting Notes');
+    expect(result.data.results[0].relevanceScore).toBeGreaterThan(0);
+  });
+
+  test('search_notes_fulltext ranks title matches first and supports phrases and prefixes', async () => {
+    type FullTextResult = {
+      success: boolean;
+      error?: string;
+      data: { results: Array<{ title: string; snippets: string[]; matchedTerms: string[] }> };
+    };
+
+    const ranked = await bear.callToolJson<FullTextResult>('search_notes_fulltext', {
+      query: 'meeting',
+    });
+    expect(ranked.data.results.map(r => r.title)).toEqual([
+      'Weekly Meeting Notes',
+      'Project Kickoff',
+    ]);
+
+    const phrase = await bear.callToolJson<FullTextResult>('search_notes_fulltext', {
+      query: '"project roadmap"',
+    });
+    expect(phrase.data.results.map(r => r.title)).toEqual(['Weekly Meeting Notes']);
+
+    const prefix = await bear.callToolJson<FullTextResult>('search_notes_fulltext', {
+      query: 'tomat*',
+    });
+    expect(prefix.data.results.map(r => r.title)).toEqual(['Recipe Ideas']);
+    expect(prefix.data.results[0].matchedTerms).toEqual(['tomatoes']);
+    expect(prefix.data.results[0].snippets[0]).toContain('**tomatoes**');
+
+    const invalid = await bear.callToolJson<FullTextResult>('search_notes_fulltext', {
+      query: 'meeting OR',
+    });
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toContain('Invalid full-text query');
+  });
+
+  test('search indexes pick up notes whose modification date moved', async () => {
+    const id = fixture.noteId('Recipe Ideas');
+    const db = new sqlite3.Database(fixture.dbPath);
+    const search = async () => {
+      const titles = [];
+      for (const tool of ['search_notes_fulltext', 'semantic_search']) {
+        const result = await bear.callToolJson<{ data: { results: Array<{ title: string }> } }>(
+          tool,
+          { query: 'gnocchi' }
+        );
+        titles.push(result.data.results.map(r => r.title));
+      }
+      return titles;
+    };
+    const [original] = await all<{ ZTEXT: string; ZMODIFICATIONDATE: number }>(
+      db,
+      'SELECT ZTEXT, ZMODIFICATIONDATE FROM ZSFNOTE WHERE Z_PK = ?',
+      [id]
+    );
+    try {
+      expect(await search()).toEqual([[], []]);
+
+      await run(db, 'UPDATE ZSFNOTE SET ZTEXT = ?, ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        `${original.ZTEXT}\nGnocchi with sage butter`,
+        original.ZMODIFICATIONDATE + 1,
+        id,
+      ]);
+      expect(await search()).toEqual([['Recipe Ideas'], ['Recipe Ideas']]);
+    } finally {
+      // Restore the text with a newer date so the indexes drop the added line again
+      await run(db, 'UPDATE ZSFNOTE SET ZTEXT = ?, ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        original.ZTEXT,
+        original.ZMODIFICATIONDATE + 2,
+        id,
+      ]);
+      await close(db);
+    }
+    expect(await search()).toEqual([[], []]);
+  });
+
+  test('search_notes_fulltext rejects a cursor once the index has re-ranked', async () => {
+    type FullTextPage = {
+      success: boolean;
+      error?: string;
+      data: { nextCursor: string | null; results: Array<{ title: string }> };
+    };
+    const id = fixture.noteId('Recipe Ideas');
+    const db = new sqlite3.Database(fixture.dbPath);
+    const [original] = await all<{ ZTEXT: string; ZMODIFICATIONDATE: number }>(
+      db,
+      'SELECT ZTEXT, ZMODIFICATIONDATE FROM ZSFNOTE WHERE Z_PK = ?',
+      [id]
+    );
+    const first = await bear.callToolJson<FullTextPage>('search_notes_fulltext', {
+      query: 'roadmap',
+      limit: 1,
+    });
+
+    try {
+      // Any indexed change shifts bm25 scores, even for notes that don't match the query
+      await run(db, 'UPDATE ZSFNOTE SET ZTEXT = ?, ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        `${original.ZTEXT}\nRoadmap for dinner parties`,
+        original.ZMODIFICATIONDATE + 1,
+        id,
+      ]);
+      const stale = await bear.callToolJson<FullTextPage>('search_notes_fulltext', {
+        query: 'roadmap',
+        limit: 1,
+        cursor: first.data.nextCursor,
+      });
+      expect(stale.success).toBe(false);
+      expect(stale.error).toContain('run the search again without a cursor');
+    } finally {
+      await run(db, 'UPDATE ZSFNOTE SET ZTEXT = ?, ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        original.ZTEXT,
+        original.ZMODIFICATIONDATE + 2,
+        id,
+      ]);
+      await close(db);
+    }
+
+    const restarted = await bear.callToolJson<FullTextPage>('search_notes_fulltext', {
+      query: 'roadmap',
+      limit: 1,
+    });
+    const rest = await bear.callToolJson<FullTextPage>('search_notes_fulltext', {
+      query: 'roadmap',
+      limit: 1,
+      cursor: restarted.data.nextCursor,
+    });
+    expect([...restarted.data.results, ...rest.data.results].map(r => r.title).sort()).toEqual([
+      'Project Kickoff',
+      'Weekly Meeting Notes',
+    ]);
+  });
+
+  test("search indexes refuse a path that links back into Bear's directory", async () => {
+    const alias = path.join(path.dirname(fixture.dbPath), 'alias');
+    await symlink(path.dirname(fixture.dbPath), alias, 'dir');
+    await expect(
+      openIndexDatabase(path.join(alias, 'search.sqlite'), fixture.dbPath, {
+        version: '1',
+        tables: [],
+        create: '',
+      })
+    ).rejects.toThrow("Search indexes must not be stored in Bear's database directory");
+  });
+
+  test('get_search_suggestions completes titles and tags', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: { suggestions: { titles: string[]; tags: string[] } };
+    }>('get_search_suggestions', { partialQuery: 'Rec' });
+    expect(result.success).toBe(true);
+    expect(result.data.suggestions.titles).toContain('Recipe Ideas');
+  });
+
+  test('find_similar_notes ranks by shared keywords', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: { similarNotes: Array<{ title: string }> };
+    }>('find_similar_notes', { referenceText: 'project roadmap meeting kickoff' });
+    expect(result.success).toBe(true);
+    expect(result.data.similarNotes.map(note => note.title)).toContain('Project Kickoff');
+  });
+
+  test('search_notes_regex reports matches with line numbers and context', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: {
+        totalMatches: number;
+        results: Array<{
+          title: string;
+          titleMatches: unknown[];
+          contentMatches: Array<{
+            line: number;
+            column: number;
+            match: string;
+            context: { before: string[]; lines: string[]; after: string[] };
+          }>;
+        }>;
+      };
+    }>('search_notes_regex', { pattern: 'road\\w+', contextLines: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.data.results.map(note => note.title)).toEqual([
+      'Weekly Meeting Notes',
+      'Project Kickoff',
+    ]);
+    expect(result.data.totalMatches).toBe(2);
+    expect(result.data.results[1].contentMatches).toEqual([
+      {
+        line: 4,
+        column: 13,
+        match: 'roadmap',
+        context: {
+          before: ['Agenda for the kickoff meeting'],
+          lines: ['- [ ] Draft roadmap'],
+          after: ['- [x] Book room'],
+        },
+      },
+    ]);
+
+    const titles = await bear.callToolJson<{
+      data: {
+        results: Array<{ title: string; titleMatches: unknown[]; contentMatches: unknown[] }>;
+      };
+    }>('search_notes_regex', { pattern: '^recipe', flags: 'i', searchIn: 'title' });
+    expect(titles.data.results).toHaveLength(1);
+    expect(titles.data.results[0]).toMatchObject({
+      title: 'Recipe Ideas',
+      titleMatches: [{ line: 1, column: 1, match: 'Recipe' }],
+      contentMatches: [],
+    });
+
+    type RegexPage = {
+      data: { nextCursor: string | null; hasMore: boolean; results: Array<{ title: string }> };
+    };
+    const first = await bear.callToolJson<RegexPage>('search_notes_regex', {
+      pattern: 'road\\w+',
+      limit: 1,
+    });
+    expect(first.data).toMatchObject({
+      hasMore: true,
+      results: [{ title: 'Weekly Meeting Notes' }],
+    });
+    const second = await bear.callToolJson<RegexPage>('search_notes_regex', {
+      pattern: 'road\\w+',
+      limit: 1,
+      cursor: first.data.nextCursor,
+    });
+    expect(second.data.results).toEqual([expect.objectContaining({ title: 'Project Kickoff' })]);
+  });
+
+  test('search_notes_regex skips notes where the pattern runs too long', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: { timedOut: Array<{ title: string }> };
+    }>('search_notes_regex', { pattern: '^(\\w+\\s?)*!$', flags: 'm', searchIn: 'content' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.timedOut.map(note => note.title)).toContain('Weekly Meeting Notes');
+  });
+
+  test('search_notes_regex stops once too many notes time out and resumes from a cursor', async () => {
+    const source = fixture.noteId('Weekly Meeting Notes');
+    const db = new sqlite3.Database(fixture.dbPath);
+    type RegexPage = {
+      data: {
+        notesScanned: number;
+        timedOut: Array<{ title: string }>;
+        stoppedEarly?: string;
+        nextCursor: string | null;
+        hasMore: boolean;
+      };
+    };
+    const args = { pattern: '^(\\w+\\s?)*!$', flags: 'm', searchIn: 'content' };
+
+    try {
+      // Copies of a note the pattern times out on, newer than every other note
+      for (let index = 1; index <= 6; index++) {
+        await run(
+          db,
+          `INSERT INTO ZSFNOTE (Z_ENT, Z_OPT, ZARCHIVED, ZENCRYPTED, ZTRASHED, ZMODIFICATIONDATE,
+             ZTEXT, ZTITLE, ZUNIQUEIDENTIFIER)
+           SELECT Z_ENT, Z_OPT, 0, 0, 0, ZMODIFICATIONDATE + ?, ZTEXT, ?, ?
+           FROM ZSFNOTE WHERE Z_PK = ?`,
+          [index, `Slow ${index}`, `SLOW-NOTE-${index}`, source]
+        );
+      }
+
+      const first = await bear.callToolJson<RegexPage>('search_notes_regex', args);
+      expect(first.data).toMatchObject({
+        notesScanned: 5,
+        stoppedEarly: 'timeouts',
+        hasMore: true,
+      });
+      expect(first.data.timedOut.map(note => note.title)).toEqual([
+        'Slow 6',
+        'Slow 5',
+        'Slow 4',
+        'Slow 3',
+        'Slow 2',
+      ]);
+
+      const second = await bear.callToolJson<RegexPage>('search_notes_regex', {
+        ...args,
+        cursor: first.data.nextCursor,
+      });
+      expect(second.data.timedOut.map(note => note.title)).toEqual([
+        'Slow 1',
+        'Weekly Meeting Notes',
+      ]);
+      expect(second.data).toMatchObject({ hasMore: false, nextCursor: null });
+      expect(second.data.stoppedEarly).toBeUndefined();
+    } finally {
+      await run(db, "DELETE FROM ZSFNOTE WHERE ZUNIQUEIDENTIFIER LIKE 'SLOW-NOTE-%'");
+      await close(db);
+    }
+  });
+
+  test('search_notes_regex rejects malformed patterns and flags', async () => {
+    const invalid = await bear.callToolJson<{ success: boolean; error: string }>(
+      'search_notes_regex',
+      { pattern: '(unclosed' }
+    );
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toMatch(/^Invalid regular expression: /);
+
+    const sticky = await bear.callToolJson<{ success: boolean; error: string }>(
+      'search_notes_regex',
+      { pattern: 'a', flags: 'y' }
+    );
+    expect(sticky.error).toBe('Unsupported regex flag "y" (use i, m, s or u)');
+  });
+
+  test('get_file_attachments lists attachments with their notes', async () => {
+    const result = await bear.callToolJson<{
+      success: boolean;
+      data: { totalAttachments: number };
+    }>('get_file_attachments', { includeMetadata: true });
+    expect(result.success).toBe(true);
+    expect(result.data.totalAttachments).toBe(2);
+
+    const pdfs = await bear.callTool('get_file_attachments', { fileType: 'pdf' });
+    expect(pdfs.text).toContain('roadmap.pdf');
+    expect(pdfs.text).not.toContain('whiteboard.png');
+  });
+
+  test('analyze_note_metadata and get_notes_with_metadata inspect content', async () => {
+    const analysis = await bear.callToolJson<{ success: boolean }>('analyze_note_metadata', {
+      includeContentAnalysis: true,
+      includeLinkAnalysis: true,
+      includeStructureAnalysis: true,
+    });
+    expect(analysis.success).toBe(true);
+
+    const withCode = await bear.callToolJson<{
+      success: boolean;
+      data: { notes: Array<{ title: string }> };
+    }>('get_notes_with_metadata', { hasCodeBlocks: true });
+    expect(withCode.data.notes.map(note => note.title)).toEqual(['Weekly Meeting Notes']);
+  });
+
+  test('format returns the JSON payload, the text, or both', async () => {
+    const { tools } = await bear.client.listTools();
+    for (const tool of tools) {
+      expect(tool.inputSchema.properties).toHaveProperty('format');
+    }
+
+    const recent = await bear.callToolJson<{
+      success: boolean;
+      data: {
+        notes: Array<{
+          id: number;
+          uniqueId: string;
+          title: string;
+          modifiedAt: string;
+          pinned: boolean;
+          tags: string[];
+          preview: string;
+        }>;
+        nextCursor: string | null;
+        hasMore: boolean;
+      };
+    }>('get_recent_notes', { limit: 2, format: 'json' });
+    expect(recent.success).toBe(true);
+    expect(recent.data.notes.map(note => note.title)).toEqual([
+      'Weekly Meeting Notes',
+      'Project Kickoff',
+    ]);
+    expect(recent.data.notes[1]).toMatchObject({
+      modifiedAt: '2024-03-05T10:00:00.000Z',
+      pinned: true,
+      tags: expect.arrayContaining(['work/projects', 'meetings']),
+    });
+    expect(recent.data.notes[1].uniqueId).toEqual(expect.any(String));
+    expect(recent.data.notes[1].preview).toContain('Agenda for the kickoff meeting');
+    expect(recent.data.hasMore).toBe(true);
+    expect(recent.data.nextCursor).toEqual(expect.any(String));
+
+    const both = await bear.client.callTool({
+      name: 'get_note_by_title',
+      arguments: { title: 'Recipe Ideas', format: 'both' },
+    });
+    const [text, json] = both.content as Array<{ type: string; text: string }>;
+    expect(text.text).toContain('Pasta with tomatoes');
+    expect(JSON.parse(json.text)).toMatchObject({
+      success: true,
+      data: { note: { title: 'Recipe Ideas', tags: ['cooking'], content: expect.any(String) } },
+    });
+
+    const missing = await bear.callToolJson<{ success: boolean; data: { note: null } }>(
+      'get_note_by_id',
+      { id: 9999, format: 'json' }
+    );
+    expect(missing).toEqual({ success: true, data: { note: null } });
+
+    const plain = await bear.client.callTool({ name: 'get_all_tags', arguments: {} });
+    expect(plain.content).toHaveLength(1);
+
+    const invalid = await bear.callTool('get_all_tags', { format: 'xml' });
+    expect(invalid.text).toContain('Invalid format "xml"');
+  });
+
+  test('resources expose notes, tags and attachments under bear://', async () => {
+    const kickoffUuid = fixture.noteUuid('Project Kickoff');
+
+    const { resources } = await bear.client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual(
+      expect.arrayContaining([
+        'bear://tag/work/projects',
+        'bear://tag/meetings',
+        `bear://note/${kickoffUuid}`,
+      ])
+    );
+    expect(resources.map(resource => resource.name)).not.toContain('Secret');
+    expect(resources.map(resource => resource.name)).not.toContain('#unused');
+
+    const { resourceTemplates } = await bear.client.listResourceTemplates();
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'bear://note/{uuid}',
+      'bear://tag/{path}',
+      'bear://attachment/{id}',
+    ]);
+
+    const note = await bear.client.readResource({ uri: `bear://note/${kickoffUuid}` });
+    expect(note.contents[0]).toMatchObject({ mimeType: 'text/markdown' });
+    expect(note.contents[0].text).toContain('Agenda for the kickoff meeting');
+
+    const tag = await bear.client.readResource({ uri: 'bear://tag/meetings' });
+    expect(tag.contents[0].text).toContain(
+      `- [Weekly Meeting Notes](bear://note/${fixture.noteUuid('Weekly Meeting Notes')})`
+    );
+    expect(tag.contents[0].text).toContain(`- [Project Kickoff](bear://note/${kickoffUuid})`);
+
+    const [attachment] = await bear
+      .callToolJson<{
+        data: { attachments: Array<{ id: number; filePath: string }> };
+      }>('get_file_attachments', { fileType: 'pdf' })
+      .then(result => result.data.attachments);
+    const filePath = path.join(path.dirname(fixture.dbPath), attachment.filePath);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, 'roadmap');
+
+    const file = await bear.client.readResource({ uri: `bear://attachment/${attachment.id}` });
+    expect(file.contents[0]).toMatchObject({
+      mimeType: 'application/pdf',
+      blob: Buffer.from('roadmap').toString('base64'),
+    });
+
+    await expect(bear.client.readResource({ uri: 'bear://note/NO-SUCH-NOTE' })).rejects.toThrow(
+      'Note not found: NO-SUCH-NOTE'
+    );
+    await expect(bear.client.readResource({ uri: 'bear://tag/nope' })).rejects.toThrow(
+      'Tag not found: nope'
+    );
+    await expect(
+      bear.client.readResource({ uri: `bear://note/${fixture.noteUuid('Secret')}` })
+    ).rejects.toThrow('is encrypted');
+    await expect(bear.client.readResource({ uri: 'bear://attachment/9999' })).rejects.toThrow(
+      'Attachment not found: 9999'
+    );
+    await expect(bear.client.readResource({ uri: 'bear://notebook/1' })).rejects.toThrow(
+      'Unknown resource'
+    );
+  });
+
+  test('prompts pre-fetch the notes they cover', async () => {
+    const { prompts } = await bear.client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual([
+      'summarize_tag',
+      'meeting_action_items',
+      'weekly_review',
+    ]);
+
+    const promptText = async (name: string, args: Record<string, string>) => {
+      const result = await bear.client.getPrompt({ name, arguments: args });
+      const [message] = result.messages as Array<{ role: string; content: { text: string } }>;
+      expect(message.role).toBe('user');
+      return message.content.text;
+    };
+
+    const actions = await promptText('meeting_action_items', { note: 'Project Kickoff' });
+    expect(actions).toContain('Turn this meeting note into action items');
+    expect(actions).toContain('- [ ] Draft roadmap');
+    expect(actions).toContain(`bear://note/${fixture.noteUuid('Project Kickoff')}`);
+    expect(await promptText('meeting_action_items', { note: 'Weekly Meeting Notes' })).toEqual(
+      await promptText('meeting_action_items', {
+        note: String(fixture.noteId('Weekly Meeting Notes')),
+      })
+    );
+
+    // Only Weekly Meeting Notes changed this week
+    const id = fixture.noteId('Weekly Meeting Notes');
+    const db = new sqlite3.Database(fixture.dbPath);
+    const [original] = await all<{ ZMODIFICATIONDATE: number }>(
+      db,
+      'SELECT ZMODIFICATIONDATE FROM ZSFNOTE WHERE Z_PK = ?',
+      [id]
+    );
+    try {
+      await run(db, 'UPDATE ZSFNOTE SET ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        CoreDataUtils.fromDate(new Date()),
+        id,
+      ]);
+
+      const summary = await promptText('summarize_tag', { tag: '#meetings' });
+      expect(summary).toContain('tagged #meetings that changed in the last 7 days');
+      expect(summary).toContain('## Weekly Meeting Notes');
+      expect(summary).not.toContain('## Project Kickoff');
+
+      const review = await promptText('weekly_review', {});
+      expect(review).toContain('## Weekly Meeting Notes');
+      expect(review).not.toContain('## Recipe Ideas');
+
+      expect(await promptText('summarize_tag', { tag: 'cooking', days: '3' })).toContain(
+        'No notes tagged #cooking changed in the last 3 days.'
+      );
+    } finally {
+      await run(db, 'UPDATE ZSFNOTE SET ZMODIFICATIONDATE = ? WHERE Z_PK = ?', [
+        original.ZMODIFICATIONDATE,
+        id,
+      ]);
+      await close(db);
+    }
+
+    await expect(bear.client.getPrompt({ name: 'summarize_tag', arguments: {} })).rejects.toThrow(
+      "Required field 'tag' is missing or empty"
+    );
+    await expect(
+      bear.client.getPrompt({ name: 'weekly_review', arguments: { days: 'week' } })
+    ).rejects.toThrow('Invalid days "week"');
+    await expect(
+      bear.client.getPrompt({ name: 'meeting_action_items', arguments: { note: 'Nope' } })
+    ).rejects.toThrow('Note not found: Nope');
+    await expect(bear.client.getPrompt({ name: 'not_a_prompt' })).rejects.toThrow(
+      'Unknown prompt: not_a_prompt'
+    );
+  });
+
+  test('tool arguments are checked against the schema each tool advertises', async () => {
+    const { tools } = await bear.client.listTools();
+    const recent = tools.find(tool => tool.name === 'get_recent_notes')!;
+    expect(recent.inputSchema.properties?.limit).toMatchObject({
+      type: 'integer',
+      minimum: 1,
+      maximum: 100,
+    });
+    expect(tools.find(tool => tool.name === 'search_notes')!.inputSchema.required).toEqual([
+      'query',
+    ]);
+
+    const negative = await bear.callToolJson<Record<string, unknown>>('get_recent_notes', {
+      limit: -5,
+      format: 'json',
+    });
+    expect(negative).toMatchObject({
+      success: false,
+      error: "Field 'limit' value -5 must be at least 1",
+      code: 'VALIDATION_ERROR',
+      field: 'limit',
+    });
+
+    const badDate = await bear.callToolJson<Record<string, unknown>>('get_tag_usage_trends', {
+      endDate: 'last tuesday',
+      months: 0,
+      format: 'json',
+    });
+    expect(badDate).toMatchObject({ success: false, field: 'months' });
+    expect(badDate.issues).toEqual([
+      { field: 'months', message: expect.any(String) },
+      { field: 'endDate', message: expect.stringContaining('is not a valid date') },
+    ]);
+
+    expect((await bear.callTool('search_notes')).text).toBe(
+      "Error: Required field 'query' is missing or empty"
+    );
+    expect((await bear.callTool('get_note_by_id', { id: '12' })).text).toBe(
+      "Error: Field 'id' expected number, got string"
+    );
+    expect((await bear.callTool('get_notes_advanced', { sortBy: 'size; DROP' })).text).toContain(
+      "Field 'sortBy' must be one of created, modified, title, size"
+    );
+  });
+
+  test('every listed tool is dispatched', async () => {
+    const { tools } = await bear.client.listTools();
+    for (const tool of tools) {
+      // create_backup copies the database to the user's backup directory
+      if (tool.name === 'create_backup') {
+        continue;
+      }
+      // A wrongly typed argument stops tools with arguments at validation, before any write
+      const [property] = Object.keys(tool.inputSchema.properties ?? {}).filter(
+        name => name !== 'format'
+      );
+      const args = property ? { [property]: { not: 'valid' } } : {};
+      const { text } = await bear.callTool(tool.name, args);
+      expect(text).not.toContain('Unknown tool');
+    }
+  });
+
+  test('unknown tools report an error', async () => {
+    const { text } = await bear.callTool('not_a_tool');
+    expect(text).toContain('Unknown tool: not_a_tool');
+  });
+});
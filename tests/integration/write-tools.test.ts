@@ -0,0 +1,659 @@
+/**
+ * Write tool tests: URLs are dispatched to a simulated Bear backed by a fixture database
+ */
+
+import { createBearFixture, BearFixture } from '../fixtures/bear-database.js';
+import { SimulatedBear } from '../fixtures/simulated-bear.js';
+import {
+  connectBearServer,
+  connectBearSession,
+  createBearServer,
+  BearTestClient,
+} from '../utils/test-helpers.js';
+import { RecordingBearDispatcher } from '../../src/utils/bear-url-dispatcher.js';
+
+const QUICK_VERIFICATION = { timeoutMs: 300, initialIntervalMs: 20, maxIntervalMs: 100 };
+
+/**
+ * A Bear that saves the text of add-text calls but ignores their tags
+ */
+class TagDroppingBear extends SimulatedBear {
+  async dispatch(url: string): Promise<void> {
+    await super.dispatch(url.replace(/&tags=[^&]*/, ''));
+  }
+}
+
+describe('Write tools', () => {
+  let fixture: BearFixture;
+  let bear: SimulatedBear;
+  let client: BearTestClient;
+
+  beforeAll(async () => {
+    fixture = await createBearFixture({
+      notes: [
+        {
+          title: 'Shopping List',
+          text: '# Shopping List\n\n- [ ] Milk\n- [ ] Bread\n\n#errands',
+          tags: ['errands'],
+          pinned: false,
+        },
+        {
+          title: 'Reading Notes',
+          text: '# Reading Notes\n\nChapter one summary\n\n#books/fiction',
+          tags: ['books/fiction'],
+        },
+        { title: 'Old Idea', text: '# Old Idea\n\nSomething to throw away' },
+        {
+          title: 'Work Log',
+          text: '# Work Log\n\n## Monday\n- Planning\n\n## Tuesday\n- Reviews\n\n#work',
+          tags: ['work'],
+        },
+        {
+          title: 'Checklist',
+          text: '# Checklist\n\n- [ ] Draft\n- [ ] Review\n- [ ] Draft appendix\n\nDone when shipped',
+        },
+        { title: 'Recipes', text: '# Recipes\n\nSoup stock\n\n#cooking', tags: ['cooking'] },
+        {
+          title: 'Alpha Kickoff',
+          text: '# Alpha Kickoff\n\nAgenda for #proj/alpha\n\nRun `#proj` in the shell',
+          tags: ['proj/alpha'],
+        },
+        {
+          title: 'Project Ideas',
+          text: '# Project Ideas\n\nBrainstorm #projects, then #proj.',
+          tags: ['projects', 'proj'],
+        },
+        { title: 'Locked Plans', tags: ['projects', 'secret'], encrypted: true },
+      ],
+    });
+    bear = new SimulatedBear(fixture.dbPath);
+    client = await connectBearServer(fixture.dbPath, { dispatcher: bear });
+  });
+
+  beforeEach(() => {
+    bear.clear();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await fixture.cleanup();
+  });
+
+  test('create_note sends a create URL with sanitized tags', async () => {
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: { noteId: number; uniqueIdentifier: string; tagWarnings?: string[] };
+    }>('create_note', {
+      title: 'Trip Plan',
+      content: '# Trip Plan\n\nPack the tent',
+      tags: ['Travel Plans', 'summer'],
+      isPinned: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.tagWarnings).toEqual(['Tag "Travel Plans" was sanitized to "travelplans"']);
+    expect(bear.urls).toEqual([
+      'bear://x-callback-url/create?title=Trip%20Plan&text=Pack%20the%20tent&tags=travelplans%2Csummer&pin=yes',
+    ]);
+
+    const note = await client.callTool('get_note_by_id', { id: result.data.noteId });
+    expect(note.text).toContain('**Trip Plan**');
+    expect(note.text).toContain('Tags: travelplans, summer');
+    expect(note.text).toContain('Pack the tent');
+    expect(result.data.uniqueIdentifier).toMatch(/^[0-9A-F-]{36}$/);
+  });
+
+  test('update_note replaces content through add-text', async () => {
+    const noteId = fixture.noteId('Reading Notes');
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: { verification: { status: string } };
+    }>('update_note', {
+      noteId,
+      content: 'Chapter two summary\n\n#books/fiction',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.verification.status).toBe('verified');
+    expect(bear.calls).toHaveLength(1);
+    expect(bear.calls[0].action).toBe('add-text');
+    expect(bear.calls[0].params).toEqual({
+      id: fixture.noteUuid('Reading Notes'),
+      mode: 'replace',
+      text: 'Chapter two summary\n\n#books/fiction',
+    });
+
+    const note = await client.callTool('get_note_by_id', { id: noteId });
+    expect(note.text).toContain('# Reading Notes\nChapter two summary');
+  });
+
+  test('update_note appends under a heading without resending the note', async () => {
+    const noteId = fixture.noteId('Work Log');
+    const result = await client.callToolJson<{ success: boolean }>('update_note', {
+      noteId,
+      content: '- Standup',
+      mode: 'append',
+      header: 'Monday',
+    });
+
+    expect(result.success).toBe(true);
+    expect(bear.urls).toEqual([
+      `bear://x-callback-url/add-text?id=${fixture.noteUuid('Work Log')}&mode=append&text=-%20Standup&header=Monday&new_line=yes`,
+    ]);
+
+    const note = await client.callTool('get_note_by_id', { id: noteId });
+    expect(note.text).toContain('## Monday\n- Planning\n- Standup\n\n## Tuesday');
+  });
+
+  test('update_note prepends to the note body', async () => {
+    const result = await client.callToolJson<{ success: boolean }>('update_note', {
+      noteId: fixture.noteId('Work Log'),
+      content: 'Summary first',
+      mode: 'prepend',
+    });
+
+    expect(result.success).toBe(true);
+    expect(bear.calls[0].params).toMatchObject({ mode: 'prepend', text: 'Summary first' });
+  });
+
+  test('update_note rejects unknown headings and incomplete edits', async () => {
+    const noteId = fixture.noteId('Work Log');
+    const missing = await client.callToolJson<{ success: boolean; error: string }>('update_note', {
+      noteId,
+      content: '- Gym',
+      mode: 'append',
+      header: 'Sunday',
+    });
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain(`Header "Sunday" not found in note ${noteId}`);
+
+    const noContent = await client.callToolJson<{ success: boolean; error: string }>(
+      'update_note',
+      { noteId, mode: 'append' }
+    );
+    expect(noContent.error).toBe('Content is required for append mode');
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('edit_note applies find/replace edits through replace_all', async () => {
+    const noteId = fixture.noteId('Checklist');
+    const result = await client.callToolJson<{ success: boolean }>('edit_note', {
+      noteId,
+      edits: [
+        { find: '- [ ] Review', replace: '- [x] Review' },
+        { find: 'Done when shipped', replace: 'Done when merged' },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(bear.calls).toHaveLength(1);
+    expect(bear.calls[0].params).toEqual({
+      id: fixture.noteUuid('Checklist'),
+      mode: 'replace_all',
+      text: '# Checklist\n\n- [ ] Draft\n- [x] Review\n- [ ] Draft appendix\n\nDone when merged',
+    });
+  });
+
+  test('edit_note applies a unified diff', async () => {
+    const noteId = fixture.noteId('Checklist');
+    const result = await client.callToolJson<{ success: boolean }>('edit_note', {
+      noteId,
+      diff: [
+        '--- a/Checklist',
+        '+++ b/Checklist',
+        '@@ -3,3 +3,4 @@',
+        ' - [ ] Draft',
+        '+- [ ] Outline',
+        ' - [x] Review',
+        '-- [ ] Draft appendix',
+        '+- [x] Draft appendix',
+        '',
+      ].join('\n'),
+    });
+
+    expect(result.success).toBe(true);
+    const note = await client.callTool('get_note_by_id', { id: noteId });
+    expect(note.text).toContain('- [ ] Draft\n- [ ] Outline\n- [x] Review\n- [x] Draft appendix');
+  });
+
+  test('edit_note refuses ambiguous, missing and stale hunks', async () => {
+    const noteId = fixture.noteId('Checklist');
+    const ambiguous = await client.callToolJson<{ success: boolean; error: string }>('edit_note', {
+      noteId,
+      edits: [{ find: 'Draft', replace: 'Plan' }],
+    });
+    expect(ambiguous.success).toBe(false);
+    expect(ambiguous.error).toBe(
+      'Edit 1: find text matches 2 times; include more surrounding text to make it unique'
+    );
+
+    const missing = await client.callToolJson<{ success: boolean; error: string }>('edit_note', {
+      noteId,
+      diff: '@@ -3,1 +3,1 @@\n-- [ ] Publish\n+- [x] Publish\n',
+    });
+    expect(missing.error).toBe('Hunk 1 (@@ -3,1 +3,1 @@): context does not match the note');
+
+    const stale = await client.callToolJson<{ success: boolean; conflictDetected: boolean }>(
+      'edit_note',
+      {
+        noteId,
+        edits: [{ find: 'Outline', replace: 'Sketch' }],
+        expectedModificationDate: '2020-01-01T00:00:00Z',
+      }
+    );
+    expect(stale.conflictDetected).toBe(true);
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('update_note refuses stale edits without dispatching', async () => {
+    const result = await client.callToolJson<{ success: boolean; conflictDetected: boolean }>(
+      'update_note',
+      {
+        noteId: fixture.noteId('Shopping List'),
+        content: 'Eggs',
+        expectedModificationDate: '2020-01-01T00:00:00Z',
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.conflictDetected).toBe(true);
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('failed updates release the connection exactly once while another session reads', async () => {
+    const server = await createBearServer(fixture.dbPath, { dispatcher: bear });
+    const [writer, reader] = [await connectBearSession(server), await connectBearSession(server)];
+    const noteId = fixture.noteId('Work Log');
+
+    try {
+      for (let round = 0; round < 5; round++) {
+        const [missingHeader, analytics, tags, search] = await Promise.all([
+          writer.callToolJson<{ error: string }>('update_note', {
+            noteId,
+            content: '- Gym',
+            mode: 'append',
+            header: 'Sunday',
+          }),
+          reader.callTool('get_note_analytics'),
+          reader.callTool('get_all_tags'),
+          reader.callTool('search_notes', { query: `work ${round}` }),
+        ]);
+
+        expect(missingHeader.error).toContain('Header "Sunday" not found');
+        expect(analytics.text).toContain('Bear Notes Analytics');
+        expect(tags.text).toContain('**work**');
+        expect(search.text).not.toContain('Error');
+
+        const stale = await writer.callToolJson<{ conflictDetected: boolean }>('update_note', {
+          noteId,
+          content: 'Eggs',
+          expectedModificationDate: '2020-01-01T00:00:00Z',
+        });
+        expect(stale.conflictDetected).toBe(true);
+      }
+    } finally {
+      await Promise.all([writer.close(), reader.close()]);
+    }
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('duplicate_note creates a copy with the source tags', async () => {
+    const result = await client.callToolJson<{ success: boolean; data: { newNoteId: number } }>(
+      'duplicate_note',
+      { noteId: fixture.noteId('Shopping List') }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data.newNoteId).toBeGreaterThan(fixture.noteId('Reading Notes'));
+    expect(bear.calls[0].action).toBe('create');
+    expect(bear.calls[0].params.title).toBe('Shopping List (Copy)');
+
+    const copy = await client.callTool('get_note_by_title', { title: 'Shopping List (Copy)' });
+    expect(copy.text).toContain('- [ ] Milk');
+    expect(copy.text).toContain('errands');
+  });
+
+  test('archive_note archives through Bear and confirms ZARCHIVED', async () => {
+    const noteId = fixture.noteId('Reading Notes');
+    const result = await client.callToolJson<{ success: boolean; data: { archived: boolean } }>(
+      'archive_note',
+      { noteId, archived: true }
+    );
+
+    expect(result.success).toBe(true);
+    expect(bear.urls).toEqual([
+      `bear://x-callback-url/archive?id=${fixture.noteUuid('Reading Notes')}&show_window=no`,
+    ]);
+
+    const archived = await client.callTool('get_notes_with_criteria', { isArchived: true });
+    expect(archived.text).toContain('Reading Notes');
+
+    bear.clear();
+    const again = await client.callToolJson<{ success: boolean }>('archive_note', {
+      noteId,
+      archived: true,
+    });
+    expect(again.success).toBe(true);
+    expect(bear.calls).toHaveLength(0);
+
+    // Bear's URL scheme has no unarchive action, so nothing is sent
+    for (const [tool, args] of [
+      ['update_note', { noteId, isArchived: false }],
+      ['archive_note', { noteId, archived: false }],
+    ] as const) {
+      const unarchived = await client.callToolJson<{ success: boolean; error: string }>(tool, args);
+      expect(unarchived.success).toBe(false);
+      expect(unarchived.error).toContain("Bear's URL scheme cannot unarchive notes");
+    }
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('create_note archives the new note when asked', async () => {
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: { noteId: number; archived: boolean };
+    }>('create_note', { title: 'Filed Away', content: 'Old receipts', isArchived: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.archived).toBe(true);
+    expect(bear.calls.map(call => call.action)).toEqual(['create', 'archive']);
+  });
+
+  test('trash_note moves a note to the trash and get_trashed_notes lists it', async () => {
+    const noteId = fixture.noteId('Old Idea');
+    const trashed = await client.callToolJson<{ success: boolean }>('trash_note', { noteId });
+
+    expect(trashed.success).toBe(true);
+    expect(bear.urls).toEqual([
+      `bear://x-callback-url/trash?id=${fixture.noteUuid('Old Idea')}&show_window=no`,
+    ]);
+
+    const trash = await client.callTool('get_trashed_notes');
+    expect(trash.text).toContain(`**Old Idea** (ID: ${noteId})`);
+
+    const again = await client.callToolJson<{ success: boolean; error: string }>('trash_note', {
+      noteId,
+    });
+    expect(again.success).toBe(false);
+    expect(again.error).toBe(`Note with ID ${noteId} not found or is already trashed`);
+    expect(bear.calls.map(call => call.action)).toEqual(['trash']);
+  });
+
+  test('dryRun previews create_note without sending anything', async () => {
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: {
+        dryRun: boolean;
+        urls: string[];
+        sanitizedTags: string[];
+        tagWarnings: string[];
+        diff: string;
+      };
+    }>('create_note', {
+      title: 'Draft Plan',
+      content: 'First step',
+      tags: ['Big Ideas'],
+      isArchived: true,
+      dryRun: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.dryRun).toBe(true);
+    expect(result.data.urls).toEqual([
+      'bear://x-callback-url/create?title=Draft%20Plan&text=First%20step&tags=bigideas',
+      'bear://x-callback-url/archive?id=NEW_NOTE_ID&show_window=no',
+    ]);
+    expect(result.data.sanitizedTags).toEqual(['bigideas']);
+    expect(result.data.tagWarnings).toEqual(['Tag "Big Ideas" was sanitized to "bigideas"']);
+    expect(result.data.diff).toBe(
+      '--- /dev/null\n+++ Draft Plan\n@@ -0,0 +1,3 @@\n+# Draft Plan\n+First step\n+#bigideas'
+    );
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('dryRun previews update_note, duplicate_note and batch parsing as diffs', async () => {
+    const noteId = fixture.noteId('Work Log');
+    const update = await client.callToolJson<{ data: { urls: string[]; diff: string } }>(
+      'update_note',
+      { noteId, content: '- Retro', mode: 'append', header: 'Tuesday', dryRun: true }
+    );
+    expect(update.data.urls).toHaveLength(1);
+    expect(update.data.diff).toMatch(/^--- Work Log\n\+\+\+ Work Log\n@@ .* @@\n/);
+    expect(update.data.diff).toContain('\n+- Retro');
+
+    const duplicate = await client.callToolJson<{ data: { urls: string[]; diff: string } }>(
+      'duplicate_note',
+      { noteId, dryRun: true }
+    );
+    expect(duplicate.data.urls[0]).toMatch(
+      /^bear:\/\/x-callback-url\/create\?title=Work%20Log%20\(Copy\)/
+    );
+    expect(duplicate.data.diff).toContain('+++ Work Log (Copy)');
+
+    const batch = await client.callToolJson<{ data: { urls: string[]; diff: string } }>(
+      'batch_trigger_hashtag_parsing',
+      { title_pattern: 'Work Log', dryRun: true }
+    );
+    expect(batch.data.urls).toHaveLength(1);
+    expect(batch.data.urls[0]).toContain('mode=replace');
+
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('batch_trigger_hashtag_parsing re-sends note content', async () => {
+    const result = await client.callToolJson<{ success: boolean; data: { message: string } }>(
+      'batch_trigger_hashtag_parsing',
+      { title_pattern: 'Shopping List', limit: 1 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data.message).toContain('1/1 notes');
+    expect(bear.calls[0].params).toMatchObject({
+      id: fixture.noteUuid('Shopping List'),
+      mode: 'replace',
+      show_window: 'no',
+    });
+  });
+
+  test('trigger_hashtag_parsing accepts the note_title it advertises', async () => {
+    const result = await client.callToolJson<{ success: boolean }>('trigger_hashtag_parsing', {
+      note_title: 'Shopping List',
+    });
+    expect(result.success).toBe(true);
+
+    const neither = await client.callToolJson<{ success: boolean; error: string }>(
+      'trigger_hashtag_parsing'
+    );
+    expect(neither.error).toBe('Either note_id or note_title is required');
+  });
+
+  test('rename_tag renames through Bear and reports the notes touched', async () => {
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: {
+        method: string;
+        target: string;
+        tagWarnings: string[];
+        notes: Array<{ title: string; status: string }>;
+        verification: { status: string };
+      };
+    }>('rename_tag', { from: '#cooking', to: 'Kitchen Notes' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.method).toBe('rename-tag');
+    expect(result.data.target).toBe('kitchennotes');
+    expect(result.data.tagWarnings).toEqual([
+      'Tag "Kitchen Notes" was sanitized to "kitchennotes"',
+    ]);
+    expect(result.data.notes).toEqual([
+      { noteId: fixture.noteId('Recipes'), title: 'Recipes', status: 'updated' },
+    ]);
+    expect(result.data.verification.status).toBe('verified');
+    expect(bear.urls).toEqual([
+      'bear://x-callback-url/rename-tag?name=cooking&new_name=kitchennotes&show_window=no',
+    ]);
+
+    const tags = await client.callTool('get_all_tags');
+    expect(tags.text).toContain('kitchennotes');
+    expect(tags.text).not.toContain('cooking');
+  });
+
+  test('merge_tags rewrites hashtags, including nested tags, note by note', async () => {
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: {
+        method: string;
+        message: string;
+        notes: Array<{ title: string; status: string; replacements?: number; reason?: string }>;
+        verification: { status: string };
+      };
+    }>('merge_tags', { sources: ['projects', 'proj'], target: 'project' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.method).toBe('rewrite');
+    expect(result.data.verification.status).toBe('verified');
+    expect(result.data.message).toBe(
+      'Changed #projects, #proj to #project in 2 note(s); 1 note(s) skipped'
+    );
+
+    const byTitle = Object.fromEntries(result.data.notes.map(note => [note.title, note]));
+    expect(byTitle['Project Ideas']).toMatchObject({ status: 'updated', replacements: 2 });
+    expect(byTitle['Alpha Kickoff']).toMatchObject({ status: 'updated', replacements: 1 });
+    expect(byTitle['Locked Plans']).toMatchObject({
+      status: 'skipped',
+      reason: 'Note is encrypted',
+    });
+
+    expect(bear.calls.map(call => call.params.mode)).toEqual(['replace_all', 'replace_all']);
+    const kickoff = await client.callTool('get_note_by_id', {
+      id: fixture.noteId('Alpha Kickoff'),
+    });
+    expect(kickoff.text).toContain('Agenda for #project/alpha\n\nRun `#proj` in the shell');
+    const ideas = await client.callTool('get_note_by_id', { id: fixture.noteId('Project Ideas') });
+    expect(ideas.text).toContain('Brainstorm #project, then #project.');
+  });
+
+  test('rename_tag into a tag nested under the source verifies though the source stays', async () => {
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: { method: string; verification: { status: string } };
+    }>('rename_tag', { from: 'errands', to: 'errands/home' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.method).toBe('rewrite');
+    expect(result.data.verification.status).toBe('verified');
+
+    // Bear keeps the ancestor tag on notes tagged with a nested tag
+    const note = await client.callTool('get_note_by_id', { id: fixture.noteId('Shopping List') });
+    expect(note.text).toContain('#errands/home');
+    const tags = await client.callTool('get_all_tags');
+    expect(tags.text).toContain('errands/home');
+  });
+
+  test('merge_tags returns without waiting when every note is skipped', async () => {
+    const quick = await connectBearServer(fixture.dbPath, {
+      dispatcher: bear,
+      verification: QUICK_VERIFICATION,
+    });
+
+    try {
+      const result = await quick.callToolJson<{
+        success: boolean;
+        data: {
+          message: string;
+          urls: string[];
+          notes: Array<{ title: string; status: string }>;
+          verification?: { status: string };
+        };
+      }>('merge_tags', { sources: ['secret'], target: 'private' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.notes).toMatchObject([{ title: 'Locked Plans', status: 'skipped' }]);
+      expect(result.data.message).toBe(
+        'Changed #secret to #private in 0 note(s); 1 note(s) skipped'
+      );
+      expect(result.data.urls).toEqual([]);
+      expect(result.data.verification).toBeUndefined();
+      expect(bear.calls).toHaveLength(0);
+    } finally {
+      await quick.close();
+    }
+  });
+
+  test('rename_tag onto an existing tag previews a merge with dryRun', async () => {
+    const result = await client.callToolJson<{
+      success: boolean;
+      data: { method: string; dryRun: boolean; urls: string[]; notes: Array<{ title: string }> };
+    }>('rename_tag', { from: 'books', to: 'work', dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.dryRun).toBe(true);
+    expect(result.data.method).toBe('rewrite');
+    expect(result.data.notes.map(note => note.title)).toEqual(['Reading Notes']);
+    expect(result.data.urls[0]).toContain('mode=replace_all');
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  test('rename_tag and merge_tags reject unknown tags', async () => {
+    const renamed = await client.callToolJson<{ success: boolean; error: string }>('rename_tag', {
+      from: 'nosuchtag',
+      to: 'other',
+    });
+    expect(renamed).toEqual({ success: false, error: 'Tag "nosuchtag" not found' });
+
+    const merged = await client.callToolJson<{ success: boolean; error: string }>('merge_tags', {
+      sources: ['work', 'nosuchtag'],
+      target: 'job',
+    });
+    expect(merged).toEqual({ success: false, error: 'Tags not found: nosuchtag' });
+    expect(bear.calls).toHaveLength(0);
+  });
+
+  describe('post-write verification', () => {
+    test('reports pending when Bear does not apply the write', async () => {
+      const idle = await connectBearServer(fixture.dbPath, {
+        dispatcher: new RecordingBearDispatcher(),
+        verification: QUICK_VERIFICATION,
+      });
+
+      try {
+        const result = await idle.callToolJson<{
+          success: boolean;
+          data: { message: string; verification: { status: string; detail: string } };
+        }>('update_note', { noteId: fixture.noteId('Shopping List'), content: 'Eggs' });
+
+        expect(result.success).toBe(true);
+        expect(result.data.verification.status).toBe('pending');
+        expect(result.data.verification.detail).toContain('may be closed or busy');
+        expect(result.data.message).toContain('not confirmed yet');
+      } finally {
+        await idle.close();
+      }
+    });
+
+    test('reports failed when Bear applies the write differently', async () => {
+      const forgetful = await connectBearServer(fixture.dbPath, {
+        dispatcher: new TagDroppingBear(fixture.dbPath),
+        verification: QUICK_VERIFICATION,
+      });
+
+      try {
+        const result = await forgetful.callToolJson<{
+          success: boolean;
+          error: string;
+          verificationFailed: boolean;
+        }>('update_note', {
+          noteId: fixture.noteId('Shopping List'),
+          content: 'Milk and eggs',
+          tags: ['urgent'],
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.verificationFailed).toBe(true);
+        expect(result.error).toBe('Verification failed: Note is missing tags: urgent');
+      } finally {
+        await forgetful.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Test helpers for driving the MCP server end to end
+ */
+
+import http from 'http';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { BearMCPServer, BearMCPServerOptions } from '../../src/server.js';
+
+/**
+ * One side of an in-process transport pair; messages sent here are delivered to the peer
+ */
+class LinkedTransport implements Transport {
+  peer?: LinkedTransport;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  async start(): Promise<void> {
+    // Nothing to set up for an in-process pair
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const peer = this.peer;
+    if (!peer) {
+      throw new Error('Transport is closed');
+    }
+    setImmediate(() => peer.onmessage?.(message));
+  }
+
+  async close(): Promise<void> {
+    const peer = this.peer;
+    this.peer = undefined;
+    this.onclose?.();
+    if (peer) {
+      await peer.close();
+    }
+  }
+}
+
+export function createLinkedTransports(): [Transport, Transport] {
+  const client = new LinkedTransport();
+  const server = new LinkedTransport();
+  client.peer = server;
+  server.peer = client;
+  return [client, server];
+}
+
+/**
+ * Client side of the HTTP transport: reads server-sent events from GET /sse and posts
+ * messages to the endpoint the stream announces, presenting a bearer token on both
+ */
+class SseClientTransport implements Transport {
+  private request?: http.ClientRequest;
+  private endpoint?: URL;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private url: URL,
+    private token: string
+  ) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.request = http.get(
+        this.url,
+        { headers: { Authorization: `Bearer ${this.token}`, Accept: 'text/event-stream' } },
+        response => {
+          if (response.statusCode !== 200) {
+            reject(new Error(`SSE connection failed with status ${response.statusCode}`));
+            response.resume();
+            return;
+          }
+
+          let buffer = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => {
+            buffer += chunk;
+            let end: number;
+            while ((end = buffer.indexOf('\n\n')) !== -1) {
+              const lines = buffer.slice(0, end).split('\n');
+              buffer = buffer.slice(end + 2);
+              const event = lines.find(line => line.startsWith('event: '))?.slice(7);
+              const data = lines.find(line => line.startsWith('data: '))?.slice(6) || '';
+              if (event === 'endpoint') {
+                this.endpoint = new URL(data, this.url);
+                resolve();
+              } else if (event === 'message') {
+                this.onmessage?.(JSON.parse(data) as JSONRPCMessage);
+              }
+            }
+          });
+          response.on('close', () => this.onclose?.());
+        }
+      );
+      this.request.on('error', reject);
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Transport is not started');
+    }
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`POST failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.request?.destroy();
+  }
+}
+
+/**
+ * Connect an MCP client to a server listening over HTTP
+ */
+export async function connectHttpClient(serverUrl: string, token: string): Promise<Client> {
+  const client = new Client({ name: 'bear-mcp-tests', version: '1.0.0' });
+  await client.connect(new SseClientTransport(new URL('/sse', serverUrl), token));
+  return client;
+}
+
+export interface ToolResult {
+  text: string;
+  isError?: boolean;
+}
+
+export interface BearTestClient {
+  client: Client;
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  callToolJson<T = Record<string, unknown>>(
+    name: string,
+    args?: Record<string, unknown>
+  ): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * A BearMCPServer reading the given database. BEAR_DB_PATH is read when the config module
+ * loads, so call this once per test file. Search indexes go in a subdirectory, since they may
+ * not sit beside Bear's database.
+ */
+export async function createBearServer(
+  dbPath: string,
+  options: BearMCPServerOptions = {}
+): Promise<BearMCPServer> {
+  process.env.BEAR_DB_PATH = dbPath;
+  process.env.BEAR_SEARCH_INDEX_PATH = path.join(path.dirname(dbPath), 'index', 'search.sqlite');
+  process.env.BEAR_VECTOR_INDEX_PATH = path.join(path.dirname(dbPath), 'index', 'vectors.sqlite');
+  const { BearMCPServer } = await import('../../src/server.js');
+  return new BearMCPServer(options);
+}
+
+/**
+ * Start a BearMCPServer against the given database and connect a client to it in process
+ */
+export async function connectBearServer(
+  dbPath: string,
+  options: BearMCPServerOptions = {}
+): Promise<BearTestClient> {
+  return connectBearSession(await createBearServer(dbPath, options));
+}
+
+/**
+ * Open another in-process session on a server; sessions share its services
+ */
+export async function connectBearSession(server: BearMCPServer): Promise<BearTestClient> {
+  const client = new Client({ name: 'bear-mcp-tests', version: '1.0.0' });
+  const [clientTransport, serverTransport] = createLinkedTransports();
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const callTool = async (
+    name: string,
+    args: Record<string, unknown> = {}
+  ): Promise<ToolResult> => {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as Array<{ type: string; text?: string }>;
+    return {
+      text: content.map(item => item.text || '').join('\n'),
+      isError: result.isError as boolean | undefined,
+    };
+  };
+
+  return {
+    client,
+    callTool,
+    callToolJson: async <T>(name: string, args?: Record<string, unknown>) =>
+      JSON.parse((await callTool(name, args)).text) as T,
+    close: () => client.close(),
+  };
+}